@@ -0,0 +1,110 @@
+/**
+ * Tests for AES-256-GCM bundles
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ErrorCodes } from '@happy/errors';
+import { decryptAesGcm, detectFormat, encryptAesGcm, readKeyVersion } from './index';
+import { sealAesGcm } from './aesGcm';
+
+const key = Uint8Array.from({ length: 32 }, (_, i) => i);
+const otherKey = Uint8Array.from({ length: 32 }, (_, i) => 255 - i);
+const plaintext = Uint8Array.of(1, 2, 3, 4, 5);
+
+describe('encryptAesGcm', () => {
+    it('produces a v0 bundle by default', async () => {
+        const bundle = await encryptAesGcm(plaintext, key);
+        expect(detectFormat(bundle)).toBe('v0');
+        expect(bundle).toHaveLength(1 + 12 + plaintext.length + 16);
+        expect(await decryptAesGcm(bundle, key)).toEqual(plaintext);
+    });
+
+    it('produces a v1 bundle carrying the key version', async () => {
+        const bundle = await encryptAesGcm(plaintext, key, { keyVersion: 513 });
+        expect(detectFormat(bundle)).toBe('v1');
+        expect(readKeyVersion(bundle)).toBe(513);
+        expect(bundle).toHaveLength(3 + 12 + plaintext.length + 16);
+        expect(await decryptAesGcm(bundle, key)).toEqual(plaintext);
+    });
+
+    it('uses a fresh nonce every time', async () => {
+        const a = await encryptAesGcm(plaintext, key);
+        const b = await encryptAesGcm(plaintext, key);
+        expect(a).not.toEqual(b);
+    });
+
+    it('rejects keys that are not 32 bytes', async () => {
+        await expect(encryptAesGcm(plaintext, new Uint8Array(16))).rejects.toMatchObject({
+            code: ErrorCodes.ENCRYPTION_ERROR,
+        });
+    });
+
+    it('rejects key versions outside 0-65535', async () => {
+        for (const keyVersion of [-1, 65536, 1.5]) {
+            await expect(encryptAesGcm(plaintext, key, { keyVersion })).rejects.toMatchObject({
+                code: ErrorCodes.ENCRYPTION_ERROR,
+            });
+        }
+    });
+});
+
+describe('sealAesGcm', () => {
+    it('rejects short nonces as NONCE_TOO_SHORT', async () => {
+        await expect(sealAesGcm(plaintext, key, new Uint8Array(8))).rejects.toMatchObject({
+            code: ErrorCodes.NONCE_TOO_SHORT,
+        });
+    });
+});
+
+describe('decryptAesGcm', () => {
+    it('fails with the wrong key', async () => {
+        const bundle = await encryptAesGcm(plaintext, key);
+        await expect(decryptAesGcm(bundle, otherKey)).rejects.toMatchObject({
+            code: ErrorCodes.DECRYPTION_FAILED,
+        });
+    });
+
+    it('fails on a tampered ciphertext or header', async () => {
+        const bundle = await encryptAesGcm(plaintext, key, { keyVersion: 1 });
+        const tamperedBody = bundle.slice();
+        tamperedBody[bundle.length - 1] ^= 0x01;
+        await expect(decryptAesGcm(tamperedBody, key)).rejects.toMatchObject({
+            code: ErrorCodes.DECRYPTION_FAILED,
+        });
+
+        const tamperedNonce = bundle.slice();
+        tamperedNonce[3] ^= 0x01;
+        await expect(decryptAesGcm(tamperedNonce, key)).rejects.toMatchObject({
+            code: ErrorCodes.DECRYPTION_FAILED,
+        });
+    });
+
+    it('fails on truncated bundles', async () => {
+        await expect(decryptAesGcm(new Uint8Array(28), key)).rejects.toMatchObject({
+            code: ErrorCodes.DECRYPTION_FAILED,
+        });
+        await expect(decryptAesGcm(Uint8Array.of(0x01, ...new Uint8Array(29)), key)).rejects.toMatchObject({
+            code: ErrorCodes.DECRYPTION_FAILED,
+        });
+    });
+
+    it('refuses legacy bundles', async () => {
+        await expect(decryptAesGcm(new Uint8Array(64).fill(0x42), key)).rejects.toMatchObject({
+            code: ErrorCodes.DECRYPTION_FAILED,
+            context: { format: 'legacy' },
+        });
+    });
+});
+
+describe('without globalThis.crypto (Node 18)', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('falls back to node:crypto webcrypto', async () => {
+        vi.stubGlobal('crypto', undefined);
+        expect((globalThis as { crypto?: unknown }).crypto).toBeUndefined();
+        const bundle = await encryptAesGcm(plaintext, key, { keyVersion: 1 });
+        expect(await decryptAesGcm(bundle, key)).toEqual(plaintext);
+    });
+});
@@ -0,0 +1,149 @@
+/**
+ * AES-256-GCM bundles (v0 and v1)
+ *
+ * Encrypts with WebCrypto, so the same code runs in the CLI (Node), the
+ * app and Workers. WebCrypto returns `ciphertext || authTag`, which is
+ * exactly the tail of the bundle layout.
+ *
+ * @example
+ * ```typescript
+ * import { encryptAesGcm, decryptAesGcm } from '@happy/crypto';
+ *
+ * const v0 = await encryptAesGcm(plaintext, dataKey);
+ * const v1 = await encryptAesGcm(plaintext, dataKey, { keyVersion: 3 });
+ * const plaintext = await decryptAesGcm(v1, dataKey);
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { AppError, ErrorCodes } from '@happy/errors';
+import {
+    AES_GCM_KEY_LENGTH,
+    AES_GCM_NONCE_LENGTH,
+    AES_GCM_TAG_LENGTH,
+    BUNDLE_HEADER_LENGTH,
+    BUNDLE_VERSION_V0,
+    BUNDLE_VERSION_V1,
+    MAX_KEY_VERSION,
+    MIN_BUNDLE_LENGTH,
+    detectFormat,
+} from './format';
+import { assertKeyLength } from './keyLength';
+import { assertNonceLength, generateHybridNonce } from './nonce';
+import { getWebCrypto } from './webcrypto';
+
+export interface AesGcmEncryptOptions {
+    /** Produce a v1 bundle carrying this key version (0-65535); omit for v0 */
+    keyVersion?: number;
+}
+
+/**
+ * Encrypt into a v0 bundle, or a v1 bundle when `keyVersion` is given
+ *
+ * @throws AppError ENCRYPTION_ERROR for a key that is not 32 bytes, an out-of-range key version or a WebCrypto failure
+ */
+export async function encryptAesGcm(
+    data: Uint8Array,
+    key: Uint8Array,
+    options: AesGcmEncryptOptions = {}
+): Promise<Uint8Array> {
+    return sealAesGcm(data, key, generateHybridNonce(AES_GCM_NONCE_LENGTH), options.keyVersion);
+}
+
+/**
+ * Encrypt with a caller-supplied nonce
+ *
+ * Only for test vectors and interop checks; a reused nonce breaks AES-GCM
+ * completely. Not exported from the package entry point.
+ *
+ * @throws AppError NONCE_TOO_SHORT if the nonce is shorter than 12 bytes
+ */
+export async function sealAesGcm(
+    data: Uint8Array,
+    key: Uint8Array,
+    nonce: Uint8Array,
+    keyVersion?: number
+): Promise<Uint8Array> {
+    assertKeyLength(key, AES_GCM_KEY_LENGTH, 'AES-256-GCM key');
+    assertNonceLength(nonce, AES_GCM_NONCE_LENGTH);
+    const header = encodeHeader(keyVersion);
+
+    let sealed: Uint8Array;
+    try {
+        const { subtle } = await getWebCrypto();
+        const cryptoKey = await subtle.importKey('raw', key, { name: 'AES-GCM' }, false, ['encrypt']);
+        sealed = new Uint8Array(
+            await subtle.encrypt({ name: 'AES-GCM', iv: nonce, tagLength: AES_GCM_TAG_LENGTH * 8 }, cryptoKey, data)
+        );
+    } catch (error) {
+        if (AppError.isAppError(error)) {
+            throw error;
+        }
+        throw new AppError(ErrorCodes.ENCRYPTION_ERROR, 'AES-GCM encryption failed', {
+            cause: error instanceof Error ? error : undefined,
+        });
+    }
+
+    const bundle = new Uint8Array(header.length + nonce.length + sealed.length);
+    bundle.set(header, 0);
+    bundle.set(nonce, header.length);
+    bundle.set(sealed, header.length + nonce.length);
+    return bundle;
+}
+
+/**
+ * Decrypt a v0 or v1 bundle
+ *
+ * For v1 the caller picks the key, typically via `readKeyVersion`.
+ *
+ * @throws AppError DECRYPTION_FAILED if the bundle is not v0/v1, is truncated or fails authentication
+ * @throws AppError ENCRYPTION_ERROR for a key that is not 32 bytes
+ */
+export async function decryptAesGcm(bundle: Uint8Array, key: Uint8Array): Promise<Uint8Array> {
+    assertKeyLength(key, AES_GCM_KEY_LENGTH, 'AES-256-GCM key');
+    const format = detectFormat(bundle);
+    if (format !== 'v0' && format !== 'v1') {
+        throw new AppError(ErrorCodes.DECRYPTION_FAILED, 'Not an AES-GCM bundle', { context: { format } });
+    }
+    if (bundle.length < MIN_BUNDLE_LENGTH[format]) {
+        throw new AppError(ErrorCodes.DECRYPTION_FAILED, `Bundle is too short for format ${format}`, {
+            context: { format, length: bundle.length, minLength: MIN_BUNDLE_LENGTH[format] },
+        });
+    }
+
+    const headerLength = BUNDLE_HEADER_LENGTH[format];
+    const nonce = bundle.subarray(headerLength, headerLength + AES_GCM_NONCE_LENGTH);
+    const sealed = bundle.subarray(headerLength + AES_GCM_NONCE_LENGTH);
+    try {
+        const { subtle } = await getWebCrypto();
+        const cryptoKey = await subtle.importKey('raw', key, { name: 'AES-GCM' }, false, ['decrypt']);
+        return new Uint8Array(
+            await subtle.decrypt({ name: 'AES-GCM', iv: nonce, tagLength: AES_GCM_TAG_LENGTH * 8 }, cryptoKey, sealed)
+        );
+    } catch (error) {
+        if (AppError.isAppError(error)) {
+            throw error;
+        }
+        throw new AppError(ErrorCodes.DECRYPTION_FAILED, 'AES-GCM authentication failed', {
+            cause: error instanceof Error ? error : undefined,
+            context: { format },
+        });
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Internal helpers
+// ═══════════════════════════════════════════════════════════════
+
+function encodeHeader(keyVersion: number | undefined): Uint8Array {
+    if (keyVersion === undefined) {
+        return Uint8Array.of(BUNDLE_VERSION_V0);
+    }
+    if (!Number.isInteger(keyVersion) || keyVersion < 0 || keyVersion > MAX_KEY_VERSION) {
+        throw new AppError(ErrorCodes.ENCRYPTION_ERROR, `Key version must be an integer from 0 to ${MAX_KEY_VERSION}`, {
+            context: { keyVersion },
+        });
+    }
+    return Uint8Array.of(BUNDLE_VERSION_V1, keyVersion >> 8, keyVersion & 0xff);
+}
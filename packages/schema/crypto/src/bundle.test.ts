@@ -0,0 +1,56 @@
+/**
+ * Tests for format-agnostic encrypt/decrypt
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ErrorCodes } from '@happy/errors';
+import { decrypt, detectFormat, encrypt, type EncryptOptions } from './index';
+import { sealSecretbox } from './secretbox';
+
+const key = Uint8Array.from({ length: 32 }, (_, i) => i);
+const otherKey = Uint8Array.from({ length: 32 }, (_, i) => 255 - i);
+const plaintext = Uint8Array.of(10, 20, 30);
+
+describe('encrypt / decrypt', () => {
+    const cases: Array<[EncryptOptions | undefined, string]> = [
+        [undefined, 'v0'],
+        [{ format: 'v0' }, 'v0'],
+        [{ format: 'v1', keyVersion: 7 }, 'v1'],
+    ];
+
+    for (const [options, format] of cases) {
+        it(`round-trips ${JSON.stringify(options)} as ${format}`, async () => {
+            const bundle = await encrypt(plaintext, key, options);
+            expect(detectFormat(bundle)).toBe(format);
+            expect(await decrypt(bundle, key)).toEqual(plaintext);
+        });
+    }
+
+    it('round-trips legacy bundles', async () => {
+        // Not checking detectFormat: the random nonce may start with 0x00/0x01
+        const bundle = await encrypt(plaintext, key, { format: 'legacy' });
+        expect(await decrypt(bundle, key)).toEqual(plaintext);
+    });
+
+    it('rejects an empty bundle', async () => {
+        await expect(decrypt(new Uint8Array(0), key)).rejects.toMatchObject({
+            code: ErrorCodes.DECRYPTION_FAILED,
+        });
+    });
+
+    it('opens legacy bundles whose nonce looks like a version byte', async () => {
+        const nonce = new Uint8Array(24).fill(0x33);
+        nonce[0] = 0x00;
+        const bundle = sealSecretbox(plaintext, key, nonce);
+        expect(detectFormat(bundle)).toBe('v0');
+        expect(await decrypt(bundle, key)).toEqual(plaintext);
+    });
+
+    it('reports the AES-GCM failure when neither format opens', async () => {
+        const bundle = await encrypt(plaintext, key, { format: 'v1', keyVersion: 1 });
+        await expect(decrypt(bundle, otherKey)).rejects.toMatchObject({
+            code: ErrorCodes.DECRYPTION_FAILED,
+            context: { format: 'v1' },
+        });
+    });
+});
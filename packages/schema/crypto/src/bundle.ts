@@ -0,0 +1,93 @@
+/**
+ * Format-agnostic encrypt and decrypt
+ *
+ * `encrypt` picks the bundle format from its options; `decrypt` detects it
+ * from the bundle. Use these unless a code path is tied to one format.
+ *
+ * @example
+ * ```typescript
+ * import { encrypt, decrypt } from '@happy/crypto';
+ *
+ * const bundle = await encrypt(plaintext, dataKey, { format: 'v1', keyVersion: 2 });
+ * const plaintext = await decrypt(bundle, dataKey);
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { AppError, ErrorCodes } from '@happy/errors';
+import { decryptAesGcm, encryptAesGcm } from './aesGcm';
+import { MIN_BUNDLE_LENGTH, detectFormat } from './format';
+import { decryptSecretbox, encryptSecretbox } from './secretbox';
+
+export type EncryptOptions =
+    | { format?: 'v0' }
+    | { format: 'v1'; keyVersion: number }
+    | { format: 'legacy' };
+
+/**
+ * Encrypt into a bundle of the requested format (default `v0`)
+ *
+ * @throws AppError ENCRYPTION_ERROR for an invalid key or key version
+ */
+export async function encrypt(
+    data: Uint8Array,
+    key: Uint8Array,
+    options: EncryptOptions = {}
+): Promise<Uint8Array> {
+    switch (options.format) {
+        case undefined:
+        case 'v0':
+            return encryptAesGcm(data, key);
+        case 'v1':
+            return encryptAesGcm(data, key, { keyVersion: options.keyVersion });
+        case 'legacy':
+            return encryptSecretbox(data, key);
+        default: {
+            const _exhaustive: never = options;
+            throw new Error(`Unknown bundle format: ${(_exhaustive as { format: string }).format}`);
+        }
+    }
+}
+
+/**
+ * Decrypt a bundle of any format
+ *
+ * Legacy bundles start with a random nonce, so about 1 in 128 of them looks
+ * like `v0`/`v1`. When AES-GCM fails on such a bundle, secretbox is tried
+ * before giving up.
+ *
+ * @throws AppError DECRYPTION_FAILED if the bundle is empty, truncated or fails authentication
+ * @throws AppError ENCRYPTION_ERROR for a key that is not 32 bytes
+ */
+export async function decrypt(bundle: Uint8Array, key: Uint8Array): Promise<Uint8Array> {
+    const format = detectFormat(bundle);
+    switch (format) {
+        case 'invalid':
+            throw new AppError(ErrorCodes.DECRYPTION_FAILED, 'Bundle is empty', { context: { format } });
+        case 'legacy':
+            return decryptSecretbox(bundle, key);
+        case 'v0':
+        case 'v1':
+            try {
+                return await decryptAesGcm(bundle, key);
+            } catch (error) {
+                if (
+                    AppError.isAppError(error) &&
+                    error.code === ErrorCodes.DECRYPTION_FAILED &&
+                    bundle.length >= MIN_BUNDLE_LENGTH.legacy
+                ) {
+                    try {
+                        return decryptSecretbox(bundle, key);
+                    } catch {
+                        // Report the AES-GCM failure; the bundle was most likely AES-GCM
+                    }
+                }
+                throw error;
+            }
+        default: {
+            const _exhaustive: never = format;
+            throw new Error(`Unknown bundle format: ${String(_exhaustive)}`);
+        }
+    }
+}
@@ -0,0 +1,37 @@
+/**
+ * Hex encoding
+ *
+ * Used by the test vectors, which are stored as hex so that non-TypeScript
+ * implementations (Swift, Kotlin) can copy them verbatim.
+ *
+ * @packageDocumentation
+ */
+
+import { AppError, ErrorCodes } from '@happy/errors';
+
+/**
+ * Encode bytes as lowercase hex
+ */
+export function bytesToHex(bytes: Uint8Array): string {
+    let hex = '';
+    for (const byte of bytes) {
+        hex += byte.toString(16).padStart(2, '0');
+    }
+    return hex;
+}
+
+/**
+ * Decode a hex string (either case)
+ *
+ * @throws AppError INVALID_INPUT for odd-length or non-hex input
+ */
+export function hexToBytes(hex: string): Uint8Array {
+    if (hex.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(hex)) {
+        throw new AppError(ErrorCodes.INVALID_INPUT, 'Invalid hex string', { context: { length: hex.length } });
+    }
+    const bytes = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+        bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+    }
+    return bytes;
+}
@@ -0,0 +1,42 @@
+/**
+ * Tests for bundle format detection
+ */
+
+import { describe, it, expect } from 'vitest';
+import { MIN_BUNDLE_LENGTH, detectFormat, readKeyVersion } from './index';
+
+describe('detectFormat', () => {
+    it('reports an empty bundle as invalid', () => {
+        expect(detectFormat(new Uint8Array(0))).toBe('invalid');
+    });
+
+    it('detects v0 and v1 from the version byte', () => {
+        expect(detectFormat(Uint8Array.of(0x00, 0xaa))).toBe('v0');
+        expect(detectFormat(Uint8Array.of(0x01, 0xaa))).toBe('v1');
+    });
+
+    it('treats every other first byte as legacy', () => {
+        for (const first of [0x02, 0x7f, 0xff]) {
+            expect(detectFormat(Uint8Array.of(first))).toBe('legacy');
+        }
+    });
+});
+
+describe('readKeyVersion', () => {
+    it('reads the big-endian key version of a v1 bundle', () => {
+        expect(readKeyVersion(Uint8Array.of(0x01, 0x01, 0x02, 0xaa))).toBe(0x0102);
+        expect(readKeyVersion(Uint8Array.of(0x01, 0xff, 0xff))).toBe(0xffff);
+    });
+
+    it('returns null for other formats and truncated headers', () => {
+        expect(readKeyVersion(Uint8Array.of(0x00, 0x01, 0x02))).toBeNull();
+        expect(readKeyVersion(Uint8Array.of(0x42, 0x01, 0x02))).toBeNull();
+        expect(readKeyVersion(Uint8Array.of(0x01, 0x01))).toBeNull();
+    });
+});
+
+describe('MIN_BUNDLE_LENGTH', () => {
+    it('matches the documented layouts', () => {
+        expect(MIN_BUNDLE_LENGTH).toEqual({ v0: 29, v1: 31, legacy: 40 });
+    });
+});
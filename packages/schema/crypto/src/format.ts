@@ -0,0 +1,115 @@
+/**
+ * Bundle formats and format detection
+ *
+ * Every encrypted blob is a self-describing bundle. The first byte selects
+ * the format (see docs/ENCRYPTION-ARCHITECTURE.md):
+ *
+ * ```
+ * v0      [0x00][nonce:12][ciphertext:N][authTag:16]               AES-256-GCM
+ * v1      [0x01][keyVersion:2][nonce:12][ciphertext:N][authTag:16] AES-256-GCM, key versioned
+ * legacy  [nonce:24][authTag:16][ciphertext:N]                     NaCl secretbox (XSalsa20-Poly1305)
+ * ```
+ *
+ * Legacy bundles have no version byte; anything that does not start with
+ * `0x00` or `0x01` is treated as legacy. `keyVersion` is big-endian.
+ *
+ * @example
+ * ```typescript
+ * import { detectFormat, readKeyVersion } from '@happy/crypto';
+ *
+ * if (detectFormat(bundle) === 'v1') {
+ *     const key = keyring.get(readKeyVersion(bundle));
+ * }
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+// ═══════════════════════════════════════════════════════════════
+// Constants
+// ═══════════════════════════════════════════════════════════════
+
+/** Version byte of AES-256-GCM bundles without a key version */
+export const BUNDLE_VERSION_V0 = 0x00;
+
+/** Version byte of AES-256-GCM bundles with a key version */
+export const BUNDLE_VERSION_V1 = 0x01;
+
+/** AES-256-GCM key length in bytes */
+export const AES_GCM_KEY_LENGTH = 32;
+
+/** AES-256-GCM nonce length in bytes */
+export const AES_GCM_NONCE_LENGTH = 12;
+
+/** AES-256-GCM authentication tag length in bytes */
+export const AES_GCM_TAG_LENGTH = 16;
+
+/** Length of the big-endian key version in v1 bundles */
+export const KEY_VERSION_LENGTH = 2;
+
+/** Largest key version a v1 bundle can carry */
+export const MAX_KEY_VERSION = 0xffff;
+
+/** NaCl secretbox key length in bytes */
+export const SECRETBOX_KEY_LENGTH = 32;
+
+/** NaCl secretbox nonce length in bytes */
+export const SECRETBOX_NONCE_LENGTH = 24;
+
+/** NaCl secretbox authenticator length in bytes */
+export const SECRETBOX_TAG_LENGTH = 16;
+
+/** Header length (version byte, key version) per AES-GCM format */
+export const BUNDLE_HEADER_LENGTH = {
+    v0: 1,
+    v1: 1 + KEY_VERSION_LENGTH,
+} as const;
+
+/** Shortest valid bundle (empty plaintext) per format */
+export const MIN_BUNDLE_LENGTH = {
+    v0: BUNDLE_HEADER_LENGTH.v0 + AES_GCM_NONCE_LENGTH + AES_GCM_TAG_LENGTH,
+    v1: BUNDLE_HEADER_LENGTH.v1 + AES_GCM_NONCE_LENGTH + AES_GCM_TAG_LENGTH,
+    legacy: SECRETBOX_NONCE_LENGTH + SECRETBOX_TAG_LENGTH,
+} as const;
+
+// ═══════════════════════════════════════════════════════════════
+// Detection
+// ═══════════════════════════════════════════════════════════════
+
+export type BundleFormat = 'v0' | 'v1' | 'legacy';
+
+/**
+ * Detect a bundle's format from its first byte
+ *
+ * Only the first byte is inspected; a truncated bundle is still reported
+ * by format and fails on decryption. A legacy bundle whose random nonce
+ * happens to start with `0x00` or `0x01` is reported as `v0`/`v1`; `decrypt`
+ * falls back to secretbox in that case.
+ *
+ * @returns `'invalid'` for an empty bundle
+ */
+export function detectFormat(bundle: Uint8Array): BundleFormat | 'invalid' {
+    if (bundle.length < 1) {
+        return 'invalid';
+    }
+    switch (bundle[0]) {
+        case BUNDLE_VERSION_V0:
+            return 'v0';
+        case BUNDLE_VERSION_V1:
+            return 'v1';
+        default:
+            return 'legacy';
+    }
+}
+
+/**
+ * Read the key version of a v1 bundle
+ *
+ * @returns The key version, or `null` if the bundle is not v1 or too short to hold one
+ */
+export function readKeyVersion(bundle: Uint8Array): number | null {
+    if (detectFormat(bundle) !== 'v1' || bundle.length < BUNDLE_HEADER_LENGTH.v1) {
+        return null;
+    }
+    return (bundle[1] << 8) | bundle[2];
+}
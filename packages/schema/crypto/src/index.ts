@@ -0,0 +1,70 @@
+/**
+ * @happy/crypto - Shared end-to-end encryption for Happy monorepo
+ *
+ * One implementation of the bundle formats described in
+ * docs/ENCRYPTION-ARCHITECTURE.md, replacing the copies in the CLI, the app
+ * and the server workers:
+ * - AES-256-GCM bundles, with (`v1`) and without (`v0`) a key version
+ * - Legacy TweetNaCl secretbox bundles
+ * - Hybrid random + counter nonces
+ * - Data key wrapping for a recipient public key (NaCl box)
+ * - Ed25519 signatures for authoring proof
+ * - Test vectors every implementation must pass
+ *
+ * All failures are thrown as `AppError` with `ENCRYPTION_ERROR`,
+ * `DECRYPTION_FAILED`, `NONCE_TOO_SHORT` or `SIGNATURE_INVALID`.
+ *
+ * @example
+ * ```typescript
+ * import { encrypt, decrypt } from '@happy/crypto';
+ *
+ * const bundle = await encrypt(plaintext, dataKey, { format: 'v1', keyVersion: 2 });
+ * const plaintext = await decrypt(bundle, dataKey);
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+// Bundle layout constants and format detection
+export * from './format';
+
+// Hybrid random + counter nonces
+export {
+    HYBRID_NONCE_COUNTER_LENGTH,
+    HYBRID_NONCE_MIN_RANDOM_LENGTH,
+    HYBRID_NONCE_MIN_LENGTH,
+    generateHybridNonce,
+} from './nonce';
+
+// AES-256-GCM bundles (v0, v1)
+export { encryptAesGcm, decryptAesGcm, type AesGcmEncryptOptions } from './aesGcm';
+
+// Legacy NaCl secretbox bundles
+export { encryptSecretbox, decryptSecretbox } from './secretbox';
+
+// Format-agnostic encrypt/decrypt
+export * from './bundle';
+
+// Data key wrapping for recipients (sharing)
+export {
+    WRAPPED_KEY_VERSION,
+    BOX_PUBLIC_KEY_LENGTH,
+    BOX_SECRET_KEY_LENGTH,
+    BOX_NONCE_LENGTH,
+    BOX_TAG_LENGTH,
+    DATA_KEY_LENGTH,
+    MIN_WRAPPED_KEY_LENGTH,
+    contentKeyPairFromSeed,
+    wrapDataKey,
+    unwrapDataKey,
+    type BoxKeyPair,
+} from './keyWrap';
+
+// Ed25519 signatures
+export * from './signing';
+
+// Hex encoding
+export * from './encoding';
+
+// Cross-format test vectors
+export * from './vectors';
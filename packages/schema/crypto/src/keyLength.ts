@@ -0,0 +1,22 @@
+/**
+ * Key length check shared by every cipher and key format
+ *
+ * Internal: not exported from the package entry point.
+ *
+ * @packageDocumentation
+ */
+
+import { AppError, ErrorCodes } from '@happy/errors';
+
+/**
+ * Check that a key (or seed) has exactly the length its algorithm needs
+ *
+ * @throws AppError ENCRYPTION_ERROR if the length differs
+ */
+export function assertKeyLength(key: Uint8Array, expected: number, label: string): void {
+    if (key.length !== expected) {
+        throw new AppError(ErrorCodes.ENCRYPTION_ERROR, `${label} must be ${expected} bytes`, {
+            context: { keyLength: key.length },
+        });
+    }
+}
@@ -0,0 +1,123 @@
+/**
+ * Tests for data key wrapping
+ */
+
+import { describe, it, expect } from 'vitest';
+import nacl from 'tweetnacl';
+import { ErrorCodes } from '@happy/errors';
+import {
+    bytesToHex,
+    contentKeyPairFromSeed,
+    hexToBytes,
+    unwrapDataKey,
+    wrapDataKey,
+    MIN_WRAPPED_KEY_LENGTH,
+} from './index';
+import { sealWrappedKey } from './keyWrap';
+
+const dataKey = Uint8Array.from({ length: 32 }, (_, i) => i);
+const recipient = contentKeyPairFromSeed(new Uint8Array(32).fill(7));
+const other = contentKeyPairFromSeed(new Uint8Array(32).fill(8));
+
+describe('contentKeyPairFromSeed', () => {
+    it('matches crypto_box_seed_keypair', () => {
+        // Computed with Node's X25519 from SHA-512(seed), independent of tweetnacl
+        expect(bytesToHex(recipient.secretKey)).toBe('2fad39fefd7fa3e200a9c626eef599e61a2d055c48a8288a4e7e4c4bca3928f8');
+        expect(bytesToHex(recipient.publicKey)).toBe('761d88ec830413919dfe9d4d1d56f17e653c8c994082df5b137b90a0ae6edf74');
+    });
+
+    it('rejects seeds that are not 32 bytes', () => {
+        expect(() => contentKeyPairFromSeed(new Uint8Array(16))).toThrow(
+            expect.objectContaining({
+                code: ErrorCodes.ENCRYPTION_ERROR,
+                message: 'Key pair seed must be 32 bytes',
+                context: { keyLength: 16 },
+            })
+        );
+    });
+});
+
+describe('wrapDataKey', () => {
+    it('round-trips through unwrapDataKey', () => {
+        const wrapped = wrapDataKey(dataKey, recipient.publicKey);
+        expect(wrapped).toHaveLength(MIN_WRAPPED_KEY_LENGTH + dataKey.length);
+        expect(wrapped[0]).toBe(0x00);
+        expect(unwrapDataKey(wrapped, recipient.secretKey)).toEqual(dataKey);
+    });
+
+    it('uses a fresh ephemeral key for every wrap', () => {
+        const first = wrapDataKey(dataKey, recipient.publicKey);
+        const second = wrapDataKey(dataKey, recipient.publicKey);
+        expect(first.subarray(1, 33)).not.toEqual(second.subarray(1, 33));
+    });
+
+    it('rejects public keys that are not 32 bytes', () => {
+        expect(() => wrapDataKey(dataKey, new Uint8Array(31))).toThrow(
+            expect.objectContaining({ code: ErrorCodes.ENCRYPTION_ERROR })
+        );
+    });
+
+    it('rejects data keys that are not 32 bytes', () => {
+        for (const length of [0, 16, 33]) {
+            expect(() => wrapDataKey(new Uint8Array(length), recipient.publicKey)).toThrow(
+                expect.objectContaining({ code: ErrorCodes.ENCRYPTION_ERROR, message: 'Data key must be 32 bytes' })
+            );
+        }
+    });
+});
+
+describe('sealWrappedKey', () => {
+    it('lays out version, ephemeral public key, nonce and box', () => {
+        const ephemeral = contentKeyPairFromSeed(new Uint8Array(32).fill(9));
+        const nonce = hexToBytes('000102030405060708090a0b0c0d0e0f1011121314151617');
+        const wrapped = sealWrappedKey(dataKey, recipient.publicKey, ephemeral, nonce);
+        expect(wrapped.subarray(1, 33)).toEqual(ephemeral.publicKey);
+        expect(wrapped.subarray(33, 57)).toEqual(nonce);
+        expect(unwrapDataKey(wrapped, recipient.secretKey)).toEqual(dataKey);
+    });
+
+    it('rejects short nonces as NONCE_TOO_SHORT', () => {
+        expect(() => sealWrappedKey(dataKey, recipient.publicKey, other, new Uint8Array(12))).toThrow(
+            expect.objectContaining({ code: ErrorCodes.NONCE_TOO_SHORT })
+        );
+    });
+});
+
+describe('unwrapDataKey', () => {
+    it('fails for a different recipient', () => {
+        const wrapped = wrapDataKey(dataKey, recipient.publicKey);
+        expect(() => unwrapDataKey(wrapped, other.secretKey)).toThrow(
+            expect.objectContaining({ code: ErrorCodes.DECRYPTION_FAILED })
+        );
+    });
+
+    it('fails on truncated keys and unknown versions', () => {
+        const wrapped = wrapDataKey(dataKey, recipient.publicKey);
+        expect(() => unwrapDataKey(wrapped.subarray(0, MIN_WRAPPED_KEY_LENGTH - 1), recipient.secretKey)).toThrow(
+            expect.objectContaining({ code: ErrorCodes.DECRYPTION_FAILED })
+        );
+        const versioned = wrapped.slice();
+        versioned[0] = 0x01;
+        expect(() => unwrapDataKey(versioned, recipient.secretKey)).toThrow(
+            expect.objectContaining({ code: ErrorCodes.DECRYPTION_FAILED })
+        );
+    });
+
+    it('fails when the box does not hold a 32-byte data key', () => {
+        const ephemeral = contentKeyPairFromSeed(new Uint8Array(32).fill(9));
+        const nonce = new Uint8Array(24);
+        for (const length of [0, 16, 64]) {
+            const box = nacl.box(new Uint8Array(length), nonce, recipient.publicKey, ephemeral.secretKey);
+            const wrapped = new Uint8Array([0x00, ...ephemeral.publicKey, ...nonce, ...box]);
+            expect(() => unwrapDataKey(wrapped, recipient.secretKey)).toThrow(
+                expect.objectContaining({ code: ErrorCodes.DECRYPTION_FAILED })
+            );
+        }
+    });
+
+    it('rejects secret keys that are not 32 bytes', () => {
+        expect(() => unwrapDataKey(new Uint8Array(MIN_WRAPPED_KEY_LENGTH), new Uint8Array(64))).toThrow(
+            expect.objectContaining({ code: ErrorCodes.ENCRYPTION_ERROR })
+        );
+    });
+});
@@ -0,0 +1,165 @@
+/**
+ * Data encryption key wrapping for a recipient public key (NaCl box)
+ *
+ * Session, machine and artifact data keys (DEKs) travel wrapped for the
+ * recipient's content public key, so the server stores them without being
+ * able to read them. This is the format the CLI and app already use for
+ * `dataEncryptionKey`:
+ *
+ * ```
+ * [0x00][ephemeralPublicKey:32][nonce:24][authTag:16][encryptedKey:N]
+ * ```
+ *
+ * A fresh ephemeral key pair per wrap means the sender needs no long-term
+ * key of its own. The recipient's key pair is derived from its content
+ * seed the way libsodium's `crypto_box_seed_keypair` does it.
+ *
+ * @example
+ * ```typescript
+ * import { contentKeyPairFromSeed, wrapDataKey, unwrapDataKey } from '@happy/crypto';
+ *
+ * // Owner, sharing a session: wrap the session DEK for the recipient
+ * const wrapped = wrapDataKey(sessionDataKey, recipientPublicKey);
+ *
+ * // Recipient
+ * const { secretKey } = contentKeyPairFromSeed(contentSeed);
+ * const sessionDataKey = unwrapDataKey(wrapped, secretKey);
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import nacl from 'tweetnacl';
+import { AppError, ErrorCodes } from '@happy/errors';
+import { assertKeyLength } from './keyLength';
+import { assertNonceLength, generateHybridNonce } from './nonce';
+
+// ═══════════════════════════════════════════════════════════════
+// Layout
+// ═══════════════════════════════════════════════════════════════
+
+/** Version byte of a wrapped key */
+export const WRAPPED_KEY_VERSION = 0x00;
+
+/** Curve25519 public key length */
+export const BOX_PUBLIC_KEY_LENGTH = 32;
+
+/** Curve25519 secret key length */
+export const BOX_SECRET_KEY_LENGTH = 32;
+
+/** NaCl box nonce length */
+export const BOX_NONCE_LENGTH = 24;
+
+/** Data key length (an AES-256-GCM key) */
+export const DATA_KEY_LENGTH = 32;
+
+/** Poly1305 authenticator length */
+export const BOX_TAG_LENGTH = 16;
+
+/** Shortest possible wrapped key (empty payload) */
+export const MIN_WRAPPED_KEY_LENGTH = 1 + BOX_PUBLIC_KEY_LENGTH + BOX_NONCE_LENGTH + BOX_TAG_LENGTH;
+
+/**
+ * Curve25519 key pair used to receive wrapped keys
+ */
+export interface BoxKeyPair {
+    publicKey: Uint8Array;
+    secretKey: Uint8Array;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Key pairs
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Derive the content key pair from a 32-byte seed
+ *
+ * Matches libsodium's `crypto_box_seed_keypair`: the secret key is the first
+ * 32 bytes of SHA-512(seed).
+ *
+ * @throws AppError ENCRYPTION_ERROR for a seed that is not 32 bytes
+ */
+export function contentKeyPairFromSeed(seed: Uint8Array): BoxKeyPair {
+    assertKeyLength(seed, BOX_SECRET_KEY_LENGTH, 'Key pair seed');
+    const secretKey = nacl.hash(seed).slice(0, BOX_SECRET_KEY_LENGTH);
+    return nacl.box.keyPair.fromSecretKey(secretKey);
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Wrapping
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Wrap a data key for a recipient's content public key
+ *
+ * @throws AppError ENCRYPTION_ERROR for a data key or public key that is not
+ *   32 bytes
+ */
+export function wrapDataKey(dataKey: Uint8Array, recipientPublicKey: Uint8Array): Uint8Array {
+    return sealWrappedKey(dataKey, recipientPublicKey, nacl.box.keyPair(), generateHybridNonce(BOX_NONCE_LENGTH));
+}
+
+/**
+ * Wrap with a caller-supplied ephemeral key pair and nonce
+ *
+ * Only for test vectors and interop checks. Not exported from the package
+ * entry point.
+ *
+ * @throws AppError NONCE_TOO_SHORT if the nonce is shorter than 24 bytes
+ */
+export function sealWrappedKey(
+    dataKey: Uint8Array,
+    recipientPublicKey: Uint8Array,
+    ephemeral: BoxKeyPair,
+    nonce: Uint8Array
+): Uint8Array {
+    assertKeyLength(dataKey, DATA_KEY_LENGTH, 'Data key');
+    assertKeyLength(recipientPublicKey, BOX_PUBLIC_KEY_LENGTH, 'Recipient public key');
+    assertNonceLength(nonce, BOX_NONCE_LENGTH);
+    const box = nacl.box(dataKey, nonce, recipientPublicKey, ephemeral.secretKey);
+    const wrapped = new Uint8Array(1 + BOX_PUBLIC_KEY_LENGTH + BOX_NONCE_LENGTH + box.length);
+    wrapped[0] = WRAPPED_KEY_VERSION;
+    wrapped.set(ephemeral.publicKey, 1);
+    wrapped.set(nonce, 1 + BOX_PUBLIC_KEY_LENGTH);
+    wrapped.set(box, 1 + BOX_PUBLIC_KEY_LENGTH + BOX_NONCE_LENGTH);
+    return wrapped;
+}
+
+/**
+ * Unwrap a data key with the recipient's content secret key
+ *
+ * @throws AppError DECRYPTION_FAILED if the wrapped key is truncated, has an
+ *   unknown version byte, was wrapped for a different key, or does not hold
+ *   a 32-byte data key
+ * @throws AppError ENCRYPTION_ERROR for a secret key that is not 32 bytes
+ */
+export function unwrapDataKey(wrapped: Uint8Array, recipientSecretKey: Uint8Array): Uint8Array {
+    assertKeyLength(recipientSecretKey, BOX_SECRET_KEY_LENGTH, 'Recipient secret key');
+    if (wrapped.length < MIN_WRAPPED_KEY_LENGTH) {
+        throw new AppError(ErrorCodes.DECRYPTION_FAILED, 'Wrapped key is too short', {
+            context: { length: wrapped.length, minLength: MIN_WRAPPED_KEY_LENGTH },
+        });
+    }
+    if (wrapped[0] !== WRAPPED_KEY_VERSION) {
+        throw new AppError(ErrorCodes.DECRYPTION_FAILED, 'Unknown wrapped key version', {
+            context: { version: wrapped[0] },
+        });
+    }
+    const nonceStart = 1 + BOX_PUBLIC_KEY_LENGTH;
+    const boxStart = nonceStart + BOX_NONCE_LENGTH;
+    const opened = nacl.box.open(
+        wrapped.subarray(boxStart),
+        wrapped.subarray(nonceStart, boxStart),
+        wrapped.subarray(1, nonceStart),
+        recipientSecretKey
+    );
+    if (!opened) {
+        throw new AppError(ErrorCodes.DECRYPTION_FAILED, 'Wrapped key authentication failed');
+    }
+    if (opened.length !== DATA_KEY_LENGTH) {
+        throw new AppError(ErrorCodes.DECRYPTION_FAILED, 'Wrapped key does not hold a data key', {
+            context: { keyLength: opened.length, expected: DATA_KEY_LENGTH },
+        });
+    }
+    return opened;
+}
@@ -0,0 +1,42 @@
+/**
+ * Tests for hybrid nonce generation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ErrorCodes } from '@happy/errors';
+import { AES_GCM_NONCE_LENGTH, SECRETBOX_NONCE_LENGTH, generateHybridNonce } from './index';
+
+function counterOf(nonce: Uint8Array): bigint {
+    return new DataView(nonce.buffer, nonce.byteOffset, nonce.byteLength).getBigUint64(nonce.length - 8, false);
+}
+
+describe('generateHybridNonce', () => {
+    it('produces nonces of the requested length', () => {
+        expect(generateHybridNonce(AES_GCM_NONCE_LENGTH)).toHaveLength(12);
+        expect(generateHybridNonce(SECRETBOX_NONCE_LENGTH)).toHaveLength(24);
+    });
+
+    it('increments the big-endian counter suffix on every call', () => {
+        const first = generateHybridNonce(AES_GCM_NONCE_LENGTH);
+        const second = generateHybridNonce(SECRETBOX_NONCE_LENGTH);
+        const third = generateHybridNonce(AES_GCM_NONCE_LENGTH);
+        expect(counterOf(second)).toBe(counterOf(first) + 1n);
+        expect(counterOf(third)).toBe(counterOf(first) + 2n);
+    });
+
+    it('never repeats a nonce', () => {
+        const seen = new Set<string>();
+        for (let i = 0; i < 1000; i++) {
+            seen.add(Array.from(generateHybridNonce(AES_GCM_NONCE_LENGTH)).join(','));
+        }
+        expect(seen.size).toBe(1000);
+    });
+
+    it('rejects lengths without room for 4 random bytes', () => {
+        for (const length of [0, 8, 11, 12.5]) {
+            expect(() => generateHybridNonce(length)).toThrow(
+                expect.objectContaining({ code: ErrorCodes.NONCE_TOO_SHORT })
+            );
+        }
+    });
+});
@@ -0,0 +1,49 @@
+/**
+ * Tests for legacy secretbox bundles
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ErrorCodes } from '@happy/errors';
+import { decryptSecretbox, encryptSecretbox } from './index';
+import { sealSecretbox } from './secretbox';
+
+const key = Uint8Array.from({ length: 32 }, (_, i) => i);
+const plaintext = Uint8Array.of(1, 2, 3, 4, 5);
+
+describe('encryptSecretbox', () => {
+    it('round-trips through decryptSecretbox', () => {
+        const bundle = encryptSecretbox(plaintext, key);
+        expect(bundle).toHaveLength(24 + 16 + plaintext.length);
+        expect(decryptSecretbox(bundle, key)).toEqual(plaintext);
+    });
+
+    it('rejects keys that are not 32 bytes', () => {
+        expect(() => encryptSecretbox(plaintext, new Uint8Array(31))).toThrow(
+            expect.objectContaining({ code: ErrorCodes.ENCRYPTION_ERROR })
+        );
+    });
+});
+
+describe('sealSecretbox', () => {
+    it('rejects short nonces as NONCE_TOO_SHORT', () => {
+        expect(() => sealSecretbox(plaintext, key, new Uint8Array(12))).toThrow(
+            expect.objectContaining({ code: ErrorCodes.NONCE_TOO_SHORT })
+        );
+    });
+});
+
+describe('decryptSecretbox', () => {
+    it('fails on a tampered bundle', () => {
+        const bundle = encryptSecretbox(plaintext, key);
+        bundle[bundle.length - 1] ^= 0x01;
+        expect(() => decryptSecretbox(bundle, key)).toThrow(
+            expect.objectContaining({ code: ErrorCodes.DECRYPTION_FAILED })
+        );
+    });
+
+    it('fails on a truncated bundle', () => {
+        expect(() => decryptSecretbox(new Uint8Array(39), key)).toThrow(
+            expect.objectContaining({ code: ErrorCodes.DECRYPTION_FAILED })
+        );
+    });
+});
@@ -0,0 +1,83 @@
+/**
+ * Legacy NaCl secretbox bundles (XSalsa20-Poly1305)
+ *
+ * Older sessions and all server-side secrets use TweetNaCl secretbox. The
+ * bundle is the nonce followed by tweetnacl's output, which puts the
+ * authenticator before the ciphertext:
+ *
+ * ```
+ * [nonce:24][authTag:16][ciphertext:N]
+ * ```
+ *
+ * New end-to-end data should use AES-256-GCM (`encryptAesGcm`); this exists
+ * so every client can still read legacy data, and for the server workers.
+ *
+ * @example
+ * ```typescript
+ * import { encryptSecretbox, decryptSecretbox } from '@happy/crypto';
+ *
+ * const bundle = encryptSecretbox(plaintext, secret);
+ * const plaintext = decryptSecretbox(bundle, secret);
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import nacl from 'tweetnacl';
+import { AppError, ErrorCodes } from '@happy/errors';
+import { MIN_BUNDLE_LENGTH, SECRETBOX_KEY_LENGTH, SECRETBOX_NONCE_LENGTH } from './format';
+import { assertKeyLength } from './keyLength';
+import { assertNonceLength, generateHybridNonce } from './nonce';
+
+/**
+ * Encrypt into a legacy secretbox bundle
+ *
+ * @throws AppError ENCRYPTION_ERROR for a key that is not 32 bytes
+ */
+export function encryptSecretbox(data: Uint8Array, key: Uint8Array): Uint8Array {
+    return sealSecretbox(data, key, generateHybridNonce(SECRETBOX_NONCE_LENGTH));
+}
+
+/**
+ * Encrypt with a caller-supplied nonce
+ *
+ * Only for test vectors and interop checks. Not exported from the package
+ * entry point.
+ *
+ * @throws AppError NONCE_TOO_SHORT if the nonce is shorter than 24 bytes
+ */
+export function sealSecretbox(data: Uint8Array, key: Uint8Array, nonce: Uint8Array): Uint8Array {
+    assertKeyLength(key, SECRETBOX_KEY_LENGTH, 'Secretbox key');
+    assertNonceLength(nonce, SECRETBOX_NONCE_LENGTH);
+    const box = nacl.secretbox(data, nonce, key);
+    const bundle = new Uint8Array(nonce.length + box.length);
+    bundle.set(nonce, 0);
+    bundle.set(box, nonce.length);
+    return bundle;
+}
+
+/**
+ * Decrypt a legacy secretbox bundle
+ *
+ * @throws AppError DECRYPTION_FAILED if the bundle is truncated or fails authentication
+ * @throws AppError ENCRYPTION_ERROR for a key that is not 32 bytes
+ */
+export function decryptSecretbox(bundle: Uint8Array, key: Uint8Array): Uint8Array {
+    assertKeyLength(key, SECRETBOX_KEY_LENGTH, 'Secretbox key');
+    if (bundle.length < MIN_BUNDLE_LENGTH.legacy) {
+        throw new AppError(ErrorCodes.DECRYPTION_FAILED, 'Bundle is too short for format legacy', {
+            context: { format: 'legacy', length: bundle.length, minLength: MIN_BUNDLE_LENGTH.legacy },
+        });
+    }
+    const opened = nacl.secretbox.open(
+        bundle.subarray(SECRETBOX_NONCE_LENGTH),
+        bundle.subarray(0, SECRETBOX_NONCE_LENGTH),
+        key
+    );
+    if (!opened) {
+        throw new AppError(ErrorCodes.DECRYPTION_FAILED, 'Secretbox authentication failed', {
+            context: { format: 'legacy' },
+        });
+    }
+    return opened;
+}
@@ -0,0 +1,96 @@
+/**
+ * Tests for Ed25519 signatures
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ErrorCodes } from '@happy/errors';
+import {
+    bytesToHex,
+    hexToBytes,
+    signDetached,
+    signingKeyId,
+    signingKeyPairFromSeed,
+    verifySignature,
+    SIGNING_KEY_ID_LENGTH,
+} from './index';
+
+// RFC 8032 section 7.1, test 1 (empty message)
+const rfcSeed = hexToBytes('9d61b19deffd5a60ba844af492ec2cc44449c5697b326919703bac031cae7f60');
+const rfcPublicKey = 'd75a980182b10ab7d54bfed3c964073a0ee172f3daa62325af021a68f707511a';
+const rfcSignature =
+    'e5564300c360ac729086e2cc806e828a84877f1eb8e5d974d873e065224901555fb8821590a33bacc61e39701cf9b46bd25bf5f0595bbe24655141438e7a100b';
+
+const device = signingKeyPairFromSeed(rfcSeed);
+const other = signingKeyPairFromSeed(new Uint8Array(32).fill(1));
+const input = '["happy.message.v1","session-1",42,"ciphertext"]';
+
+describe('signingKeyPairFromSeed', () => {
+    it('matches RFC 8032', () => {
+        expect(bytesToHex(device.publicKey)).toBe(rfcPublicKey);
+    });
+
+    it('rejects seeds that are not 32 bytes', () => {
+        expect(() => signingKeyPairFromSeed(new Uint8Array(64))).toThrow(
+            expect.objectContaining({ code: ErrorCodes.ENCRYPTION_ERROR })
+        );
+    });
+});
+
+describe('signingKeyId', () => {
+    it('is a stable hex fingerprint of the public key', () => {
+        const keyId = signingKeyId(device.publicKey);
+        expect(keyId).toHaveLength(SIGNING_KEY_ID_LENGTH * 2);
+        expect(keyId).toBe(signingKeyId(device.publicKey));
+        expect(keyId).not.toBe(signingKeyId(other.publicKey));
+    });
+});
+
+describe('signDetached', () => {
+    it('matches RFC 8032', () => {
+        expect(bytesToHex(signDetached(new Uint8Array(0), device.secretKey))).toBe(rfcSignature);
+    });
+
+    it('signs strings as UTF-8', () => {
+        const utf8 = Uint8Array.of(0x68, 0xc3, 0xa9);
+        expect(signDetached('hé', device.secretKey)).toEqual(signDetached(utf8, device.secretKey));
+    });
+
+    it('rejects secret keys that are not 64 bytes', () => {
+        expect(() => signDetached(input, new Uint8Array(32))).toThrow(
+            expect.objectContaining({ code: ErrorCodes.ENCRYPTION_ERROR })
+        );
+    });
+});
+
+describe('verifySignature', () => {
+    it('accepts a valid signature', () => {
+        const signature = signDetached(input, device.secretKey);
+        expect(() => verifySignature(input, signature, device.publicKey)).not.toThrow();
+    });
+
+    it('rejects a signature from another key as SIGNATURE_INVALID', () => {
+        const signature = signDetached(input, other.secretKey);
+        expect(() => verifySignature(input, signature, device.publicKey)).toThrow(
+            expect.objectContaining({ code: ErrorCodes.SIGNATURE_INVALID })
+        );
+    });
+
+    it('rejects a changed message as SIGNATURE_INVALID', () => {
+        const signature = signDetached(input, device.secretKey);
+        expect(() => verifySignature(input.replace('42', '43'), signature, device.publicKey)).toThrow(
+            expect.objectContaining({ code: ErrorCodes.SIGNATURE_INVALID })
+        );
+    });
+
+    it('rejects malformed signatures as SIGNATURE_INVALID', () => {
+        expect(() => verifySignature(input, new Uint8Array(10), device.publicKey)).toThrow(
+            expect.objectContaining({ code: ErrorCodes.SIGNATURE_INVALID })
+        );
+    });
+
+    it('rejects public keys that are not 32 bytes', () => {
+        expect(() => verifySignature(input, new Uint8Array(64), new Uint8Array(31))).toThrow(
+            expect.objectContaining({ code: ErrorCodes.ENCRYPTION_ERROR })
+        );
+    });
+});
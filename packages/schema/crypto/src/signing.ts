@@ -0,0 +1,134 @@
+/**
+ * Ed25519 signatures for authoring proof
+ *
+ * Encryption proves a message came from someone holding the session key, but
+ * with shared sessions several users hold it. Each device signs what it
+ * writes with its own Ed25519 key so readers can tell which device authored
+ * it. Signatures are detached; the signed bytes are built by the caller
+ * (see `messageSignatureInput` in `@happy/protocol`). String input is
+ * signed as UTF-8.
+ *
+ * @example
+ * ```typescript
+ * import { signingKeyPairFromSeed, signingKeyId, signDetached, verifySignature } from '@happy/crypto';
+ *
+ * const device = signingKeyPairFromSeed(deviceSeed);
+ * const signature = signDetached(input, device.secretKey);
+ * const keyId = signingKeyId(device.publicKey);
+ *
+ * // Reader: throws SIGNATURE_INVALID on mismatch
+ * verifySignature(input, signature, devicePublicKey);
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import nacl from 'tweetnacl';
+import { AppError, ErrorCodes } from '@happy/errors';
+import { bytesToHex } from './encoding';
+import { assertKeyLength } from './keyLength';
+
+// ═══════════════════════════════════════════════════════════════
+// Layout
+// ═══════════════════════════════════════════════════════════════
+
+/** Algorithm name carried in signature envelopes */
+export const SIGNATURE_ALGORITHM = 'ed25519';
+
+/** Ed25519 seed length */
+export const SIGNING_SEED_LENGTH = 32;
+
+/** Ed25519 public key length */
+export const SIGNING_PUBLIC_KEY_LENGTH = 32;
+
+/** Ed25519 secret key length (seed followed by public key, as in NaCl) */
+export const SIGNING_SECRET_KEY_LENGTH = 64;
+
+/** Ed25519 signature length */
+export const SIGNATURE_LENGTH = 64;
+
+/** Length of a `signingKeyId` in bytes (hex string is twice as long) */
+export const SIGNING_KEY_ID_LENGTH = 16;
+
+/**
+ * Ed25519 key pair of one signing device
+ */
+export interface SigningKeyPair {
+    publicKey: Uint8Array;
+    secretKey: Uint8Array;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Keys
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Derive a signing key pair from a 32-byte seed
+ *
+ * @throws AppError ENCRYPTION_ERROR for a seed that is not 32 bytes
+ */
+export function signingKeyPairFromSeed(seed: Uint8Array): SigningKeyPair {
+    assertKeyLength(seed, SIGNING_SEED_LENGTH, 'Signing seed');
+    return nacl.sign.keyPair.fromSeed(seed);
+}
+
+/**
+ * Stable identifier of a signing public key: hex of the first 16 bytes of
+ * SHA-512(publicKey)
+ *
+ * @throws AppError ENCRYPTION_ERROR for a public key that is not 32 bytes
+ */
+export function signingKeyId(publicKey: Uint8Array): string {
+    assertKeyLength(publicKey, SIGNING_PUBLIC_KEY_LENGTH, 'Signing public key');
+    return bytesToHex(nacl.hash(publicKey).subarray(0, SIGNING_KEY_ID_LENGTH));
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Signing
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Sign bytes (or a UTF-8 string) with a device's secret key
+ *
+ * @throws AppError ENCRYPTION_ERROR for a secret key that is not 64 bytes
+ */
+export function signDetached(message: Uint8Array | string, secretKey: Uint8Array): Uint8Array {
+    assertKeyLength(secretKey, SIGNING_SECRET_KEY_LENGTH, 'Signing secret key');
+    return nacl.sign.detached(toBytes(message), secretKey);
+}
+
+/**
+ * Verify a detached signature
+ *
+ * @throws AppError SIGNATURE_INVALID if the signature is malformed or does
+ *   not verify for `publicKey`
+ * @throws AppError ENCRYPTION_ERROR for a public key that is not 32 bytes
+ */
+export function verifySignature(message: Uint8Array | string, signature: Uint8Array, publicKey: Uint8Array): void {
+    assertKeyLength(publicKey, SIGNING_PUBLIC_KEY_LENGTH, 'Signing public key');
+    if (signature.length !== SIGNATURE_LENGTH) {
+        throw new AppError(ErrorCodes.SIGNATURE_INVALID, `Signature must be ${SIGNATURE_LENGTH} bytes`, {
+            context: { signatureLength: signature.length },
+        });
+    }
+    if (!nacl.sign.detached.verify(toBytes(message), signature, publicKey)) {
+        throw new AppError(ErrorCodes.SIGNATURE_INVALID, 'Signature does not match the signer key');
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Helpers
+// ═══════════════════════════════════════════════════════════════
+
+interface TextEncoderLike {
+    encode(input: string): Uint8Array;
+}
+
+function toBytes(message: Uint8Array | string): Uint8Array {
+    if (typeof message !== 'string') {
+        return message;
+    }
+    // Declared narrowly: the package compiles without DOM typings
+    const Encoder = (globalThis as unknown as { TextEncoder: new () => TextEncoderLike }).TextEncoder;
+    return new Encoder().encode(message);
+}
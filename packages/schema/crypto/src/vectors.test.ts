@@ -0,0 +1,55 @@
+/**
+ * Runs the cross-format test vectors against this implementation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ErrorCodes } from '@happy/errors';
+import { CRYPTO_TEST_VECTORS, bytesToHex, decrypt, detectFormat, hexToBytes, readKeyVersion } from './index';
+import { sealAesGcm } from './aesGcm';
+import { sealSecretbox } from './secretbox';
+
+describe('CRYPTO_TEST_VECTORS', () => {
+    it('covers every bundle format', () => {
+        const formats = new Set(CRYPTO_TEST_VECTORS.map((vector) => vector.format));
+        expect([...formats].sort()).toEqual(['legacy', 'v0', 'v1']);
+    });
+
+    describe.each(CRYPTO_TEST_VECTORS)('$name', (vector) => {
+        const key = hexToBytes(vector.key);
+        const nonce = hexToBytes(vector.nonce);
+        const plaintext = hexToBytes(vector.plaintext);
+        const bundle = hexToBytes(vector.bundle);
+
+        it('decrypts to the plaintext', async () => {
+            expect(bytesToHex(await decrypt(bundle, key))).toBe(vector.plaintext);
+        });
+
+        it('encrypts to the exact bundle', async () => {
+            const sealed =
+                vector.format === 'legacy'
+                    ? sealSecretbox(plaintext, key, nonce)
+                    : await sealAesGcm(plaintext, key, nonce, vector.keyVersion);
+            expect(bytesToHex(sealed)).toBe(vector.bundle);
+        });
+    });
+
+    const aesVectors = CRYPTO_TEST_VECTORS.filter((vector) => vector.format !== 'legacy');
+
+    it.each(aesVectors)('$name is detected as its own format', (vector) => {
+        const bundle = hexToBytes(vector.bundle);
+        expect(detectFormat(bundle)).toBe(vector.format);
+        expect(readKeyVersion(bundle)).toBe(vector.keyVersion ?? null);
+    });
+});
+
+describe('hex encoding', () => {
+    it('round-trips bytes', () => {
+        expect(bytesToHex(hexToBytes('00ff10AB'))).toBe('00ff10ab');
+    });
+
+    it('rejects malformed hex', () => {
+        for (const hex of ['abc', 'zz']) {
+            expect(() => hexToBytes(hex)).toThrow(expect.objectContaining({ code: ErrorCodes.INVALID_INPUT }));
+        }
+    });
+});
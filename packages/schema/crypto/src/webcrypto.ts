@@ -0,0 +1,93 @@
+/**
+ * Access to the platform WebCrypto implementation
+ *
+ * Node 20+, Cloudflare Workers, browsers and React Native (with a
+ * `crypto.subtle` polyfill) all expose WebCrypto on `globalThis.crypto`.
+ * Node 18 only exposes it as `webcrypto` from `node:crypto`, which is used
+ * when the global is missing. The package compiles without DOM or Node
+ * typings, so only the members used here are declared.
+ *
+ * @packageDocumentation
+ */
+
+import nacl from 'tweetnacl';
+import { AppError, ErrorCodes } from '@happy/errors';
+
+// ═══════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════
+
+export interface AesGcmParams {
+    name: 'AES-GCM';
+    iv: Uint8Array;
+    tagLength?: number;
+}
+
+export interface SubtleCryptoLike {
+    importKey(
+        format: 'raw',
+        keyData: Uint8Array,
+        algorithm: { name: 'AES-GCM' },
+        extractable: boolean,
+        keyUsages: Array<'encrypt' | 'decrypt'>
+    ): Promise<unknown>;
+    encrypt(algorithm: AesGcmParams, key: unknown, data: Uint8Array): Promise<ArrayBuffer>;
+    decrypt(algorithm: AesGcmParams, key: unknown, data: Uint8Array): Promise<ArrayBuffer>;
+}
+
+export interface WebCryptoLike {
+    getRandomValues<T extends Uint8Array>(array: T): T;
+    subtle: SubtleCryptoLike;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Access
+// ═══════════════════════════════════════════════════════════════
+
+// Kept in a variable so bundlers for Workers, browsers and React Native do
+// not try to resolve a Node built-in they never load
+const NODE_CRYPTO_MODULE = 'node:crypto';
+
+let nodeWebCrypto: Promise<WebCryptoLike | undefined> | undefined;
+
+/**
+ * Get `globalThis.crypto`, or `webcrypto` from `node:crypto` on Node 18
+ *
+ * @throws AppError ENCRYPTION_ERROR if the runtime has no WebCrypto
+ */
+export async function getWebCrypto(): Promise<WebCryptoLike> {
+    const webCrypto = globalWebCrypto() ?? (await (nodeWebCrypto ??= importNodeWebCrypto()));
+    if (!webCrypto) {
+        throw new AppError(ErrorCodes.ENCRYPTION_ERROR, 'WebCrypto is not available in this runtime');
+    }
+    return webCrypto;
+}
+
+/**
+ * Cryptographically secure random bytes
+ *
+ * Falls back to TweetNaCl's generator where `globalThis.crypto` is missing
+ * (Node 18), since nonces are generated synchronously.
+ */
+export function getRandomBytes(length: number): Uint8Array {
+    const webCrypto = globalWebCrypto();
+    return webCrypto ? webCrypto.getRandomValues(new Uint8Array(length)) : nacl.randomBytes(length);
+}
+
+function globalWebCrypto(): WebCryptoLike | undefined {
+    const webCrypto = (globalThis as { crypto?: Partial<WebCryptoLike> }).crypto;
+    return isWebCrypto(webCrypto) ? webCrypto : undefined;
+}
+
+async function importNodeWebCrypto(): Promise<WebCryptoLike | undefined> {
+    try {
+        const nodeCrypto = (await import(NODE_CRYPTO_MODULE)) as { webcrypto?: Partial<WebCryptoLike> };
+        return isWebCrypto(nodeCrypto.webcrypto) ? nodeCrypto.webcrypto : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+function isWebCrypto(value: Partial<WebCryptoLike> | undefined): value is WebCryptoLike {
+    return value?.subtle !== undefined && typeof value.getRandomValues === 'function';
+}
@@ -67,6 +67,8 @@ export const ErrorCodes = {
     ENCRYPTION_ERROR: 'ENCRYPTION_ERROR',
     /** Failed to decrypt data */
     DECRYPTION_FAILED: 'DECRYPTION_FAILED',
+    /** Signature is malformed or does not verify for the claimed signer */
+    SIGNATURE_INVALID: 'SIGNATURE_INVALID',
 
     // Validation errors
     /** Invalid input provided */
@@ -203,6 +203,7 @@ function getStatusCodeFromErrorCode(code: ErrorCode): ErrorStatusCode {
         'VALIDATION_FAILED',
         'INVALID_KEY',
         'NONCE_TOO_SHORT',
+        'SIGNATURE_INVALID',
         'DIRECTORY_REQUIRED',
     ];
 
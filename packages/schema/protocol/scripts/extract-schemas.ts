@@ -31,6 +31,7 @@ import {
     UserProfileSchema,
     FeedBodySchema,
     EncryptedContentSchema,
+    SignatureEnvelopeSchema,
     VersionedValueSchema,
     NullableVersionedValueSchema,
     // Update schemas
@@ -40,6 +41,8 @@ import {
     ApiDeleteSessionSchema,
     ApiUpdateNewSessionSchema,
     ApiUpdateSessionStateSchema,
+    ApiArchiveSessionSchema,
+    ApiUnarchiveSessionSchema,
     ApiNewMachineSchema,
     ApiUpdateMachineStateSchema,
     ApiNewArtifactSchema,
@@ -49,6 +52,15 @@ import {
     ApiRelationshipUpdatedSchema,
     ApiNewFeedPostSchema,
     ApiKvBatchUpdateSchema,
+    ApiRotateKeySchema,
+    // Decrypted domain schemas
+    SessionMetadataSchema,
+    AgentStateSchema,
+    MachineMetadataSchema,
+    DaemonStateSchema,
+    MessageContentSchema,
+    ArtifactHeaderSchema,
+    ArtifactBodySchema,
     // Ephemeral schemas
     ApiEphemeralUpdateSchema,
     ApiEphemeralActivityUpdateSchema,
@@ -81,6 +93,7 @@ const schemas = {
         UserProfile: UserProfileSchema,
         FeedBody: FeedBodySchema,
         EncryptedContent: EncryptedContentSchema,
+        SignatureEnvelope: SignatureEnvelopeSchema,
         VersionedValue: VersionedValueSchema,
         NullableVersionedValue: NullableVersionedValueSchema,
     },
@@ -93,6 +106,8 @@ const schemas = {
         ApiDeleteSession: ApiDeleteSessionSchema,
         ApiUpdateNewSession: ApiUpdateNewSessionSchema,
         ApiUpdateSessionState: ApiUpdateSessionStateSchema,
+        ApiArchiveSession: ApiArchiveSessionSchema,
+        ApiUnarchiveSession: ApiUnarchiveSessionSchema,
         ApiNewMachine: ApiNewMachineSchema,
         ApiUpdateMachineState: ApiUpdateMachineStateSchema,
         ApiNewArtifact: ApiNewArtifactSchema,
@@ -102,6 +117,18 @@ const schemas = {
         ApiRelationshipUpdated: ApiRelationshipUpdatedSchema,
         ApiNewFeedPost: ApiNewFeedPostSchema,
         ApiKvBatchUpdate: ApiKvBatchUpdateSchema,
+        ApiRotateKey: ApiRotateKeySchema,
+    },
+
+    // Decrypted domain schemas (plaintext of encrypted update fields)
+    domain: {
+        SessionMetadata: SessionMetadataSchema,
+        AgentState: AgentStateSchema,
+        MachineMetadata: MachineMetadataSchema,
+        DaemonState: DaemonStateSchema,
+        MessageContent: MessageContentSchema,
+        ArtifactHeader: ArtifactHeaderSchema,
+        ArtifactBody: ArtifactBodySchema,
     },
 
     // Ephemeral schemas (transient real-time events)
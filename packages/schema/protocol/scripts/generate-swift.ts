@@ -37,6 +37,7 @@ import {
     UserProfileSchema,
     FeedBodySchema,
     EncryptedContentSchema,
+    SignatureEnvelopeSchema,
     VersionedValueSchema,
     NullableVersionedValueSchema,
     // Update schemas
@@ -46,6 +47,8 @@ import {
     ApiDeleteSessionSchema,
     ApiUpdateNewSessionSchema,
     ApiUpdateSessionStateSchema,
+    ApiArchiveSessionSchema,
+    ApiUnarchiveSessionSchema,
     ApiNewMachineSchema,
     ApiUpdateMachineStateSchema,
     ApiNewArtifactSchema,
@@ -55,6 +58,15 @@ import {
     ApiRelationshipUpdatedSchema,
     ApiNewFeedPostSchema,
     ApiKvBatchUpdateSchema,
+    ApiRotateKeySchema,
+    // Decrypted domain schemas
+    SessionMetadataSchema,
+    AgentStateSchema,
+    MachineMetadataSchema,
+    DaemonStateSchema,
+    MessageContentSchema,
+    ArtifactHeaderSchema,
+    ArtifactBodySchema,
     // Ephemeral schemas
     ApiEphemeralUpdateSchema,
     ApiEphemeralActivityUpdateSchema,
@@ -78,6 +90,13 @@ import {
     UpdateUrlSharingRequestSchema,
     RevokeInvitationRequestSchema,
     ResendInvitationRequestSchema,
+    SetInvitationDataKeyRequestSchema,
+    SetShareDataKeysRequestSchema,
+    DeliverRotatedDataKeyRequestSchema,
+    VersionedWrappedDataKeySchema,
+    DeviceSigningKeySchema,
+    PublicKeyDirectoryEntrySchema,
+    PublicKeyDirectorySchema,
 } from '../src/index';
 
 // Get the directory of the current script
@@ -98,6 +117,7 @@ const schemasToGenerate = {
     UserProfile: UserProfileSchema,
     FeedBody: FeedBodySchema,
     EncryptedContent: EncryptedContentSchema,
+    SignatureEnvelope: SignatureEnvelopeSchema,
     VersionedValue: VersionedValueSchema,
     NullableVersionedValue: NullableVersionedValueSchema,
 
@@ -105,20 +125,35 @@ const schemasToGenerate = {
     ApiUpdateNewSession: ApiUpdateNewSessionSchema,
     ApiUpdateSessionState: ApiUpdateSessionStateSchema,
     ApiDeleteSession: ApiDeleteSessionSchema,
+    ApiArchiveSession: ApiArchiveSessionSchema,
+    ApiUnarchiveSession: ApiUnarchiveSessionSchema,
+
+    // Decrypted session state
+    SessionMetadata: SessionMetadataSchema,
+    AgentState: AgentStateSchema,
 
     // Machine updates
     ApiNewMachine: ApiNewMachineSchema,
     ApiUpdateMachineState: ApiUpdateMachineStateSchema,
 
+    // Decrypted machine state
+    MachineMetadata: MachineMetadataSchema,
+    DaemonState: DaemonStateSchema,
+
     // Message updates
     ApiMessage: ApiMessageSchema,
     ApiUpdateNewMessage: ApiUpdateNewMessageSchema,
+    MessageContent: MessageContentSchema,
 
     // Artifact updates
     ApiNewArtifact: ApiNewArtifactSchema,
     ApiUpdateArtifact: ApiUpdateArtifactSchema,
     ApiDeleteArtifact: ApiDeleteArtifactSchema,
 
+    // Decrypted artifact content
+    ArtifactHeader: ArtifactHeaderSchema,
+    ArtifactBody: ArtifactBodySchema,
+
     // Account updates
     ApiUpdateAccount: ApiUpdateAccountSchema,
 
@@ -127,6 +162,9 @@ const schemasToGenerate = {
     ApiNewFeedPost: ApiNewFeedPostSchema,
     ApiKvBatchUpdate: ApiKvBatchUpdateSchema,
 
+    // Key rotation
+    ApiRotateKey: ApiRotateKeySchema,
+
     // Main discriminated union for all updates
     ApiUpdate: ApiUpdateSchema,
 
@@ -155,6 +193,13 @@ const schemasToGenerate = {
     UpdateUrlSharingRequest: UpdateUrlSharingRequestSchema,
     RevokeInvitationRequest: RevokeInvitationRequestSchema,
     ResendInvitationRequest: ResendInvitationRequestSchema,
+    SetInvitationDataKeyRequest: SetInvitationDataKeyRequestSchema,
+    SetShareDataKeysRequest: SetShareDataKeysRequestSchema,
+    DeliverRotatedDataKeyRequest: DeliverRotatedDataKeyRequestSchema,
+    VersionedWrappedDataKey: VersionedWrappedDataKeySchema,
+    DeviceSigningKey: DeviceSigningKeySchema,
+    PublicKeyDirectoryEntry: PublicKeyDirectoryEntrySchema,
+    PublicKeyDirectory: PublicKeyDirectorySchema,
 };
 
 /**
@@ -0,0 +1,141 @@
+/**
+ * Tests for update and ephemeral builders
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ErrorCodes } from '@happy/errors';
+import {
+    ApiUpdateContainerSchema,
+    ApiEphemeralUpdateSchema,
+    KNOWN_UPDATE_TYPES,
+    KNOWN_EPHEMERAL_TYPES,
+    asSessionId,
+    asMachineId,
+    buildNewMessageUpdate,
+    buildDeleteSessionUpdate,
+    buildKvBatchUpdate,
+    buildUsageEphemeral,
+    buildMachineStatusEphemeral,
+    updateBuilders,
+    ephemeralBuilders,
+    type UpdateFields,
+} from './index';
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+});
+
+describe('update builders', () => {
+    it('wrap the body in a container with id, seq and createdAt', () => {
+        const container = buildNewMessageUpdate(
+            {
+                sid: asSessionId('session-1'),
+                message: {
+                    id: 'msg-1',
+                    seq: 4,
+                    content: { t: 'encrypted', c: 'ciphertext' },
+                    createdAt: 1000,
+                },
+            },
+            { id: 'update-1', seq: 42, createdAt: 2000 }
+        );
+
+        expect(container).toEqual({
+            id: 'update-1',
+            seq: 42,
+            createdAt: 2000,
+            body: {
+                t: 'new-message',
+                sid: 'session-1',
+                message: { id: 'msg-1', seq: 4, content: { t: 'encrypted', c: 'ciphertext' }, createdAt: 1000 },
+            },
+        });
+        expect(ApiUpdateContainerSchema.safeParse(container).success).toBe(true);
+        // Body is narrowed to the built variant
+        expect(container.body.message.id).toBe('msg-1');
+    });
+
+    it('default createdAt to the current time', () => {
+        vi.spyOn(Date, 'now').mockReturnValue(5000);
+        const container = buildDeleteSessionUpdate({ sid: asSessionId('session-1') }, { id: 'update-1', seq: 1 });
+        expect(container.createdAt).toBe(5000);
+    });
+
+    it('throw VALIDATION_FAILED for invalid output in development and tests', () => {
+        vi.stubEnv('NODE_ENV', 'development');
+        const fields: UpdateFields<'kv-batch-update'> = { changes: [{ key: '', value: null, version: 1 }] };
+        expect(() => buildKvBatchUpdate(fields, { id: 'update-1', seq: 1 })).toThrow(
+            expect.objectContaining({ code: ErrorCodes.VALIDATION_FAILED })
+        );
+    });
+
+    it('skip validation in production', () => {
+        vi.stubEnv('NODE_ENV', 'production');
+        const fields: UpdateFields<'kv-batch-update'> = { changes: [{ key: '', value: null, version: 1 }] };
+        expect(buildKvBatchUpdate(fields, { id: 'update-1', seq: 1 }).body.changes).toHaveLength(1);
+    });
+
+    it('skip validation without NODE_ENV', () => {
+        vi.stubEnv('NODE_ENV', undefined);
+        const fields: UpdateFields<'kv-batch-update'> = { changes: [{ key: '', value: null, version: 1 }] };
+        expect(buildKvBatchUpdate(fields, { id: 'update-1', seq: 1 }).body.changes).toHaveLength(1);
+    });
+
+    it('skip validation without process', () => {
+        const fields: UpdateFields<'kv-batch-update'> = { changes: [{ key: '', value: null, version: 1 }] };
+        vi.stubGlobal('process', undefined);
+        const container = buildKvBatchUpdate(fields, { id: 'update-1', seq: 1 });
+        vi.unstubAllGlobals();
+        expect(container.body.changes).toHaveLength(1);
+    });
+
+    it('keep the discriminator when fields carry a stray t', () => {
+        const fields = { sid: asSessionId('session-1'), t: 'delete-machine' } as UpdateFields<'delete-session'>;
+        expect(buildDeleteSessionUpdate(fields, { id: 'update-1', seq: 1 }).body.t).toBe('delete-session');
+    });
+
+    it('cover every update type', () => {
+        expect(Object.keys(updateBuilders).sort()).toEqual([...KNOWN_UPDATE_TYPES].sort());
+    });
+});
+
+describe('ephemeral builders', () => {
+    it('build a valid usage event', () => {
+        const event = buildUsageEphemeral({
+            sid: asSessionId('session-1'),
+            key: 'claude-session',
+            timestamp: 1000,
+            tokens: { total: 10, input: 4, output: 6 },
+            cost: { total: 0.01 },
+        });
+        expect(event.type).toBe('usage');
+        expect(ApiEphemeralUpdateSchema.safeParse(event).success).toBe(true);
+    });
+
+    it('throw VALIDATION_FAILED for invalid output outside production', () => {
+        expect(() =>
+            buildUsageEphemeral({
+                sid: asSessionId('session-1'),
+                key: 'claude-session',
+                timestamp: 1000,
+                tokens: { input: 4 },
+                cost: { total: 0 },
+            })
+        ).toThrow(expect.objectContaining({ code: ErrorCodes.VALIDATION_FAILED }));
+    });
+
+    it('build machine status events', () => {
+        expect(buildMachineStatusEphemeral({ machineId: asMachineId('machine-1'), online: false, timestamp: 1 })).toEqual({
+            type: 'machine-status',
+            machineId: 'machine-1',
+            online: false,
+            timestamp: 1,
+        });
+    });
+
+    it('cover every ephemeral type', () => {
+        expect(Object.keys(ephemeralBuilders).sort()).toEqual([...KNOWN_EPHEMERAL_TYPES].sort());
+    });
+});
@@ -0,0 +1,249 @@
+/**
+ * Update and ephemeral builders
+ *
+ * Typed constructors for every `ApiUpdate` and `ApiEphemeralUpdate` variant,
+ * shared by all server implementations so they emit identical wire shapes.
+ * Update builders wrap the body in an `ApiUpdateContainer` with id, seq and
+ * createdAt; ephemeral builders return the bare event.
+ *
+ * In development and tests (`NODE_ENV` is `development` or `test`) every
+ * built value is validated against its schema and a mismatch throws a
+ * `VALIDATION_FAILED` `AppError`, so shape drift is caught without paying
+ * for validation on the hot path in production. Any other or missing
+ * `NODE_ENV`, or no `process` at all (browsers, Workers with
+ * `nodejs_compat`), is treated as production.
+ *
+ * @example
+ * ```typescript
+ * import { buildNewMessageUpdate, buildUsageEphemeral } from '@happy/protocol';
+ *
+ * const container = buildNewMessageUpdate(
+ *     { sid, message: { id: messageId, seq: 12, content, createdAt: now } },
+ *     { id: randomUUID(), seq: userSeq }
+ * );
+ * socket.emit('update', container);
+ *
+ * socket.emit('ephemeral', buildUsageEphemeral({ sid, key, timestamp: now, tokens, cost }));
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import type { z } from 'zod';
+import { AppError, ErrorCodes } from '@happy/errors';
+import type { ApiUpdate, ApiUpdateType } from './updates';
+import { ApiEphemeralUpdateSchema, type ApiEphemeralUpdate, type ApiEphemeralUpdateType } from './ephemeral';
+import { ApiUpdateContainerSchema, type ApiUpdateContainer } from './payloads';
+
+// ═══════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════
+
+/** Fields of an update variant, without its `t` discriminator */
+export type UpdateFields<T extends ApiUpdateType> = Omit<Extract<ApiUpdate, { t: T }>, 't'>;
+
+/** Fields of an ephemeral variant, without its `type` discriminator */
+export type EphemeralFields<T extends ApiEphemeralUpdateType> = Omit<Extract<ApiEphemeralUpdate, { type: T }>, 'type'>;
+
+/** Container metadata assigned by the server when an update is emitted */
+export interface UpdateContainerMeta {
+    /** Unique update ID */
+    id: string;
+    /** User-scoped sequence number */
+    seq: number;
+    /** Emission time in ms; defaults to `Date.now()` */
+    createdAt?: number;
+}
+
+/** Update container whose body is narrowed to one variant */
+export type TypedUpdateContainer<T extends ApiUpdateType> = ApiUpdateContainer & {
+    body: Extract<ApiUpdate, { t: T }>;
+};
+
+export type UpdateBuilder<T extends ApiUpdateType> = (
+    fields: UpdateFields<T>,
+    meta: UpdateContainerMeta
+) => TypedUpdateContainer<T>;
+
+export type EphemeralBuilder<T extends ApiEphemeralUpdateType> = (
+    fields: EphemeralFields<T>
+) => Extract<ApiEphemeralUpdate, { type: T }>;
+
+// ═══════════════════════════════════════════════════════════════
+// Generic builders
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Build an update container for any update type
+ *
+ * The named builders below are thin wrappers around this.
+ *
+ * @throws AppError VALIDATION_FAILED outside production if the result does not match the schema
+ */
+export function buildUpdate<T extends ApiUpdateType>(
+    t: T,
+    fields: UpdateFields<T>,
+    meta: UpdateContainerMeta
+): TypedUpdateContainer<T> {
+    const container = {
+        id: meta.id,
+        seq: meta.seq,
+        // Discriminator last, so stray fields can never override it
+        body: { ...fields, t } as Extract<ApiUpdate, { t: T }>,
+        createdAt: meta.createdAt ?? Date.now(),
+    };
+    validateInDevMode(ApiUpdateContainerSchema, container, `update '${t}'`);
+    return container;
+}
+
+/**
+ * Build an ephemeral event for any ephemeral type
+ *
+ * @throws AppError VALIDATION_FAILED outside production if the result does not match the schema
+ */
+export function buildEphemeral<T extends ApiEphemeralUpdateType>(
+    type: T,
+    fields: EphemeralFields<T>
+): Extract<ApiEphemeralUpdate, { type: T }> {
+    const event = { ...fields, type } as Extract<ApiEphemeralUpdate, { type: T }>;
+    validateInDevMode(ApiEphemeralUpdateSchema, event, `ephemeral '${type}'`);
+    return event;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Update builders
+// ═══════════════════════════════════════════════════════════════
+
+export const buildNewMessageUpdate: UpdateBuilder<'new-message'> = (fields, meta) =>
+    buildUpdate('new-message', fields, meta);
+
+export const buildNewSessionUpdate: UpdateBuilder<'new-session'> = (fields, meta) =>
+    buildUpdate('new-session', fields, meta);
+
+export const buildDeleteSessionUpdate: UpdateBuilder<'delete-session'> = (fields, meta) =>
+    buildUpdate('delete-session', fields, meta);
+
+export const buildArchiveSessionUpdate: UpdateBuilder<'archive-session'> = (fields, meta) =>
+    buildUpdate('archive-session', fields, meta);
+
+export const buildUnarchiveSessionUpdate: UpdateBuilder<'unarchive-session'> = (fields, meta) =>
+    buildUpdate('unarchive-session', fields, meta);
+
+export const buildUpdateSessionUpdate: UpdateBuilder<'update-session'> = (fields, meta) =>
+    buildUpdate('update-session', fields, meta);
+
+export const buildUpdateAccountUpdate: UpdateBuilder<'update-account'> = (fields, meta) =>
+    buildUpdate('update-account', fields, meta);
+
+export const buildUpdateMachineUpdate: UpdateBuilder<'update-machine'> = (fields, meta) =>
+    buildUpdate('update-machine', fields, meta);
+
+export const buildNewMachineUpdate: UpdateBuilder<'new-machine'> = (fields, meta) =>
+    buildUpdate('new-machine', fields, meta);
+
+export const buildDeleteMachineUpdate: UpdateBuilder<'delete-machine'> = (fields, meta) =>
+    buildUpdate('delete-machine', fields, meta);
+
+export const buildNewArtifactUpdate: UpdateBuilder<'new-artifact'> = (fields, meta) =>
+    buildUpdate('new-artifact', fields, meta);
+
+export const buildUpdateArtifactUpdate: UpdateBuilder<'update-artifact'> = (fields, meta) =>
+    buildUpdate('update-artifact', fields, meta);
+
+export const buildDeleteArtifactUpdate: UpdateBuilder<'delete-artifact'> = (fields, meta) =>
+    buildUpdate('delete-artifact', fields, meta);
+
+export const buildRelationshipUpdatedUpdate: UpdateBuilder<'relationship-updated'> = (fields, meta) =>
+    buildUpdate('relationship-updated', fields, meta);
+
+export const buildNewFeedPostUpdate: UpdateBuilder<'new-feed-post'> = (fields, meta) =>
+    buildUpdate('new-feed-post', fields, meta);
+
+export const buildKvBatchUpdate: UpdateBuilder<'kv-batch-update'> = (fields, meta) =>
+    buildUpdate('kv-batch-update', fields, meta);
+
+export const buildRotateKeyUpdate: UpdateBuilder<'rotate-key'> = (fields, meta) =>
+    buildUpdate('rotate-key', fields, meta);
+
+/**
+ * Builder per update type
+ *
+ * Typed as an exhaustive map, so a new update type is a compile error here
+ * until it has a builder.
+ */
+export const updateBuilders: { [T in ApiUpdateType]: UpdateBuilder<T> } = {
+    'new-message': buildNewMessageUpdate,
+    'new-session': buildNewSessionUpdate,
+    'delete-session': buildDeleteSessionUpdate,
+    'archive-session': buildArchiveSessionUpdate,
+    'unarchive-session': buildUnarchiveSessionUpdate,
+    'update-session': buildUpdateSessionUpdate,
+    'update-account': buildUpdateAccountUpdate,
+    'update-machine': buildUpdateMachineUpdate,
+    'new-machine': buildNewMachineUpdate,
+    'delete-machine': buildDeleteMachineUpdate,
+    'new-artifact': buildNewArtifactUpdate,
+    'update-artifact': buildUpdateArtifactUpdate,
+    'delete-artifact': buildDeleteArtifactUpdate,
+    'relationship-updated': buildRelationshipUpdatedUpdate,
+    'new-feed-post': buildNewFeedPostUpdate,
+    'kv-batch-update': buildKvBatchUpdate,
+    'rotate-key': buildRotateKeyUpdate,
+};
+
+// ═══════════════════════════════════════════════════════════════
+// Ephemeral builders
+// ═══════════════════════════════════════════════════════════════
+
+export const buildActivityEphemeral: EphemeralBuilder<'activity'> = (fields) =>
+    buildEphemeral('activity', fields);
+
+export const buildUsageEphemeral: EphemeralBuilder<'usage'> = (fields) =>
+    buildEphemeral('usage', fields);
+
+export const buildMachineActivityEphemeral: EphemeralBuilder<'machine-activity'> = (fields) =>
+    buildEphemeral('machine-activity', fields);
+
+export const buildMachineStatusEphemeral: EphemeralBuilder<'machine-status'> = (fields) =>
+    buildEphemeral('machine-status', fields);
+
+export const buildMachineDisconnectedEphemeral: EphemeralBuilder<'machine-disconnected'> = (fields) =>
+    buildEphemeral('machine-disconnected', fields);
+
+export const buildFriendStatusEphemeral: EphemeralBuilder<'friend-status'> = (fields) =>
+    buildEphemeral('friend-status', fields);
+
+/**
+ * Builder per ephemeral type
+ *
+ * Exhaustive for the same reason as `updateBuilders`.
+ */
+export const ephemeralBuilders: { [T in ApiEphemeralUpdateType]: EphemeralBuilder<T> } = {
+    'activity': buildActivityEphemeral,
+    'usage': buildUsageEphemeral,
+    'machine-activity': buildMachineActivityEphemeral,
+    'machine-status': buildMachineStatusEphemeral,
+    'machine-disconnected': buildMachineDisconnectedEphemeral,
+    'friend-status': buildFriendStatusEphemeral,
+};
+
+// ═══════════════════════════════════════════════════════════════
+// Dev-mode validation
+// ═══════════════════════════════════════════════════════════════
+
+function isDevMode(): boolean {
+    const nodeEnv = (globalThis as { process?: { env?: Record<string, string | undefined> } }).process?.env?.NODE_ENV;
+    return nodeEnv === 'development' || nodeEnv === 'test';
+}
+
+function validateInDevMode(schema: z.ZodType, value: unknown, label: string): void {
+    if (!isDevMode()) {
+        return;
+    }
+    const result = schema.safeParse(value);
+    if (!result.success) {
+        throw new AppError(ErrorCodes.VALIDATION_FAILED, `Built ${label} does not match the protocol schema`, {
+            context: { issues: result.error.issues },
+        });
+    }
+}
@@ -353,6 +353,12 @@ describe('Input validation (HAP-629)', () => {
             expect(result.success).toBe(false);
         });
 
+        it('accepts an optional key version within 0-65535', () => {
+            expect(EncryptedContentSchema.safeParse({ t: 'encrypted', c: 'x', k: 0xffff }).success).toBe(true);
+            expect(EncryptedContentSchema.safeParse({ t: 'encrypted', c: 'x', k: 0x10000 }).success).toBe(false);
+            expect(EncryptedContentSchema.safeParse({ t: 'encrypted', c: 'x', k: 1.5 }).success).toBe(false);
+        });
+
         it('accepts content at exactly CONTENT_MAX', () => {
             const content = {
                 t: 'encrypted' as const,
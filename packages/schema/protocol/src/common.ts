@@ -11,6 +11,7 @@
 
 import { z } from 'zod';
 import { STRING_LIMITS } from './constraints';
+import { UserIdSchema } from './ids';
 
 /**
  * GitHub profile data from OAuth
@@ -145,7 +146,7 @@ export type RelationshipStatus = z.infer<typeof RelationshipStatusSchema>;
  * ```
  */
 export const UserProfileSchema = z.object({
-    id: z.string().min(1).max(STRING_LIMITS.ID_MAX),
+    id: UserIdSchema,
     firstName: z.string().min(1).max(STRING_LIMITS.NAME_MAX),
     lastName: z.string().max(STRING_LIMITS.NAME_MAX).nullable(),
     avatar: ImageRefSchema.nullable(),
@@ -177,32 +178,91 @@ export type UserProfile = z.infer<typeof UserProfileSchema>;
  * ```
  */
 export const FeedBodySchema = z.discriminatedUnion('kind', [
-    z.object({ kind: z.literal('friend_request'), uid: z.string().min(1).max(STRING_LIMITS.ID_MAX) }),
-    z.object({ kind: z.literal('friend_accepted'), uid: z.string().min(1).max(STRING_LIMITS.ID_MAX) }),
+    z.object({ kind: z.literal('friend_request'), uid: UserIdSchema }),
+    z.object({ kind: z.literal('friend_accepted'), uid: UserIdSchema }),
     z.object({ kind: z.literal('text'), text: z.string().max(STRING_LIMITS.FEED_TEXT_MAX) }),
 ]);
 
 export type FeedBody = z.infer<typeof FeedBodySchema>;
 
+/**
+ * Version of a per-entity data encryption key
+ *
+ * The key created with an entity is version 0; each `rotate-key` update
+ * introduces a higher one. Fits the 2-byte key version of v1 bundles.
+ */
+export const KeyVersionSchema = z.number().int().min(0).max(0xffff);
+
+export type KeyVersion = z.infer<typeof KeyVersionSchema>;
+
 /**
  * Encrypted message content structure
  * Used for all encrypted payloads in the protocol
  *
+ * `k` names the data key version the content was encrypted with. It is
+ * omitted by clients that predate key rotation; treat a missing `k` as
+ * version 0, or pick the key by message seq (see `getDataKeyForSeq`).
+ *
  * @example
  * ```typescript
  * const encrypted = EncryptedContentSchema.parse({
  *     t: 'encrypted',
- *     c: 'base64EncodedEncryptedContent=='
+ *     c: 'base64EncodedEncryptedContent==',
+ *     k: 2
  * });
  * ```
  */
 export const EncryptedContentSchema = z.object({
     t: z.literal('encrypted'),
     c: z.string().max(STRING_LIMITS.CONTENT_MAX), // Base64 encoded encrypted content
+    k: KeyVersionSchema.optional(), // Data key version (absent = 0), copied from `SocketMessageEvent.k`
 });
 
 export type EncryptedContent = z.infer<typeof EncryptedContentSchema>;
 
+/**
+ * Signature algorithms accepted in signature envelopes
+ */
+export const SignatureAlgorithmSchema = z.enum(['ed25519']);
+
+export type SignatureAlgorithm = z.infer<typeof SignatureAlgorithmSchema>;
+
+/**
+ * Detached signature proving which device authored a message or artifact
+ *
+ * `sig` covers the canonical input from `messageSignatureInput` or
+ * `artifactSignatureInput`. `keyId` names one of the signer's device keys
+ * in the public-key directory (`findSigningKey`). Optional on the wire:
+ * content from clients that predate signing carries none.
+ *
+ * @example
+ * ```typescript
+ * const signature = SignatureEnvelopeSchema.parse({
+ *     keyId: '3f2a9c0d1e4b5a697887766554433221',
+ *     alg: 'ed25519',
+ *     sig: 'base64Signature=='
+ * });
+ * ```
+ */
+export const SignatureEnvelopeSchema = z.object({
+    keyId: z.string().min(1).max(STRING_LIMITS.ID_MAX), // Signer key fingerprint (`signingKeyId`)
+    alg: SignatureAlgorithmSchema,
+    sig: z.string().min(1).max(STRING_LIMITS.SIGNATURE_MAX), // Base64 encoded signature
+});
+
+export type SignatureEnvelope = z.infer<typeof SignatureEnvelopeSchema>;
+
+/**
+ * Author's own per-session message counter
+ *
+ * Each signing device numbers the messages it sends into a session 1, 2, 3…
+ * and signs the number with the message, so readers can check that a
+ * signer's messages arrive in the order it wrote them.
+ */
+export const AuthorSeqSchema = z.number().int().min(1).max(Number.MAX_SAFE_INTEGER);
+
+export type AuthorSeq = z.infer<typeof AuthorSeqSchema>;
+
 /**
  * Versioned value wrapper for optimistic concurrency
  * Used for metadata, agentState, daemonState, etc.
@@ -0,0 +1,129 @@
+/**
+ * Tests for versioned write schemas and casUpdate
+ */
+
+import { describe, it, expect } from 'vitest';
+import { AppError, ErrorCodes } from '@happy/errors';
+import {
+    casUpdate,
+    VersionedWriteRequestSchema,
+    VersionedWriteResponseSchema,
+    SessionMetadataWriteRequestSchema,
+    MachineDaemonStateWriteRequestSchema,
+    type Versioned,
+    type VersionedWriteResult,
+} from './index';
+
+/**
+ * In-memory versioned store with an optional concurrent writer
+ */
+function createStore<T>(initial: Versioned<T>, concurrentWrites: T[] = []) {
+    let stored = initial;
+    let writes = 0;
+    return {
+        get stored() {
+            return stored;
+        },
+        get writes() {
+            return writes;
+        },
+        read: async () => stored,
+        write: async (value: T, expectedVersion: number): Promise<VersionedWriteResult<T>> => {
+            writes++;
+            const concurrent = concurrentWrites.shift();
+            if (concurrent !== undefined) {
+                stored = { version: stored.version + 1, value: concurrent };
+            }
+            if (expectedVersion !== stored.version) {
+                return { result: 'conflict', currentVersion: stored.version, currentValue: stored.value };
+            }
+            stored = { version: stored.version + 1, value };
+            return { result: 'success', version: stored.version, value };
+        },
+    };
+}
+
+describe('versioned write schemas', () => {
+    it('accepts requests with expectedVersion', () => {
+        expect(VersionedWriteRequestSchema.safeParse({ expectedVersion: 3, value: 'enc' }).success).toBe(true);
+        expect(VersionedWriteRequestSchema.safeParse({ expectedVersion: 3, value: null }).success).toBe(true);
+        expect(VersionedWriteRequestSchema.safeParse({ value: 'enc' }).success).toBe(false);
+    });
+
+    it('discriminates success and conflict responses', () => {
+        expect(VersionedWriteResponseSchema.safeParse({ result: 'success', version: 4, value: 'enc' }).success).toBe(true);
+        expect(VersionedWriteResponseSchema.safeParse({
+            result: 'conflict',
+            currentVersion: 5,
+            currentValue: 'enc',
+        }).success).toBe(true);
+        expect(VersionedWriteResponseSchema.safeParse({ result: 'conflict', version: 5 }).success).toBe(false);
+    });
+
+    it('scopes writes to sessions and machines', () => {
+        expect(SessionMetadataWriteRequestSchema.safeParse({ sid: 's1', expectedVersion: 1, value: 'enc' }).success).toBe(true);
+        expect(MachineDaemonStateWriteRequestSchema.safeParse({
+            machineId: 'm1',
+            expectedVersion: 1,
+            value: 'enc',
+        }).success).toBe(true);
+        expect(MachineDaemonStateWriteRequestSchema.safeParse({ expectedVersion: 1, value: 'enc' }).success).toBe(false);
+    });
+});
+
+describe('casUpdate', () => {
+    it('writes on the first attempt without conflicts', async () => {
+        const store = createStore({ version: 1, value: { count: 1 } });
+        const result = await casUpdate(store.read, store.write, (v) => ({ count: v.count + 1 }));
+        expect(result).toEqual({ version: 2, value: { count: 2 } });
+        expect(store.writes).toBe(1);
+    });
+
+    it('re-merges against the conflicting value', async () => {
+        const store = createStore({ version: 1, value: { tags: ['a'] } }, [{ tags: ['a', 'b'] }]);
+        const result = await casUpdate(store.read, store.write, (v) => ({ tags: [...v.tags, 'c'] }));
+        expect(result).toEqual({ version: 3, value: { tags: ['a', 'b', 'c'] } });
+        expect(store.writes).toBe(2);
+    });
+
+    it('re-reads after a thrown VERSION_CONFLICT', async () => {
+        const store = createStore({ version: 1, value: 10 });
+        let reads = 0;
+        let thrown = false;
+        const result = await casUpdate(
+            async () => {
+                reads++;
+                return store.read();
+            },
+            async (value, expectedVersion) => {
+                if (!thrown) {
+                    thrown = true;
+                    throw new AppError(ErrorCodes.VERSION_CONFLICT, 'stale');
+                }
+                return store.write(value, expectedVersion);
+            },
+            (v) => v * 2
+        );
+        expect(result).toEqual({ version: 2, value: 20 });
+        expect(reads).toBe(2);
+    });
+
+    it('throws VERSION_CONFLICT after exhausting retries', async () => {
+        const store = createStore({ version: 1, value: 0 }, [1, 2, 3]);
+        const attempt = casUpdate(store.read, store.write, (v) => v + 100, { maxRetries: 2 });
+        await expect(attempt).rejects.toMatchObject({ code: ErrorCodes.VERSION_CONFLICT, canTryAgain: true });
+        expect(store.writes).toBe(3);
+    });
+
+    it('rethrows other errors unchanged', async () => {
+        const failure = new AppError(ErrorCodes.RPC_FAILED, 'offline');
+        const attempt = casUpdate(
+            async () => ({ version: 1, value: 0 }),
+            async () => {
+                throw failure;
+            },
+            (v) => v
+        );
+        await expect(attempt).rejects.toBe(failure);
+    });
+});
@@ -0,0 +1,198 @@
+/**
+ * Optimistic-concurrency (compare-and-set) contract for versioned writes
+ *
+ * Session metadata, session agent state, machine metadata and daemon state are
+ * stored as `VersionedValue`s. Writers send the version they based their change
+ * on; the server applies the write only if that version is still current,
+ * otherwise it answers with the current value so the writer can re-merge.
+ *
+ * @example
+ * ```typescript
+ * import { casUpdate } from '@happy/protocol';
+ *
+ * const result = await casUpdate(
+ *     async () => ({ version: session.metadataVersion, value: session.metadata }),
+ *     async (value, expectedVersion) => {
+ *         const response = await socket.emitWithAck('update-metadata', {
+ *             sid,
+ *             expectedVersion,
+ *             value: encrypt(value),
+ *         });
+ *         return decryptWriteResponse(response);
+ *     },
+ *     (metadata) => ({ ...metadata, summary: { text: 'Fix login bug', updatedAt: Date.now() } }),
+ *     { maxRetries: 3 }
+ * );
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { z } from 'zod';
+import { AppError, ErrorCodes } from '@happy/errors';
+import { STRING_LIMITS } from './constraints';
+import { SessionIdSchema, MachineIdSchema } from './ids';
+
+// ═══════════════════════════════════════════════════════════════
+// Wire schemas
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Compare-and-set write of an encrypted versioned value
+ *
+ * @example
+ * ```typescript
+ * const request = VersionedWriteRequestSchema.parse({
+ *     expectedVersion: 4,
+ *     value: 'base64EncryptedValue=='
+ * });
+ * ```
+ */
+export const VersionedWriteRequestSchema = z.object({
+    /** Version the writer based its change on */
+    expectedVersion: z.number().int().nonnegative(),
+    /** New encrypted value (`null` clears it) */
+    value: z.string().max(STRING_LIMITS.VERSIONED_VALUE_MAX).nullable(),
+});
+
+export type VersionedWriteRequest = z.infer<typeof VersionedWriteRequestSchema>;
+
+/**
+ * Result of a compare-and-set write
+ *
+ * - `success`: the write was applied and stored at `version`
+ * - `conflict`: `expectedVersion` was stale; carries the current value to re-merge
+ *
+ * @example
+ * ```typescript
+ * const response = VersionedWriteResponseSchema.parse(ack);
+ * if (response.result === 'conflict') {
+ *     retryWith(response.currentVersion, response.currentValue);
+ * }
+ * ```
+ */
+export const VersionedWriteResponseSchema = z.discriminatedUnion('result', [
+    z.object({
+        result: z.literal('success'),
+        version: z.number().int().nonnegative(),
+        value: z.string().max(STRING_LIMITS.VERSIONED_VALUE_MAX).nullable(),
+    }),
+    z.object({
+        result: z.literal('conflict'),
+        currentVersion: z.number().int().nonnegative(),
+        currentValue: z.string().max(STRING_LIMITS.VERSIONED_VALUE_MAX).nullable(),
+    }),
+]);
+
+export type VersionedWriteResponse = z.infer<typeof VersionedWriteResponseSchema>;
+
+/**
+ * Compare-and-set write of session metadata
+ */
+export const SessionMetadataWriteRequestSchema = VersionedWriteRequestSchema.extend({
+    sid: SessionIdSchema,
+});
+
+export type SessionMetadataWriteRequest = z.infer<typeof SessionMetadataWriteRequestSchema>;
+
+/**
+ * Compare-and-set write of session agent state
+ */
+export const SessionAgentStateWriteRequestSchema = VersionedWriteRequestSchema.extend({
+    sid: SessionIdSchema,
+});
+
+export type SessionAgentStateWriteRequest = z.infer<typeof SessionAgentStateWriteRequestSchema>;
+
+/**
+ * Compare-and-set write of machine metadata
+ */
+export const MachineMetadataWriteRequestSchema = VersionedWriteRequestSchema.extend({
+    machineId: MachineIdSchema,
+});
+
+export type MachineMetadataWriteRequest = z.infer<typeof MachineMetadataWriteRequestSchema>;
+
+/**
+ * Compare-and-set write of machine daemon state
+ */
+export const MachineDaemonStateWriteRequestSchema = VersionedWriteRequestSchema.extend({
+    machineId: MachineIdSchema,
+});
+
+export type MachineDaemonStateWriteRequest = z.infer<typeof MachineDaemonStateWriteRequestSchema>;
+
+// ═══════════════════════════════════════════════════════════════
+// Client helper
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Decrypted value together with the version it was read at
+ */
+export interface Versioned<T> {
+    version: number;
+    value: T;
+}
+
+/**
+ * Decrypted counterpart of `VersionedWriteResponse`
+ */
+export type VersionedWriteResult<T> =
+    | { result: 'success'; version: number; value: T }
+    | { result: 'conflict'; currentVersion: number; currentValue: T };
+
+export interface CasUpdateOptions {
+    /** Retries after the first attempt before giving up (default `3`) */
+    maxRetries?: number;
+}
+
+/**
+ * Read-modify-write a versioned value, re-merging on version conflicts
+ *
+ * `mutate` is re-run against the server's current value after every conflict,
+ * so it must be a pure function of its input. A conflict is either a
+ * `conflict` result from `write`, or `write` throwing an `AppError` with code
+ * `VERSION_CONFLICT` (in which case the value is read again). Any other error
+ * from `read`, `write` or `mutate` is rethrown unchanged.
+ *
+ * @param read - Fetch the current decrypted value and its version
+ * @param write - Attempt the write against `expectedVersion`
+ * @param mutate - Produce the new value from the current one
+ * @returns The stored value and its new version
+ * @throws AppError with `VERSION_CONFLICT` once all retries conflicted
+ */
+export async function casUpdate<T>(
+    read: () => Promise<Versioned<T>>,
+    write: (value: T, expectedVersion: number) => Promise<VersionedWriteResult<T>>,
+    mutate: (current: T) => T | Promise<T>,
+    options: CasUpdateOptions = {}
+): Promise<Versioned<T>> {
+    const maxRetries = options.maxRetries ?? 3;
+    let current: Versioned<T> | undefined;
+
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+        current ??= await read();
+        const next = await mutate(current.value);
+
+        let result: VersionedWriteResult<T>;
+        try {
+            result = await write(next, current.version);
+        } catch (error) {
+            if (AppError.isAppError(error) && error.code === ErrorCodes.VERSION_CONFLICT) {
+                current = undefined;
+                continue;
+            }
+            throw error;
+        }
+
+        if (result.result === 'success') {
+            return { version: result.version, value: result.value };
+        }
+        current = { version: result.currentVersion, value: result.currentValue };
+    }
+
+    throw new AppError(ErrorCodes.VERSION_CONFLICT, `Versioned write still conflicting after ${maxRetries + 1} attempts`, {
+        canTryAgain: true,
+        context: { attempts: maxRetries + 1, lastVersion: current?.version },
+    });
+}
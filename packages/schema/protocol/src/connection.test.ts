@@ -0,0 +1,119 @@
+/**
+ * Tests for WebSocket handshake messages and close codes
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ErrorCodes } from '@happy/errors';
+import {
+    WebSocketAuthHandshakeSchema,
+    ConnectedMessageSchema,
+    ErrorMessageSchema,
+    CloseCodes,
+    CLOSE_CODE_TABLE,
+    getCloseCodeInfo,
+    closeCodeToAppError,
+    createHandshake,
+    SeqTracker,
+} from './index';
+
+describe('WebSocketAuthHandshakeSchema', () => {
+    it('accepts each client type with its scoped ID', () => {
+        const handshakes = [
+            { type: 'auth', token: 'tok', clientType: 'user-scoped' },
+            { type: 'auth', token: 'tok', clientType: 'session-scoped', sessionId: 'session-1' },
+            { type: 'auth', token: 'tok', clientType: 'machine-scoped', machineId: 'machine-1', protocol: createHandshake([]) },
+        ];
+        for (const handshake of handshakes) {
+            expect(WebSocketAuthHandshakeSchema.safeParse(handshake).success).toBe(true);
+        }
+    });
+
+    it('rejects scoped clients without their ID', () => {
+        expect(
+            WebSocketAuthHandshakeSchema.safeParse({ type: 'auth', token: 'tok', clientType: 'machine-scoped' }).success
+        ).toBe(false);
+    });
+
+    it('rejects an empty token', () => {
+        expect(
+            WebSocketAuthHandshakeSchema.safeParse({ type: 'auth', token: '', clientType: 'user-scoped' }).success
+        ).toBe(false);
+    });
+});
+
+describe('ConnectedMessageSchema', () => {
+    it('carries the seq used to plan a reconnect', () => {
+        const message = ConnectedMessageSchema.parse({
+            type: 'connected',
+            connectionId: 'conn-1',
+            userId: 'user-1',
+            clientType: 'user-scoped',
+            seq: 10,
+            serverTime: 1000,
+            protocol: { version: 1, capabilities: ['sharing'] },
+        });
+
+        const tracker = new SeqTracker();
+        tracker.push({ seq: 1 });
+        expect(tracker.planReconnect(message.seq)).toEqual({ kind: 'fetch', gap: { from: 2, to: 10 } });
+    });
+
+    it('announces the key message seqs are counter-signed with', () => {
+        const base = { type: 'connected', connectionId: 'conn-1', userId: 'user-1', clientType: 'user-scoped', seq: 0, serverTime: 1 };
+        const key = { keyId: 'server-key-1', alg: 'ed25519', publicKey: 'dh2I7IMEE5Gd/p1NHVbxfmU8jJlAgt9bE3uQoK5u33Q=' };
+        expect(ConnectedMessageSchema.parse({ ...base, sequenceSigningKey: key }).sequenceSigningKey).toEqual(key);
+        expect(ConnectedMessageSchema.safeParse({ ...base, sequenceSigningKey: { ...key, alg: 'rsa' } }).success).toBe(false);
+    });
+});
+
+describe('ErrorMessageSchema', () => {
+    it('accepts error codes unknown to this package', () => {
+        expect(ErrorMessageSchema.safeParse({ type: 'error', code: 'FUTURE_CODE', message: 'x' }).success).toBe(true);
+    });
+});
+
+describe('close codes', () => {
+    it('describe every close code', () => {
+        for (const code of Object.values(CloseCodes)) {
+            expect(CLOSE_CODE_TABLE[code].name).toBe(
+                Object.keys(CloseCodes).find((name) => CloseCodes[name as keyof typeof CloseCodes] === code)
+            );
+        }
+    });
+
+    it('never reconnect after auth failure or machine disconnect', () => {
+        expect(getCloseCodeInfo(CloseCodes.AUTH_FAILED).retry).toBe('never');
+        expect(getCloseCodeInfo(CloseCodes.MACHINE_DISCONNECTED).retry).toBe('never');
+    });
+
+    it('refresh the token after expiry', () => {
+        expect(getCloseCodeInfo(CloseCodes.TOKEN_EXPIRED)).toMatchObject({
+            errorCode: ErrorCodes.TOKEN_EXPIRED,
+            retry: 'refresh-token',
+        });
+    });
+
+    it('drop an oversized frame instead of resending it', () => {
+        expect(getCloseCodeInfo(CloseCodes.MESSAGE_TOO_BIG).retry).toBe('drop-message');
+        expect(closeCodeToAppError(CloseCodes.MESSAGE_TOO_BIG)).toMatchObject({
+            code: ErrorCodes.INVALID_INPUT,
+            canTryAgain: false,
+            context: { closeCode: 1009, retry: 'drop-message' },
+        });
+    });
+
+    it('reconnect on unknown codes', () => {
+        expect(getCloseCodeInfo(4999)).toMatchObject({ name: 'UNKNOWN', retry: 'reconnect' });
+    });
+
+    it('convert close events into AppErrors', () => {
+        const error = closeCodeToAppError(CloseCodes.VERSION_MISMATCH, 'upgrade required');
+        expect(error).toMatchObject({
+            code: ErrorCodes.VERSION_MISMATCH,
+            message: 'upgrade required',
+            canTryAgain: false,
+            context: { closeCode: 4005, closeCodeName: 'VERSION_MISMATCH', retry: 'never' },
+        });
+        expect(closeCodeToAppError(CloseCodes.GOING_AWAY).canTryAgain).toBe(true);
+    });
+});
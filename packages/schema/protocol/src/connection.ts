@@ -0,0 +1,303 @@
+/**
+ * WebSocket connection handshake and close codes
+ *
+ * After opening a socket the client sends a `WebSocketAuthHandshake`
+ * carrying its token and connection scope. The server answers with a
+ * `ConnectedMessage` (or an `ErrorMessage` followed by a close). Every close
+ * code the servers use is listed in `CLOSE_CODE_TABLE` with the `ErrorCode`
+ * it stands for and whether the client should reconnect, so the CLI, apps
+ * and both servers agree on reconnect behavior.
+ *
+ * Previously kept locally in happy-server-workers:
+ * `src/durable-objects/types.ts` (WebSocketAuthHandshake, CloseCode, ConnectedMessage, ErrorMessage)
+ *
+ * Security: All string fields have maximum length constraints.
+ *
+ * @example
+ * ```typescript
+ * import { getCloseCodeInfo, closeCodeToAppError } from '@happy/protocol';
+ *
+ * ws.onclose = (event) => {
+ *     const { retry } = getCloseCodeInfo(event.code);
+ *     if (retry === 'never') {
+ *         showError(closeCodeToAppError(event.code, event.reason));
+ *     } else if (retry === 'refresh-token') {
+ *         refreshToken().then(connect);
+ *     } else if (retry === 'drop-message') {
+ *         outbox.dropInFlight(closeCodeToAppError(event.code, event.reason));
+ *         scheduleReconnect();
+ *     } else {
+ *         scheduleReconnect();
+ *     }
+ * };
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { z } from 'zod';
+import { AppError, ErrorCodes, type ErrorCode } from '@happy/errors';
+import { STRING_LIMITS } from './constraints';
+import { UserIdSchema } from './ids';
+import { SignatureAlgorithmSchema } from './common';
+import { SessionScopedConnectionSchema, UserScopedConnectionSchema, MachineScopedConnectionSchema } from './routing';
+import { ProtocolHandshakeSchema, PROTOCOL_CAPABILITIES } from './version';
+
+// ═══════════════════════════════════════════════════════════════
+// Messages
+// ═══════════════════════════════════════════════════════════════
+
+const AuthHandshakeBase = {
+    type: z.literal('auth'),
+    token: z.string().min(1).max(STRING_LIMITS.TOKEN_MAX),
+    /** Version and capabilities; omitted by clients that predate negotiation */
+    protocol: ProtocolHandshakeSchema.optional(),
+};
+
+/**
+ * First message sent by a client after the socket opens
+ *
+ * Discriminated by `clientType`; session- and machine-scoped clients must
+ * name their session or machine. The user ID is taken from the token.
+ *
+ * @example
+ * ```typescript
+ * ws.send(JSON.stringify({
+ *     type: 'auth',
+ *     token,
+ *     clientType: 'machine-scoped',
+ *     machineId: 'machine_laptop1',
+ *     protocol: createHandshake(['archive-session'])
+ * }));
+ * ```
+ */
+export const WebSocketAuthHandshakeSchema = z.discriminatedUnion('clientType', [
+    SessionScopedConnectionSchema.omit({ userId: true }).extend(AuthHandshakeBase),
+    UserScopedConnectionSchema.omit({ userId: true }).extend(AuthHandshakeBase),
+    MachineScopedConnectionSchema.omit({ userId: true }).extend(AuthHandshakeBase),
+]);
+
+export type WebSocketAuthHandshake = z.infer<typeof WebSocketAuthHandshakeSchema>;
+
+/**
+ * Server acknowledgement of a successful handshake
+ *
+ * `seq` is the user's current update sequence number; pass it to
+ * `SeqTracker.planReconnect` to decide between an incremental and a full resync.
+ */
+export const ConnectedMessageSchema = z.object({
+    type: z.literal('connected'),
+    connectionId: z.string().min(1).max(STRING_LIMITS.ID_MAX),
+    userId: UserIdSchema,
+    clientType: z.enum(['session-scoped', 'user-scoped', 'machine-scoped']),
+    seq: z.number().int().min(0),
+    serverTime: z.number(),
+    /** Key the server counter-signs message seqs with (`ApiMessage.sequenceSignature`) */
+    sequenceSigningKey: z.object({
+        keyId: z.string().min(1).max(STRING_LIMITS.ID_MAX),
+        alg: SignatureAlgorithmSchema,
+        /** Base64 public key */
+        publicKey: z.string().min(1).max(STRING_LIMITS.PUBLIC_KEY_MAX),
+    }).optional(),
+    /** Negotiated protocol; omitted when the client sent no `protocol` */
+    protocol: z.object({
+        version: z.number().int().min(1),
+        capabilities: z.array(z.enum(PROTOCOL_CAPABILITIES)),
+    }).optional(),
+});
+
+export type ConnectedMessage = z.infer<typeof ConnectedMessageSchema>;
+
+/**
+ * Error reported by the server, usually just before closing the socket
+ *
+ * `code` is an `ErrorCode`, kept as a string so newer server codes still parse.
+ */
+export const ErrorMessageSchema = z.object({
+    type: z.literal('error'),
+    code: z.string().min(1).max(STRING_LIMITS.LABEL_MAX),
+    message: z.string().max(STRING_LIMITS.DESCRIPTION_MAX),
+    /** Close code that follows, if the server is about to close */
+    closeCode: z.number().int().optional(),
+});
+
+export type ErrorMessage = z.infer<typeof ErrorMessageSchema>;
+
+// ═══════════════════════════════════════════════════════════════
+// Close codes
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * WebSocket close codes used by the servers
+ *
+ * 1xxx are standard (RFC 6455); 4xxx are application-defined.
+ */
+export const CloseCodes = {
+    NORMAL: 1000,
+    GOING_AWAY: 1001,
+    PROTOCOL_ERROR: 1002,
+    MESSAGE_TOO_BIG: 1009,
+    INTERNAL_ERROR: 1011,
+    TRY_AGAIN_LATER: 1013,
+    AUTH_FAILED: 4001,
+    AUTH_TIMEOUT: 4002,
+    INVALID_HANDSHAKE: 4003,
+    TOKEN_EXPIRED: 4004,
+    VERSION_MISMATCH: 4005,
+    CONNECTION_LIMIT_EXCEEDED: 4006,
+    DUPLICATE_CONNECTION: 4007,
+    MACHINE_DISCONNECTED: 4008,
+    SESSION_DELETED: 4009,
+} as const;
+
+export type CloseCodeName = keyof typeof CloseCodes;
+export type CloseCode = (typeof CloseCodes)[CloseCodeName];
+
+/**
+ * What a client should do after the socket closes
+ *
+ * - `reconnect`: reconnect with backoff
+ * - `refresh-token`: obtain a new token, then reconnect
+ * - `drop-message`: discard the frame that caused the close, then reconnect;
+ *   resending it would only close the socket again
+ * - `never`: stay disconnected until the user acts
+ */
+export type RetryPolicy = 'reconnect' | 'refresh-token' | 'drop-message' | 'never';
+
+export interface CloseCodeInfo {
+    name: CloseCodeName | 'UNKNOWN';
+    errorCode: ErrorCode;
+    retry: RetryPolicy;
+    description: string;
+}
+
+/**
+ * Meaning and retry policy of every close code
+ *
+ * `MESSAGE_TOO_BIG` uses `drop-message`: the client must not resend the
+ * frame that was over the limit, or it reconnects and gets closed forever.
+ */
+export const CLOSE_CODE_TABLE: Record<CloseCode, CloseCodeInfo> = {
+    [CloseCodes.NORMAL]: {
+        name: 'NORMAL',
+        errorCode: ErrorCodes.SOCKET_NOT_CONNECTED,
+        retry: 'never',
+        description: 'Connection closed deliberately',
+    },
+    [CloseCodes.GOING_AWAY]: {
+        name: 'GOING_AWAY',
+        errorCode: ErrorCodes.CONNECT_FAILED,
+        retry: 'reconnect',
+        description: 'Server is shutting down or redeploying',
+    },
+    [CloseCodes.PROTOCOL_ERROR]: {
+        name: 'PROTOCOL_ERROR',
+        errorCode: ErrorCodes.INVALID_INPUT,
+        retry: 'never',
+        description: 'Client sent frames the server cannot understand',
+    },
+    [CloseCodes.MESSAGE_TOO_BIG]: {
+        name: 'MESSAGE_TOO_BIG',
+        errorCode: ErrorCodes.INVALID_INPUT,
+        retry: 'drop-message',
+        description: 'Client sent a message over the size limit; drop it instead of resending',
+    },
+    [CloseCodes.INTERNAL_ERROR]: {
+        name: 'INTERNAL_ERROR',
+        errorCode: ErrorCodes.INTERNAL_ERROR,
+        retry: 'reconnect',
+        description: 'Unexpected server error',
+    },
+    [CloseCodes.TRY_AGAIN_LATER]: {
+        name: 'TRY_AGAIN_LATER',
+        errorCode: ErrorCodes.SERVICE_ERROR,
+        retry: 'reconnect',
+        description: 'Server is overloaded',
+    },
+    [CloseCodes.AUTH_FAILED]: {
+        name: 'AUTH_FAILED',
+        errorCode: ErrorCodes.AUTH_FAILED,
+        retry: 'never',
+        description: 'Token was rejected; the user must sign in again',
+    },
+    [CloseCodes.AUTH_TIMEOUT]: {
+        name: 'AUTH_TIMEOUT',
+        errorCode: ErrorCodes.TIMEOUT,
+        retry: 'reconnect',
+        description: 'No auth handshake received in time',
+    },
+    [CloseCodes.INVALID_HANDSHAKE]: {
+        name: 'INVALID_HANDSHAKE',
+        errorCode: ErrorCodes.INVALID_INPUT,
+        retry: 'never',
+        description: 'Auth handshake was malformed or missing its session/machine ID',
+    },
+    [CloseCodes.TOKEN_EXPIRED]: {
+        name: 'TOKEN_EXPIRED',
+        errorCode: ErrorCodes.TOKEN_EXPIRED,
+        retry: 'refresh-token',
+        description: 'Token expired; refresh it and reconnect',
+    },
+    [CloseCodes.VERSION_MISMATCH]: {
+        name: 'VERSION_MISMATCH',
+        errorCode: ErrorCodes.VERSION_MISMATCH,
+        retry: 'never',
+        description: 'No common protocol version; the client or server must be upgraded',
+    },
+    [CloseCodes.CONNECTION_LIMIT_EXCEEDED]: {
+        name: 'CONNECTION_LIMIT_EXCEEDED',
+        errorCode: ErrorCodes.SERVICE_ERROR,
+        retry: 'reconnect',
+        description: 'Too many connections for this user',
+    },
+    [CloseCodes.DUPLICATE_CONNECTION]: {
+        name: 'DUPLICATE_CONNECTION',
+        errorCode: ErrorCodes.SOCKET_NOT_CONNECTED,
+        retry: 'never',
+        description: 'Replaced by a newer connection for the same session or machine',
+    },
+    [CloseCodes.MACHINE_DISCONNECTED]: {
+        name: 'MACHINE_DISCONNECTED',
+        errorCode: ErrorCodes.OPERATION_CANCELLED,
+        retry: 'never',
+        description: 'User disconnected this machine',
+    },
+    [CloseCodes.SESSION_DELETED]: {
+        name: 'SESSION_DELETED',
+        errorCode: ErrorCodes.SESSION_NOT_FOUND,
+        retry: 'never',
+        description: 'Session was deleted',
+    },
+};
+
+/**
+ * Look up a close code, including codes this package does not know
+ *
+ * Unknown codes are treated as transient failures and reconnect.
+ */
+export function getCloseCodeInfo(code: number): CloseCodeInfo {
+    if (Object.hasOwn(CLOSE_CODE_TABLE, code)) {
+        return CLOSE_CODE_TABLE[code as CloseCode];
+    }
+    return {
+        name: 'UNKNOWN',
+        errorCode: ErrorCodes.CONNECT_FAILED,
+        retry: 'reconnect',
+        description: `Connection closed with unknown code ${code}`,
+    };
+}
+
+/**
+ * Convert a close event into an `AppError`
+ *
+ * `canTryAgain` is false for the `never` and `drop-message` retry policies:
+ * for `drop-message` the error belongs to the dropped frame, which must not
+ * be sent again.
+ */
+export function closeCodeToAppError(code: number, reason?: string): AppError {
+    const info = getCloseCodeInfo(code);
+    return new AppError(info.errorCode, reason || info.description, {
+        canTryAgain: info.retry !== 'never' && info.retry !== 'drop-message',
+        context: { closeCode: code, closeCodeName: info.name, retry: info.retry },
+    });
+}
@@ -78,6 +78,12 @@ export const STRING_LIMITS = {
     /** Max data encryption key length (base64 encoded NaCl key) */
     DATA_ENCRYPTION_KEY_MAX: 256,
 
+    /** Max content public key length (base64 encoded Curve25519 key) */
+    PUBLIC_KEY_MAX: 128,
+
+    /** Max signature length (base64 encoded Ed25519 signature) */
+    SIGNATURE_MAX: 128,
+
     /** Max session/machine/artifact ID length */
     ID_MAX: 128,
 
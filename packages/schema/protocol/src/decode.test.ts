@@ -0,0 +1,152 @@
+/**
+ * Tests for typed decode helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { AppError, ErrorCodes } from '@happy/errors';
+import {
+    decodeMachineUpdate,
+    asMachineId,
+    type ApiNewMachine,
+    type ApiUpdateMachineState,
+    type DecryptFn,
+} from './index';
+
+// =============================================================================
+// Test Fixtures
+// =============================================================================
+
+const metadata = {
+    host: 'janes-macbook',
+    platform: 'darwin',
+    happyCliVersion: '0.12.0',
+    homeDir: '/Users/jane',
+    happyHomeDir: '/Users/jane/.happy',
+};
+
+const daemonState = {
+    status: 'running',
+    pid: 4242,
+    httpPort: 53123,
+    startedAt: 1735689600000,
+};
+
+/** Fake "encryption": ciphertext is JSON prefixed with `enc:` */
+const encrypt = (value: unknown): string => `enc:${JSON.stringify(value)}`;
+const decrypt: DecryptFn = (ciphertext) =>
+    ciphertext.startsWith('enc:') ? ciphertext.slice('enc:'.length) : null;
+const decryptAsync: DecryptFn = async (ciphertext) => decrypt(ciphertext);
+
+const newMachine: ApiNewMachine = {
+    t: 'new-machine',
+    machineId: asMachineId('machine-1'),
+    seq: 1,
+    metadata: encrypt(metadata),
+    metadataVersion: 1,
+    daemonState: encrypt(daemonState),
+    daemonStateVersion: 1,
+    dataEncryptionKey: null,
+    active: true,
+    activeAt: 1735689600000,
+    createdAt: 1735689600000,
+    updatedAt: 1735689600000,
+};
+
+// =============================================================================
+// decodeMachineUpdate
+// =============================================================================
+
+describe('decodeMachineUpdate', () => {
+    describe('new-machine', () => {
+        it('decrypts and validates metadata and daemon state', async () => {
+            const decoded = await decodeMachineUpdate(newMachine, decrypt);
+            expect(decoded.machineId).toBe('machine-1');
+            expect(decoded.metadata).toEqual(metadata);
+            expect(decoded.daemonState).toEqual(daemonState);
+            expect(decoded.metadataVersion).toBe(1);
+        });
+
+        it('supports async decrypt functions', async () => {
+            const decoded = await decodeMachineUpdate(newMachine, decryptAsync);
+            expect(decoded.metadata.host).toBe('janes-macbook');
+        });
+
+        it('keeps null daemon state without decrypting', async () => {
+            const calls: string[] = [];
+            const decoded = await decodeMachineUpdate(
+                { ...newMachine, daemonState: null },
+                (value) => {
+                    calls.push(value);
+                    return decrypt(value);
+                }
+            );
+            expect(decoded.daemonState).toBeNull();
+            expect(calls).toHaveLength(1);
+        });
+
+        it('throws VALIDATION_FAILED when decrypted metadata does not match the schema', async () => {
+            const invalid = { ...newMachine, metadata: encrypt({ host: 'only-host' }) };
+            await expect(decodeMachineUpdate(invalid, decrypt)).rejects.toMatchObject({
+                code: ErrorCodes.VALIDATION_FAILED,
+            });
+        });
+
+        it('rejects a missing or oversized daemon status', async () => {
+            const { status: _, ...withoutStatus } = daemonState;
+            const missing = { ...newMachine, daemonState: encrypt(withoutStatus) };
+            await expect(decodeMachineUpdate(missing, decrypt)).rejects.toBeInstanceOf(AppError);
+            const oversized = { ...newMachine, daemonState: encrypt({ ...daemonState, status: 'x'.repeat(1000) }) };
+            await expect(decodeMachineUpdate(oversized, decrypt)).rejects.toBeInstanceOf(AppError);
+        });
+
+        it('throws DECRYPTION_FAILED when a field cannot be decrypted', async () => {
+            const invalid = { ...newMachine, metadata: 'garbage' };
+            await expect(decodeMachineUpdate(invalid, decrypt)).rejects.toMatchObject({
+                code: ErrorCodes.DECRYPTION_FAILED,
+            });
+        });
+    });
+
+    describe('update-machine', () => {
+        it('decrypts only the fields present in the update', async () => {
+            const update: ApiUpdateMachineState = {
+                t: 'update-machine',
+                machineId: asMachineId('machine-1'),
+                daemonState: { version: 3, value: encrypt({ status: 'shutting-down', shutdownSource: 'happy-app' }) },
+                active: false,
+            };
+            const decoded = await decodeMachineUpdate(update, decrypt);
+            expect(decoded.daemonState).toEqual({
+                version: 3,
+                value: { status: 'shutting-down', shutdownSource: 'happy-app' },
+            });
+            expect(decoded.metadata).toBeUndefined();
+            expect(decoded.active).toBe(false);
+            expect('metadata' in decoded).toBe(false);
+        });
+
+        it('decodes daemon statuses and shutdown sources added by newer CLIs', async () => {
+            const state = { status: 'upgrading', shutdownSource: 'auto-update' };
+            const update: ApiUpdateMachineState = {
+                t: 'update-machine',
+                machineId: asMachineId('machine-1'),
+                daemonState: { version: 4, value: encrypt(state) },
+                metadata: { version: 2, value: encrypt({ ...metadata, daemonLastKnownStatus: 'upgrading' }) },
+            };
+            const decoded = await decodeMachineUpdate(update, decrypt);
+            expect(decoded.daemonState?.value).toEqual(state);
+            expect(decoded.metadata?.value.daemonLastKnownStatus).toBe('upgrading');
+        });
+
+        it('decrypts metadata with its version', async () => {
+            const update: ApiUpdateMachineState = {
+                t: 'update-machine',
+                machineId: asMachineId('machine-1'),
+                metadata: { version: 7, value: encrypt({ ...metadata, displayName: 'Work laptop' }) },
+            };
+            const decoded = await decodeMachineUpdate(update, decrypt);
+            expect(decoded.metadata?.version).toBe(7);
+            expect(decoded.metadata?.value.displayName).toBe('Work laptop');
+        });
+    });
+});
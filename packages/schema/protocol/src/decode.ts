@@ -0,0 +1,131 @@
+/**
+ * Typed decode helpers for encrypted update fields
+ *
+ * Updates carry entity state as encrypted strings. These helpers open each
+ * encrypted field with `openEncrypted` (decrypt, JSON-parse, validate against
+ * the canonical decrypted schema), so clients receive fully typed state
+ * instead of hand-rolling the shape.
+ *
+ * Decryption itself stays in each client - the protocol package never sees keys.
+ *
+ * @example
+ * ```typescript
+ * import { decodeMachineUpdate, hasMachineId } from '@happy/protocol';
+ *
+ * if (hasMachineId(update)) {
+ *     const decoded = await decodeMachineUpdate(update, (value) => encryption.decryptString(value));
+ *     if (decoded.t === 'new-machine') {
+ *         console.log(decoded.metadata.host, decoded.daemonState?.status);
+ *     }
+ * }
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import type { z } from 'zod';
+import type { ApiNewMachine, ApiUpdateMachineState, MachineMetadata, DaemonState } from './updates';
+import {
+    openEncrypted,
+    EncryptedMachineMetadataSchema,
+    EncryptedDaemonStateSchema,
+    type DecryptFn,
+    type EncryptedField,
+} from './encrypted';
+
+/**
+ * `new-machine` update with decrypted, validated state
+ */
+export type DecodedNewMachine = Omit<ApiNewMachine, 'metadata' | 'daemonState'> & {
+    metadata: MachineMetadata;
+    daemonState: DaemonState | null;
+};
+
+/**
+ * `update-machine` update with decrypted, validated state
+ *
+ * Only the fields present in the original update are present here.
+ */
+export type DecodedUpdateMachine = Omit<ApiUpdateMachineState, 'metadata' | 'daemonState'> & {
+    metadata?: { version: number; value: MachineMetadata };
+    daemonState?: { version: number; value: DaemonState };
+};
+
+/**
+ * Any machine update with decrypted, validated state
+ */
+export type DecodedMachineUpdate = DecodedNewMachine | DecodedUpdateMachine;
+
+/**
+ * Decrypt and validate the encrypted state of a machine update
+ *
+ * Each field is opened with `openEncrypted`, so `decrypt` follows the same
+ * contract: return the plaintext JSON text, or `null` if it cannot decrypt.
+ *
+ * @param update - A `new-machine` or `update-machine` update
+ * @param decrypt - Client decryption function for the machine's key
+ * @returns The update with `metadata`/`daemonState` replaced by typed values
+ * @throws AppError DECRYPTION_FAILED if a field cannot be decrypted
+ * @throws AppError VALIDATION_FAILED if a decrypted field is not JSON or does
+ *   not match the canonical schema
+ *
+ * @example
+ * ```typescript
+ * const decoded = await decodeMachineUpdate(update, decrypt);
+ * if (decoded.t === 'update-machine' && decoded.daemonState) {
+ *     setDaemonState(decoded.machineId, decoded.daemonState.value, decoded.daemonState.version);
+ * }
+ * ```
+ */
+export async function decodeMachineUpdate(update: ApiNewMachine, decrypt: DecryptFn): Promise<DecodedNewMachine>;
+export async function decodeMachineUpdate(update: ApiUpdateMachineState, decrypt: DecryptFn): Promise<DecodedUpdateMachine>;
+export async function decodeMachineUpdate(
+    update: ApiNewMachine | ApiUpdateMachineState,
+    decrypt: DecryptFn
+): Promise<DecodedMachineUpdate>;
+export async function decodeMachineUpdate(
+    update: ApiNewMachine | ApiUpdateMachineState,
+    decrypt: DecryptFn
+): Promise<DecodedMachineUpdate> {
+    switch (update.t) {
+        case 'new-machine': {
+            const metadata = await open({ schema: EncryptedMachineMetadataSchema, value: update.metadata }, decrypt);
+            const daemonState = update.daemonState === null
+                ? null
+                : await open({ schema: EncryptedDaemonStateSchema, value: update.daemonState }, decrypt);
+            return { ...update, metadata, daemonState };
+        }
+        case 'update-machine': {
+            const { metadata, daemonState, ...rest } = update;
+            const decoded: DecodedUpdateMachine = { ...rest };
+            if (metadata) {
+                decoded.metadata = {
+                    version: metadata.version,
+                    value: await open({ schema: EncryptedMachineMetadataSchema, value: metadata.value }, decrypt),
+                };
+            }
+            if (daemonState) {
+                decoded.daemonState = {
+                    version: daemonState.version,
+                    value: await open({ schema: EncryptedDaemonStateSchema, value: daemonState.value }, decrypt),
+                };
+            }
+            return decoded;
+        }
+        default: {
+            const _exhaustive: never = update;
+            throw new Error(`Unknown update type: ${(_exhaustive as ApiNewMachine).t}`);
+        }
+    }
+}
+
+/**
+ * `openEncrypted`, throwing its error instead of returning it
+ */
+async function open<S extends z.ZodType>(field: EncryptedField<S>, decrypt: DecryptFn): Promise<z.output<S>> {
+    const result = await openEncrypted(field, decrypt);
+    if (!result.ok) {
+        throw result.error;
+    }
+    return result.data;
+}
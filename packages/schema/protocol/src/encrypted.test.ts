@@ -0,0 +1,155 @@
+/**
+ * Tests for typed encrypted fields
+ */
+
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import { z } from 'zod';
+import { AppError, ErrorCodes } from '@happy/errors';
+import {
+    encrypted,
+    openEncrypted,
+    EncryptedSessionMetadataSchema,
+    EncryptedMessageContentSchema,
+    EncryptedArtifactHeaderSchema,
+    EncryptedArtifactBodySchema,
+    STRING_LIMITS,
+    type DecryptFn,
+    type Encrypted,
+    type SessionMetadata,
+} from './index';
+
+// =============================================================================
+// Test Fixtures
+// =============================================================================
+
+const sessionMetadata: SessionMetadata = {
+    path: '/Users/jane/project',
+    host: 'janes-macbook',
+};
+
+/** Fake "encryption": ciphertext is the plaintext prefixed with `enc:` */
+const encrypt = (value: unknown): string => `enc:${JSON.stringify(value)}`;
+const decrypt: DecryptFn = (ciphertext) =>
+    ciphertext.startsWith('enc:') ? ciphertext.slice('enc:'.length) : null;
+
+// =============================================================================
+// encrypted
+// =============================================================================
+
+describe('encrypted', () => {
+    const PrefsSchema = z.object({ theme: z.enum(['light', 'dark']) });
+    const EncryptedPrefsSchema = encrypted(PrefsSchema, 32);
+
+    it('validates the ciphertext as a bounded string', () => {
+        expect(EncryptedPrefsSchema.parse('ciphertext')).toBe('ciphertext');
+        expect(EncryptedPrefsSchema.safeParse('x'.repeat(33)).success).toBe(false);
+        expect(EncryptedPrefsSchema.safeParse(42).success).toBe(false);
+    });
+
+    it('carries the plaintext schema and type', () => {
+        expect(EncryptedPrefsSchema.plaintext).toBe(PrefsSchema);
+        expectTypeOf(EncryptedPrefsSchema.parse('ciphertext')).toEqualTypeOf<
+            Encrypted<{ theme: 'light' | 'dark' }>
+        >();
+    });
+
+    it('works inside object schemas', () => {
+        const RowSchema = z.object({ id: z.string(), prefs: EncryptedPrefsSchema });
+        expect(RowSchema.parse({ id: 'a', prefs: 'ciphertext' })).toEqual({ id: 'a', prefs: 'ciphertext' });
+    });
+
+    it('keeps the plaintext schema through nullable and optional', () => {
+        const NullablePrefsSchema = EncryptedPrefsSchema.nullable();
+        expect(NullablePrefsSchema.plaintext).toBe(PrefsSchema);
+        expect(NullablePrefsSchema.parse(null)).toBeNull();
+        expect(EncryptedPrefsSchema.optional().plaintext).toBe(PrefsSchema);
+        expect(EncryptedPrefsSchema.optional().nullable().plaintext).toBe(PrefsSchema);
+        expectTypeOf(NullablePrefsSchema.parse('ciphertext')).toEqualTypeOf<
+            Encrypted<{ theme: 'light' | 'dark' }> | null
+        >();
+    });
+
+    it('defaults to the content length limit', () => {
+        expect(encrypted(PrefsSchema).safeParse('x'.repeat(STRING_LIMITS.CONTENT_MAX + 1)).success).toBe(false);
+    });
+});
+
+// =============================================================================
+// openEncrypted
+// =============================================================================
+
+describe('openEncrypted', () => {
+    it('returns typed data for a valid field', async () => {
+        const result = await openEncrypted(
+            { schema: EncryptedSessionMetadataSchema, value: encrypt(sessionMetadata) },
+            decrypt
+        );
+        expect(result).toEqual({ ok: true, data: sessionMetadata });
+        expectTypeOf<Extract<typeof result, { ok: true }>['data']>().toEqualTypeOf<SessionMetadata>();
+    });
+
+    it('accepts async decrypt functions', async () => {
+        const content = { role: 'user', content: { type: 'text', text: 'hello' } };
+        const result = await openEncrypted(
+            { schema: EncryptedMessageContentSchema, value: encrypt(content) },
+            async (ciphertext) => decrypt(ciphertext)
+        );
+        expect(result.ok).toBe(true);
+    });
+
+    it('opens artifact headers and bodies', async () => {
+        const header = await openEncrypted(
+            { schema: EncryptedArtifactHeaderSchema, value: encrypt({ title: 'Plan', draft: true }) },
+            decrypt
+        );
+        expect(header).toEqual({ ok: true, data: { title: 'Plan', draft: true } });
+        const body = await openEncrypted({ schema: EncryptedArtifactBodySchema, value: encrypt({ body: null }) }, decrypt);
+        expect(body).toEqual({ ok: true, data: { body: null } });
+    });
+
+    it('opens fields declared through nullable', async () => {
+        const schema = EncryptedSessionMetadataSchema.nullable();
+        const result = await openEncrypted({ schema, value: encrypt(sessionMetadata) }, decrypt);
+        expect(result).toEqual({ ok: true, data: sessionMetadata });
+    });
+
+    it('fails with DECRYPTION_FAILED when decrypt returns null', async () => {
+        const result = await openEncrypted({ schema: EncryptedSessionMetadataSchema, value: 'garbage' }, decrypt);
+        expect(result).toMatchObject({ ok: false, error: { code: ErrorCodes.DECRYPTION_FAILED } });
+    });
+
+    it('wraps errors thrown by decrypt as DECRYPTION_FAILED', async () => {
+        const cause = new Error('bad key');
+        const result = await openEncrypted({ schema: EncryptedSessionMetadataSchema, value: 'x' }, () => {
+            throw cause;
+        });
+        expect(result).toMatchObject({ ok: false, error: { code: ErrorCodes.DECRYPTION_FAILED, cause } });
+    });
+
+    it('passes DECRYPTION_FAILED AppErrors through unchanged', async () => {
+        const error = new AppError(ErrorCodes.DECRYPTION_FAILED, 'AES-GCM authentication failed');
+        const result = await openEncrypted({ schema: EncryptedSessionMetadataSchema, value: 'x' }, () => {
+            throw error;
+        });
+        expect(!result.ok && result.error).toBe(error);
+    });
+
+    it('fails with VALIDATION_FAILED when the plaintext is not JSON', async () => {
+        const result = await openEncrypted({ schema: EncryptedSessionMetadataSchema, value: 'enc:{not json' }, decrypt);
+        expect(result).toMatchObject({ ok: false, error: { code: ErrorCodes.VALIDATION_FAILED } });
+    });
+
+    it('fails with VALIDATION_FAILED and issues when the plaintext does not match', async () => {
+        const result = await openEncrypted(
+            { schema: EncryptedSessionMetadataSchema, value: encrypt({ host: 'janes-macbook' }) },
+            decrypt
+        );
+        expect(result).toMatchObject({
+            ok: false,
+            error: {
+                code: ErrorCodes.VALIDATION_FAILED,
+                context: { issues: [expect.objectContaining({ path: ['path'] })] },
+            },
+        });
+    });
+});
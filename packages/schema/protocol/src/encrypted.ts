@@ -0,0 +1,231 @@
+/**
+ * Typed encrypted fields
+ *
+ * On the wire every encrypted field is an opaque string: `EncryptedContent.c`,
+ * session `metadata`/`agentState`, machine `metadata`/`daemonState`, artifact
+ * `header`/`body`. `encrypted(schema)` produces a string schema whose output
+ * type remembers what the ciphertext decrypts to, and `openEncrypted`
+ * decrypts, JSON-parses and validates against that plaintext schema in one
+ * step, returning typed data or an `AppError`.
+ *
+ * Typed with `z.ZodType<Output>` only, so it compiles against both Zod 3 and
+ * Zod 4 (the second type parameter means different things in each).
+ *
+ * Decryption itself stays in each client; the protocol package never sees keys.
+ *
+ * @example
+ * ```typescript
+ * import { openEncrypted, EncryptedSessionMetadataSchema } from '@happy/protocol';
+ *
+ * const result = await openEncrypted(
+ *     { schema: EncryptedSessionMetadataSchema, value: update.metadata },
+ *     (ciphertext) => encryption.decryptString(ciphertext)
+ * );
+ * if (result.ok) {
+ *     setSessionMetadata(update.sid, result.data);
+ * } else {
+ *     logger.warn(result.error.toJSON());
+ * }
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { z } from 'zod';
+import { AppError, ErrorCodes } from '@happy/errors';
+import { STRING_LIMITS } from './constraints';
+import {
+    SessionMetadataSchema,
+    AgentStateSchema,
+    MachineMetadataSchema,
+    DaemonStateSchema,
+    MessageContentSchema,
+    ArtifactHeaderSchema,
+    ArtifactBodySchema,
+} from './updates';
+
+// ═══════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════
+
+declare const plaintextType: unique symbol;
+
+/**
+ * Ciphertext string that decrypts to JSON matching `T`
+ *
+ * The plaintext type exists only at compile time; at runtime this is a plain string.
+ */
+export type Encrypted<T> = string & { readonly [plaintextType]: T };
+
+/**
+ * Schema for an encrypted string field, carrying its plaintext schema
+ *
+ * `.nullable()` and `.optional()` keep `plaintext`, so wrapped fields can
+ * still be opened.
+ */
+export type EncryptedSchema<S extends z.ZodType, T = Encrypted<z.output<S>>> = EncryptedSchemaExtensions<S, T> & z.ZodType<T>;
+
+/**
+ * Members `encrypted()` adds to the string schema
+ *
+ * Listed before `z.ZodType` in `EncryptedSchema` so these overloads win.
+ */
+export interface EncryptedSchemaExtensions<S extends z.ZodType, T> {
+    /** Schema the decrypted JSON must satisfy */
+    readonly plaintext: S;
+    nullable(): EncryptedSchema<S, T | null>;
+    optional(): EncryptedSchema<S, T | undefined>;
+}
+
+/**
+ * Decrypts one field into its plaintext JSON text
+ *
+ * Receives the encrypted string exactly as carried by the update. Return
+ * `null` (or throw) when the ciphertext cannot be decrypted. Used by both
+ * `openEncrypted` and `decodeMachineUpdate`.
+ */
+export type DecryptFn = (ciphertext: string) => string | null | Promise<string | null>;
+
+/**
+ * An encrypted value together with the schema describing it
+ *
+ * `value` accepts plain strings so fields of existing update schemas can be
+ * opened directly.
+ */
+export interface EncryptedField<S extends z.ZodType> {
+    schema: Pick<EncryptedSchema<S>, 'plaintext'>;
+    value: Encrypted<z.output<S>> | string;
+}
+
+export type OpenEncryptedResult<T> =
+    | { ok: true; data: T }
+    | { ok: false; error: AppError };
+
+// ═══════════════════════════════════════════════════════════════
+// Combinator
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Declare an encrypted string field whose plaintext satisfies `plaintext`
+ *
+ * Validates only the ciphertext string (length-bounded); the plaintext is
+ * checked by `openEncrypted`.
+ *
+ * @param plaintext - Schema of the decrypted JSON value
+ * @param maxLength - Maximum ciphertext length (default `STRING_LIMITS.CONTENT_MAX`)
+ *
+ * @example
+ * ```typescript
+ * const EncryptedPrefsSchema = encrypted(z.object({ theme: z.enum(['light', 'dark']) }));
+ * type Prefs = z.output<typeof EncryptedPrefsSchema.plaintext>;
+ * ```
+ */
+export function encrypted<S extends z.ZodType>(
+    plaintext: S,
+    maxLength: number = STRING_LIMITS.CONTENT_MAX
+): EncryptedSchema<S> {
+    // Branding is type-only: at runtime this accepts any bounded string.
+    // `z.custom` keeps input and output types equal under both Zod 3 and 4.
+    const ciphertext = z.custom<Encrypted<z.output<S>>>(
+        (value) => typeof value === 'string' && value.length <= maxLength,
+        `Expected a ciphertext string of at most ${maxLength} characters`
+    );
+    return withPlaintext(ciphertext, plaintext);
+}
+
+/**
+ * Attach `plaintext` to `schema` and to the schemas its `.nullable()` and
+ * `.optional()` return
+ */
+function withPlaintext<S extends z.ZodType, T>(schema: z.ZodType<T>, plaintext: S): EncryptedSchema<S, T> {
+    const nullable = schema.nullable.bind(schema);
+    const optional = schema.optional.bind(schema);
+    return Object.assign(schema, {
+        plaintext,
+        nullable: (): EncryptedSchema<S, T | null> => withPlaintext(nullable(), plaintext),
+        optional: (): EncryptedSchema<S, T | undefined> => withPlaintext(optional(), plaintext),
+    });
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Known encrypted fields
+// ═══════════════════════════════════════════════════════════════
+
+/** Session `metadata` (`new-session`, `update-session`) */
+export const EncryptedSessionMetadataSchema = encrypted(SessionMetadataSchema, STRING_LIMITS.ENCRYPTED_STATE_MAX);
+
+/** Session `agentState` (`new-session`, `update-session`) */
+export const EncryptedAgentStateSchema = encrypted(AgentStateSchema, STRING_LIMITS.ENCRYPTED_STATE_MAX);
+
+/** Machine `metadata` (`new-machine`, `update-machine`) */
+export const EncryptedMachineMetadataSchema = encrypted(MachineMetadataSchema, STRING_LIMITS.ENCRYPTED_STATE_MAX);
+
+/** Machine `daemonState` (`new-machine`, `update-machine`) */
+export const EncryptedDaemonStateSchema = encrypted(DaemonStateSchema, STRING_LIMITS.ENCRYPTED_STATE_MAX);
+
+/** Message body: the `c` of `EncryptedContent` */
+export const EncryptedMessageContentSchema = encrypted(MessageContentSchema, STRING_LIMITS.CONTENT_MAX);
+
+/** Artifact `header` (`new-artifact`, `update-artifact`) */
+export const EncryptedArtifactHeaderSchema = encrypted(ArtifactHeaderSchema, STRING_LIMITS.ENCRYPTED_STATE_MAX);
+
+/** Artifact `body` (`new-artifact`, `update-artifact`) */
+export const EncryptedArtifactBodySchema = encrypted(ArtifactBodySchema, STRING_LIMITS.CONTENT_MAX);
+
+// ═══════════════════════════════════════════════════════════════
+// Opening
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Decrypt, JSON-parse and validate an encrypted field
+ *
+ * Never throws. Errors:
+ * - `DECRYPTION_FAILED` if `decryptFn` throws or returns `null`
+ * - `VALIDATION_FAILED` if the plaintext is not JSON or does not match the
+ *   plaintext schema (issues in `context.issues`)
+ */
+export async function openEncrypted<S extends z.ZodType>(
+    field: EncryptedField<S>,
+    decryptFn: DecryptFn
+): Promise<OpenEncryptedResult<z.output<S>>> {
+    let text: string | null;
+    try {
+        text = await decryptFn(field.value);
+    } catch (error) {
+        if (AppError.isAppError(error) && error.code === ErrorCodes.DECRYPTION_FAILED) {
+            return { ok: false, error };
+        }
+        return {
+            ok: false,
+            error: new AppError(ErrorCodes.DECRYPTION_FAILED, 'Failed to decrypt field', {
+                cause: error instanceof Error ? error : undefined,
+            }),
+        };
+    }
+    if (text === null) {
+        return { ok: false, error: new AppError(ErrorCodes.DECRYPTION_FAILED, 'Failed to decrypt field') };
+    }
+
+    let json: unknown;
+    try {
+        json = JSON.parse(text);
+    } catch (error) {
+        return {
+            ok: false,
+            error: new AppError(ErrorCodes.VALIDATION_FAILED, 'Decrypted field is not valid JSON', {
+                cause: error instanceof Error ? error : undefined,
+            }),
+        };
+    }
+
+    const result = field.schema.plaintext.safeParse(json);
+    if (!result.success) {
+        return {
+            ok: false,
+            error: new AppError(ErrorCodes.VALIDATION_FAILED, 'Decrypted field does not match its schema', {
+                context: { issues: result.error.issues },
+            }),
+        };
+    }
+    return { ok: true, data: result.data };
+}
@@ -9,6 +9,7 @@
 
 import { z } from 'zod';
 import { STRING_LIMITS } from '../constraints';
+import { SessionIdSchema, MachineIdSchema, UserIdSchema } from '../ids';
 
 /**
  * Session activity update
@@ -29,7 +30,7 @@ export const ApiEphemeralActivityUpdateSchema = z.object({
      *
      * @see HAP-654 - Standardization of session ID field names
      */
-    sid: z.string().min(1).max(STRING_LIMITS.ID_MAX),
+    sid: SessionIdSchema,
     active: z.boolean(),
     activeAt: z.number(),
     thinking: z.boolean(),
@@ -61,7 +62,7 @@ export const ApiEphemeralUsageUpdateSchema = z.object({
      *
      * @see HAP-654 - Standardization of session ID field names
      */
-    sid: z.string().min(1).max(STRING_LIMITS.ID_MAX),
+    sid: SessionIdSchema,
     key: z.string().min(1).max(STRING_LIMITS.LABEL_MAX), // Usage key/identifier
     timestamp: z.number(),
     tokens: z.record(z.string().max(STRING_LIMITS.LABEL_MAX), z.number()).refine(
@@ -99,7 +100,7 @@ export const ApiEphemeralMachineActivityUpdateSchema = z.object({
      * @see ApiUpdateMachineStateSchema
      * @see ApiEphemeralMachineStatusUpdateSchema
      */
-    machineId: z.string().min(1).max(STRING_LIMITS.ID_MAX),
+    machineId: MachineIdSchema,
     active: z.boolean(),
     activeAt: z.number(),
 });
@@ -129,7 +130,7 @@ export const ApiEphemeralMachineStatusUpdateSchema = z.object({
      * @see ApiUpdateMachineStateSchema
      * @see ApiEphemeralMachineActivityUpdateSchema
      */
-    machineId: z.string().min(1).max(STRING_LIMITS.ID_MAX),
+    machineId: MachineIdSchema,
     online: z.boolean(),
     timestamp: z.number(),
 });
@@ -153,7 +154,7 @@ export const ApiEphemeralMachineDisconnectedUpdateSchema = z.object({
      * @remarks
      * Field name: `machineId` (standardized in HAP-655)
      */
-    machineId: z.string().min(1).max(STRING_LIMITS.ID_MAX),
+    machineId: MachineIdSchema,
     /**
      * Reason for disconnection
      *
@@ -187,7 +188,7 @@ export const ApiEphemeralFriendStatusUpdateSchema = z.object({
      * not the recipient. The event is sent TO friends, containing
      * this user's status.
      */
-    userId: z.string().min(1).max(STRING_LIMITS.ID_MAX),
+    userId: UserIdSchema,
     /**
      * Whether the user is currently online
      *
@@ -20,6 +20,13 @@ import {
     getMachineIdFromEphemeral,
     tryGetMachineId,
     tryGetMachineIdFromEphemeral,
+    // Entity references
+    getEntityRefs,
+    // Branded ID casts for typed fixtures
+    asSessionId,
+    asMachineId,
+    asArtifactId,
+    asUserId,
     // Types
     type SessionIdUpdate,
     type SessionIdEphemeral,
@@ -27,6 +34,7 @@ import {
     type MachineIdEphemeral,
     type ApiUpdate,
     type ApiEphemeralUpdate,
+    type SessionId,
 } from './index';
 
 // =============================================================================
@@ -36,7 +44,7 @@ import {
 // All session updates now use 'sid' field (HAP-654)
 const newSessionUpdate: ApiUpdate = {
     t: 'new-session',
-    sid: 'session-123',
+    sid: asSessionId('session-123'),
     seq: 1,
     metadata: 'encrypted-metadata',
     metadataVersion: 1,
@@ -51,13 +59,13 @@ const newSessionUpdate: ApiUpdate = {
 
 const updateSessionUpdate: ApiUpdate = {
     t: 'update-session',
-    sid: 'session-456',
+    sid: asSessionId('session-456'),
     agentState: { version: 1, value: 'state' },
 };
 
 const newMessageUpdate: ApiUpdate = {
     t: 'new-message',
-    sid: 'session-789',
+    sid: asSessionId('session-789'),
     message: {
         id: 'msg-001',
         seq: 1,
@@ -68,13 +76,20 @@ const newMessageUpdate: ApiUpdate = {
 
 const deleteSessionUpdate: ApiUpdate = {
     t: 'delete-session',
-    sid: 'session-deleted',
+    sid: asSessionId('session-deleted'),
+};
+
+const unarchiveSessionUpdate: ApiUpdate = {
+    t: 'unarchive-session',
+    sid: asSessionId('session-restored'),
+    restoredAt: Date.now(),
+    restoredBy: asUserId('user-1'),
 };
 
 // Machine updates with 'machineId' field
 const newMachineUpdate: ApiUpdate = {
     t: 'new-machine',
-    machineId: 'machine-abc',
+    machineId: asMachineId('machine-abc'),
     seq: 1,
     metadata: 'encrypted-metadata',
     metadataVersion: 1,
@@ -89,22 +104,27 @@ const newMachineUpdate: ApiUpdate = {
 
 const updateMachineUpdate: ApiUpdate = {
     t: 'update-machine',
-    machineId: 'machine-xyz',
+    machineId: asMachineId('machine-xyz'),
     active: true,
     activeAt: Date.now(),
 };
 
+const deleteMachineUpdate: ApiUpdate = {
+    t: 'delete-machine',
+    machineId: asMachineId('machine-deleted'),
+};
+
 // Non-ID updates (for negative tests)
 const accountUpdate: ApiUpdate = {
     t: 'update-account',
-    id: 'user-123',
+    id: asUserId('user-123'),
     firstName: 'Jane',
 };
 
 // Ephemeral updates - session types now use 'sid' (HAP-654)
 const activityEphemeral: ApiEphemeralUpdate = {
     type: 'activity',
-    sid: 'session-activity',
+    sid: asSessionId('session-activity'),
     active: true,
     activeAt: Date.now(),
     thinking: false,
@@ -112,7 +132,7 @@ const activityEphemeral: ApiEphemeralUpdate = {
 
 const usageEphemeral: ApiEphemeralUpdate = {
     type: 'usage',
-    sid: 'session-usage',
+    sid: asSessionId('session-usage'),
     key: 'cost',
     timestamp: Date.now(),
     tokens: { total: 100 },
@@ -122,14 +142,14 @@ const usageEphemeral: ApiEphemeralUpdate = {
 // Machine ephemeral types now use 'machineId' consistently (HAP-655)
 const machineActivityEphemeral: ApiEphemeralUpdate = {
     type: 'machine-activity',
-    machineId: 'machine-activity-id',
+    machineId: asMachineId('machine-activity-id'),
     active: true,
     activeAt: Date.now(),
 };
 
 const machineStatusEphemeral: ApiEphemeralUpdate = {
     type: 'machine-status',
-    machineId: 'machine-status-id',
+    machineId: asMachineId('machine-status-id'),
     online: true,
     timestamp: Date.now(),
 };
@@ -137,7 +157,7 @@ const machineStatusEphemeral: ApiEphemeralUpdate = {
 // HAP-780: Machine disconnected notification
 const machineDisconnectedEphemeral: ApiEphemeralUpdate = {
     type: 'machine-disconnected',
-    machineId: 'machine-disconnected-id',
+    machineId: asMachineId('machine-disconnected-id'),
     reason: 'disconnected_by_user',
     timestamp: Date.now(),
 };
@@ -164,6 +184,10 @@ describe('Session ID Helpers', () => {
             expect(hasSessionId(deleteSessionUpdate)).toBe(true);
         });
 
+        it('returns true for unarchive-session', () => {
+            expect(hasSessionId(unarchiveSessionUpdate)).toBe(true);
+        });
+
         it('returns false for new-machine', () => {
             expect(hasSessionId(newMachineUpdate)).toBe(false);
         });
@@ -265,6 +289,10 @@ describe('Machine ID Helpers', () => {
             expect(hasMachineId(updateMachineUpdate)).toBe(true);
         });
 
+        it('returns true for delete-machine', () => {
+            expect(hasMachineId(deleteMachineUpdate)).toBe(true);
+        });
+
         it('returns false for new-session', () => {
             expect(hasMachineId(newSessionUpdate)).toBe(false);
         });
@@ -308,6 +336,10 @@ describe('Machine ID Helpers', () => {
         it('extracts machineId from update-machine', () => {
             expect(getMachineId(updateMachineUpdate as MachineIdUpdate)).toBe('machine-xyz');
         });
+
+        it('extracts machineId from delete-machine', () => {
+            expect(getMachineId(deleteMachineUpdate as MachineIdUpdate)).toBe('machine-deleted');
+        });
     });
 
     describe('getMachineIdFromEphemeral', () => {
@@ -328,6 +360,7 @@ describe('Machine ID Helpers', () => {
         it('returns machine id for machine updates', () => {
             expect(tryGetMachineId(newMachineUpdate)).toBe('machine-abc');
             expect(tryGetMachineId(updateMachineUpdate)).toBe('machine-xyz');
+            expect(tryGetMachineId(deleteMachineUpdate)).toBe('machine-deleted');
         });
 
         it('returns undefined for non-machine updates', () => {
@@ -450,7 +483,7 @@ describe('Integration Patterns', () => {
 
         const sessionIds = updates
             .map(tryGetSessionId)
-            .filter((id): id is string => id !== undefined);
+            .filter((id): id is SessionId => id !== undefined);
 
         expect(sessionIds).toEqual(['session-123', 'session-789']);
     });
@@ -479,3 +512,86 @@ describe('Integration Patterns', () => {
         ]);
     });
 });
+
+// =============================================================================
+// Entity References
+// =============================================================================
+
+describe('getEntityRefs', () => {
+    it('maps session updates, including archive-session', () => {
+        expect(getEntityRefs(newSessionUpdate)).toEqual([{ kind: 'session', id: 'session-123' }]);
+        expect(getEntityRefs(newMessageUpdate)).toEqual([{ kind: 'session', id: 'session-789' }]);
+        expect(getEntityRefs({
+            t: 'archive-session',
+            sid: asSessionId('session-archived'),
+            archivedAt: Date.now(),
+            archiveReason: 'user_requested',
+        })).toEqual([{ kind: 'session', id: 'session-archived' }]);
+    });
+
+    it('maps machine updates, including delete-machine', () => {
+        expect(getEntityRefs(updateMachineUpdate)).toEqual([{ kind: 'machine', id: 'machine-xyz' }]);
+        expect(getEntityRefs({ t: 'delete-machine', machineId: asMachineId('machine-gone') }))
+            .toEqual([{ kind: 'machine', id: 'machine-gone' }]);
+    });
+
+    it('maps artifact and account updates', () => {
+        expect(getEntityRefs({ t: 'delete-artifact', artifactId: asArtifactId('artifact-1') }))
+            .toEqual([{ kind: 'artifact', id: 'artifact-1' }]);
+        expect(getEntityRefs(accountUpdate)).toEqual([{ kind: 'account', id: 'user-123' }]);
+    });
+
+    it('maps both users of a relationship', () => {
+        expect(getEntityRefs({
+            t: 'relationship-updated',
+            fromUserId: asUserId('user-a'),
+            toUserId: asUserId('user-b'),
+            status: 'friend',
+            action: 'updated',
+            timestamp: Date.now(),
+        })).toEqual([
+            { kind: 'user', id: 'user-a' },
+            { kind: 'user', id: 'user-b' },
+        ]);
+    });
+
+    it('maps feed posts that reference a user', () => {
+        const post = { t: 'new-feed-post' as const, id: 'post-1', cursor: 'c1', createdAt: 1, repeatKey: null, counter: 1 };
+        expect(getEntityRefs({ ...post, body: { kind: 'friend_request', uid: asUserId('user-c') } }))
+            .toEqual([{ kind: 'user', id: 'user-c' }]);
+        expect(getEntityRefs({ ...post, body: { kind: 'text', text: 'Hello' } })).toEqual([]);
+    });
+
+    it('maps every KV key in a batch', () => {
+        expect(getEntityRefs({
+            t: 'kv-batch-update',
+            changes: [
+                { key: 'settings.theme', value: 'dark', version: 2 },
+                { key: 'settings.lang', value: null, version: 3 },
+            ],
+        })).toEqual([
+            { kind: 'kv', id: 'settings.theme' },
+            { kind: 'kv', id: 'settings.lang' },
+        ]);
+    });
+
+    it('maps rotate-key to the rotated entity', () => {
+        expect(getEntityRefs({
+            t: 'rotate-key',
+            entity: { kind: 'machine', id: asMachineId('machine-rotated') },
+            dataEncryptionKey: 'dek',
+            keyVersion: 1,
+            effectiveFromSeq: 0,
+            rotatedAt: 1,
+        })).toEqual([{ kind: 'machine', id: 'machine-rotated' }]);
+    });
+
+    it('maps ephemeral events, including friend-status', () => {
+        expect(getEntityRefs(activityEphemeral)).toEqual([{ kind: 'session', id: 'session-activity' }]);
+        expect(getEntityRefs(usageEphemeral)).toEqual([{ kind: 'session', id: 'session-usage' }]);
+        expect(getEntityRefs(machineDisconnectedEphemeral))
+            .toEqual([{ kind: 'machine', id: 'machine-disconnected-id' }]);
+        expect(getEntityRefs({ type: 'friend-status', userId: asUserId('user-d'), isOnline: true }))
+            .toEqual([{ kind: 'user', id: 'user-d' }]);
+    });
+});
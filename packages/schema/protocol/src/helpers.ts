@@ -3,6 +3,8 @@
  *
  * These helpers centralize the logic for extracting IDs from various update types,
  * handling the field name variations (`id`, `sid`, `machineId`) internally.
+ * `getEntityRefs` covers every update and ephemeral variant, including
+ * artifacts, accounts, users and KV keys.
  *
  * @example
  * ```typescript
@@ -31,13 +33,20 @@ import type {
     ApiUpdateSessionState,
     ApiUpdateNewMessage,
     ApiDeleteSession,
+    ApiArchiveSession,
+    ApiUnarchiveSession,
     ApiEphemeralActivityUpdate,
     ApiEphemeralUsageUpdate,
     ApiNewMachine,
     ApiUpdateMachineState,
+    ApiDeleteMachine,
     ApiEphemeralMachineActivityUpdate,
     ApiEphemeralMachineStatusUpdate,
     ApiEphemeralMachineDisconnectedUpdate,
+    SessionId,
+    MachineId,
+    ArtifactId,
+    UserId,
 } from './index';
 
 // =============================================================================
@@ -48,13 +57,16 @@ import type {
  * Session update types that contain a session ID
  *
  * All session-related schemas now use `sid` for consistency (HAP-654):
- * - `new-session`, `update-session`, `new-message`, `delete-session`: use field `sid`
+ * - `new-session`, `update-session`, `new-message`, `delete-session`,
+ *   `archive-session`, `unarchive-session`: use field `sid`
  */
 export type SessionIdUpdate =
     | ApiUpdateNewSession
     | ApiUpdateSessionState
     | ApiUpdateNewMessage
-    | ApiDeleteSession;
+    | ApiDeleteSession
+    | ApiArchiveSession
+    | ApiUnarchiveSession;
 
 /**
  * Ephemeral update types that contain a session ID
@@ -82,7 +94,14 @@ export type SessionIdEphemeral =
  * ```
  */
 export function hasSessionId(update: ApiUpdate): update is SessionIdUpdate {
-    return ['new-session', 'update-session', 'new-message', 'delete-session'].includes(update.t);
+    return [
+        'new-session',
+        'update-session',
+        'new-message',
+        'delete-session',
+        'archive-session',
+        'unarchive-session',
+    ].includes(update.t);
 }
 
 /**
@@ -120,7 +139,7 @@ export function hasSessionIdEphemeral(update: ApiEphemeralUpdate): update is Ses
  * }
  * ```
  */
-export function getSessionId(update: SessionIdUpdate): string {
+export function getSessionId(update: SessionIdUpdate): SessionId {
     // All session update types now consistently use `sid` (HAP-654)
     return update.sid;
 }
@@ -142,7 +161,7 @@ export function getSessionId(update: SessionIdUpdate): string {
  * }
  * ```
  */
-export function getSessionIdFromEphemeral(update: SessionIdEphemeral): string {
+export function getSessionIdFromEphemeral(update: SessionIdEphemeral): SessionId {
     // All session ephemeral types now consistently use `sid` (HAP-654)
     return update.sid;
 }
@@ -166,7 +185,7 @@ export function getSessionIdFromEphemeral(update: SessionIdEphemeral): string {
  * }
  * ```
  */
-export function tryGetSessionId(update: ApiUpdate): string | undefined {
+export function tryGetSessionId(update: ApiUpdate): SessionId | undefined {
     if (hasSessionId(update)) {
         return getSessionId(update);
     }
@@ -190,7 +209,7 @@ export function tryGetSessionId(update: ApiUpdate): string | undefined {
  * }
  * ```
  */
-export function tryGetSessionIdFromEphemeral(update: ApiEphemeralUpdate): string | undefined {
+export function tryGetSessionIdFromEphemeral(update: ApiEphemeralUpdate): SessionId | undefined {
     if (hasSessionIdEphemeral(update)) {
         return getSessionIdFromEphemeral(update);
     }
@@ -204,9 +223,9 @@ export function tryGetSessionIdFromEphemeral(update: ApiEphemeralUpdate): string
 /**
  * Machine update types that contain a machine ID
  *
- * - `new-machine`, `update-machine`: use field `machineId`
+ * - `new-machine`, `update-machine`, `delete-machine`: use field `machineId`
  */
-export type MachineIdUpdate = ApiNewMachine | ApiUpdateMachineState;
+export type MachineIdUpdate = ApiNewMachine | ApiUpdateMachineState | ApiDeleteMachine;
 
 /**
  * Ephemeral update types that contain a machine ID
@@ -236,7 +255,7 @@ export type MachineIdEphemeral =
  * ```
  */
 export function hasMachineId(update: ApiUpdate): update is MachineIdUpdate {
-    return ['new-machine', 'update-machine'].includes(update.t);
+    return ['new-machine', 'update-machine', 'delete-machine'].includes(update.t);
 }
 
 /**
@@ -260,7 +279,7 @@ export function hasMachineIdEphemeral(update: ApiEphemeralUpdate): update is Mac
 /**
  * Extract machine ID from a persistent update
  *
- * Both `new-machine` and `update-machine` use the `machineId` field.
+ * `new-machine`, `update-machine` and `delete-machine` all use the `machineId` field.
  *
  * @param update - A MachineIdUpdate (use hasMachineId type guard first)
  * @returns The machine ID string
@@ -274,10 +293,11 @@ export function hasMachineIdEphemeral(update: ApiEphemeralUpdate): update is Mac
  * }
  * ```
  */
-export function getMachineId(update: MachineIdUpdate): string {
+export function getMachineId(update: MachineIdUpdate): MachineId {
     switch (update.t) {
         case 'new-machine':
         case 'update-machine':
+        case 'delete-machine':
             return update.machineId;
         default: {
             const _exhaustive: never = update;
@@ -303,7 +323,7 @@ export function getMachineId(update: MachineIdUpdate): string {
  * }
  * ```
  */
-export function getMachineIdFromEphemeral(update: MachineIdEphemeral): string {
+export function getMachineIdFromEphemeral(update: MachineIdEphemeral): MachineId {
     // All machine ephemeral types now consistently use `machineId` (HAP-655)
     return update.machineId;
 }
@@ -325,7 +345,7 @@ export function getMachineIdFromEphemeral(update: MachineIdEphemeral): string {
  * }
  * ```
  */
-export function tryGetMachineId(update: ApiUpdate): string | undefined {
+export function tryGetMachineId(update: ApiUpdate): MachineId | undefined {
     if (hasMachineId(update)) {
         return getMachineId(update);
     }
@@ -349,9 +369,106 @@ export function tryGetMachineId(update: ApiUpdate): string | undefined {
  * }
  * ```
  */
-export function tryGetMachineIdFromEphemeral(update: ApiEphemeralUpdate): string | undefined {
+export function tryGetMachineIdFromEphemeral(update: ApiEphemeralUpdate): MachineId | undefined {
     if (hasMachineIdEphemeral(update)) {
         return getMachineIdFromEphemeral(update);
     }
     return undefined;
 }
+
+// =============================================================================
+// ENTITY REFERENCE HELPERS
+// =============================================================================
+
+/**
+ * Reference to an entity touched by an update or ephemeral event
+ *
+ * - `session`, `machine`, `artifact`: the entity with that ID
+ * - `account`: the current user's own account
+ * - `user`: another user (relationships, friend status, feed)
+ * - `kv`: a key in the user's KV store
+ */
+export type EntityRef =
+    | { kind: 'session'; id: SessionId }
+    | { kind: 'machine'; id: MachineId }
+    | { kind: 'artifact'; id: ArtifactId }
+    | { kind: 'account'; id: UserId }
+    | { kind: 'user'; id: UserId }
+    | { kind: 'kv'; id: string };
+
+export type EntityKind = EntityRef['kind'];
+
+/**
+ * List every entity an update or ephemeral event refers to
+ *
+ * Covers every `ApiUpdate` and `ApiEphemeralUpdate` variant. Adding a variant
+ * without mapping it here is a compile error.
+ *
+ * @param update - Any ApiUpdate or ApiEphemeralUpdate
+ * @returns Entity references, in field order (empty if the event refers to none)
+ *
+ * @example
+ * ```typescript
+ * for (const ref of getEntityRefs(update)) {
+ *     cache.invalidate(ref.kind, ref.id);
+ * }
+ * ```
+ */
+export function getEntityRefs(update: ApiUpdate | ApiEphemeralUpdate): EntityRef[] {
+    return 't' in update ? getUpdateEntityRefs(update) : getEphemeralEntityRefs(update);
+}
+
+function getUpdateEntityRefs(update: ApiUpdate): EntityRef[] {
+    switch (update.t) {
+        case 'new-session':
+        case 'update-session':
+        case 'new-message':
+        case 'delete-session':
+        case 'archive-session':
+        case 'unarchive-session':
+            return [{ kind: 'session', id: update.sid }];
+        case 'new-machine':
+        case 'update-machine':
+        case 'delete-machine':
+            return [{ kind: 'machine', id: update.machineId }];
+        case 'new-artifact':
+        case 'update-artifact':
+        case 'delete-artifact':
+            return [{ kind: 'artifact', id: update.artifactId }];
+        case 'update-account':
+            return [{ kind: 'account', id: update.id }];
+        case 'relationship-updated':
+            return [
+                { kind: 'user', id: update.fromUserId },
+                { kind: 'user', id: update.toUserId },
+            ];
+        case 'new-feed-post':
+            return update.body.kind === 'text' ? [] : [{ kind: 'user', id: update.body.uid }];
+        case 'kv-batch-update':
+            return update.changes.map((change) => ({ kind: 'kv', id: change.key }));
+        case 'rotate-key':
+            return [update.entity];
+        default: {
+            const _exhaustive: never = update;
+            throw new Error(`Unknown update type: ${(_exhaustive as ApiUpdate).t}`);
+        }
+    }
+}
+
+function getEphemeralEntityRefs(update: ApiEphemeralUpdate): EntityRef[] {
+    switch (update.type) {
+        case 'activity':
+        case 'usage':
+            return [{ kind: 'session', id: update.sid }];
+        case 'machine-activity':
+        case 'machine-status':
+        case 'machine-disconnected':
+            return [{ kind: 'machine', id: update.machineId }];
+        case 'friend-status':
+            return [{ kind: 'user', id: update.userId }];
+        default: {
+            const _exhaustive: never = update;
+            throw new Error(`Unknown ephemeral type: ${(_exhaustive as ApiEphemeralUpdate).type}`);
+        }
+    }
+}
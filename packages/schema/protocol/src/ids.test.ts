@@ -0,0 +1,57 @@
+/**
+ * Tests for branded entity ID schemas
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    SessionIdSchema,
+    MachineIdSchema,
+    ShareIdSchema,
+    InvitationIdSchema,
+    ApiUpdateSchema,
+    getSessionId,
+    asSessionId,
+    asMachineId,
+    type SessionId,
+    type MachineId,
+    type SessionIdUpdate,
+} from './index';
+
+describe('branded ID schemas', () => {
+    it('validate like plain bounded strings', () => {
+        expect(SessionIdSchema.safeParse('session-1').success).toBe(true);
+        expect(SessionIdSchema.safeParse('').success).toBe(false);
+        expect(MachineIdSchema.safeParse('x'.repeat(1000)).success).toBe(false);
+    });
+
+    it('require UUIDs for share and invitation IDs', () => {
+        expect(ShareIdSchema.safeParse('550e8400-e29b-41d4-a716-446655440000').success).toBe(true);
+        expect(InvitationIdSchema.safeParse('not-a-uuid').success).toBe(false);
+    });
+
+    it('keep the runtime value a plain string', () => {
+        const sid = SessionIdSchema.parse('session-1');
+        expect(typeof sid).toBe('string');
+        expect(sid).toBe('session-1');
+    });
+});
+
+describe('branded IDs at compile time', () => {
+    it('brands IDs parsed through update schemas', () => {
+        const update = ApiUpdateSchema.parse({ t: 'delete-session', sid: 'session-1' }) as SessionIdUpdate;
+        const sid: SessionId = getSessionId(update);
+        expect(sid).toBe('session-1');
+    });
+
+    it('rejects mixing session and machine IDs', () => {
+        const openSession = (id: SessionId) => id;
+        const machineId: MachineId = asMachineId('machine-1');
+
+        // @ts-expect-error - a MachineId is not a SessionId
+        openSession(machineId);
+        // @ts-expect-error - plain strings must be parsed or cast first
+        openSession('session-1');
+
+        expect(openSession(asSessionId('session-1'))).toBe('session-1');
+    });
+});
@@ -0,0 +1,105 @@
+/**
+ * Branded entity ID schemas
+ *
+ * Session, machine, artifact and user IDs are all plain strings on the wire,
+ * which made it easy to pass one where another was expected (HAP-654,
+ * HAP-655). Each ID schema carries a Zod brand, so a `MachineId` is not
+ * assignable to a `SessionId` at compile time while the runtime value stays
+ * an ordinary string.
+ *
+ * Values parsed through the protocol schemas are branded automatically. Use
+ * the `as*` helpers only for IDs from trusted sources that did not go through
+ * a schema (route params, local storage, tests).
+ *
+ * @example
+ * ```typescript
+ * import { SessionIdSchema, type SessionId, type MachineId } from '@happy/protocol';
+ *
+ * function openSession(id: SessionId) { ... }
+ *
+ * const sid = SessionIdSchema.parse(params.sid);
+ * openSession(sid);           // OK
+ * openSession(machineId);     // Compile error: MachineId is not SessionId
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { z } from 'zod';
+import { STRING_LIMITS } from './constraints';
+
+/**
+ * Session ID (`sid` in updates and ephemerals)
+ */
+export const SessionIdSchema = z.string().min(1).max(STRING_LIMITS.ID_MAX).brand<'SessionId'>();
+
+export type SessionId = z.infer<typeof SessionIdSchema>;
+
+/**
+ * Machine ID (`machineId` in updates and ephemerals)
+ */
+export const MachineIdSchema = z.string().min(1).max(STRING_LIMITS.ID_MAX).brand<'MachineId'>();
+
+export type MachineId = z.infer<typeof MachineIdSchema>;
+
+/**
+ * Artifact ID
+ */
+export const ArtifactIdSchema = z.string().min(1).max(STRING_LIMITS.ID_MAX).brand<'ArtifactId'>();
+
+export type ArtifactId = z.infer<typeof ArtifactIdSchema>;
+
+/**
+ * User (account) ID
+ */
+export const UserIdSchema = z.string().min(1).max(STRING_LIMITS.ID_MAX).brand<'UserId'>();
+
+export type UserId = z.infer<typeof UserIdSchema>;
+
+/**
+ * Session share entry ID (UUID)
+ */
+export const ShareIdSchema = z.string().uuid().brand<'ShareId'>();
+
+export type ShareId = z.infer<typeof ShareIdSchema>;
+
+/**
+ * Session share invitation ID (UUID)
+ */
+export const InvitationIdSchema = z.string().uuid().brand<'InvitationId'>();
+
+export type InvitationId = z.infer<typeof InvitationIdSchema>;
+
+// ═══════════════════════════════════════════════════════════════
+// Unchecked casts
+// ═══════════════════════════════════════════════════════════════
+
+/** Brand a trusted string as a `SessionId` without validation */
+export function asSessionId(id: string): SessionId {
+    return id as SessionId;
+}
+
+/** Brand a trusted string as a `MachineId` without validation */
+export function asMachineId(id: string): MachineId {
+    return id as MachineId;
+}
+
+/** Brand a trusted string as an `ArtifactId` without validation */
+export function asArtifactId(id: string): ArtifactId {
+    return id as ArtifactId;
+}
+
+/** Brand a trusted string as a `UserId` without validation */
+export function asUserId(id: string): UserId {
+    return id as UserId;
+}
+
+/** Brand a trusted string as a `ShareId` without validation */
+export function asShareId(id: string): ShareId {
+    return id as ShareId;
+}
+
+/** Brand a trusted string as an `InvitationId` without validation */
+export function asInvitationId(id: string): InvitationId {
+    return id as InvitationId;
+}
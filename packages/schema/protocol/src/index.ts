@@ -31,6 +31,9 @@
 // Validation constraints (security-focused limits)
 export * from './constraints';
 
+// Branded entity ID schemas (SessionId, MachineId, ...)
+export * from './ids';
+
 // Common types used across the protocol
 export * from './common';
 
@@ -43,12 +46,63 @@ export * from './ephemeral';
 // Payload wrapper schemas
 export * from './payloads';
 
+// Forward-compatible parsing (tolerates update types newer than the client)
+export * from './parsing';
+
+// RPC envelopes and shared method contracts
+export * from './rpc';
+
+// Typed WebSocket event maps (event name -> payload schema)
+export * from './socket';
+
 // MCP state schemas for CLI-to-App sync
 export * from './mcp';
 
 // Type-safe accessor helpers for session and machine IDs
 export * from './helpers';
 
+// Typed decode helpers for encrypted update fields
+export * from './decode';
+
+// Typed encrypted fields: decrypt, parse and validate in one step
+export * from './encrypted';
+
+// Canonical signing input for author signatures
+export * from './signature';
+
+// Pure reducer folding update containers into a normalized client store
+export * from './reducer';
+
+// Seq gap detection and "fetch updates since seq" contract
+export * from './seqTracker';
+
+// Compare-and-set contract for versioned writes
+export * from './concurrency';
+
+// Typed, exhaustive update and ephemeral dispatchers
+export * from './router';
+
+// Typed builders for every update and ephemeral variant
+export * from './builders';
+
+// Connection scopes and recipient routing rules
+export * from './routing';
+
+// WebSocket protocol version and capability negotiation
+export * from './version';
+
+// WebSocket auth handshake, connected/error messages and close codes
+export * from './connection';
+
+// Heartbeat timings and presence computation
+export * from './presence';
+
+// Machine presence state machine
+export * from './machinePresence';
+
+// Session lifecycle state machine
+export * from './sessionLifecycle';
+
 // Usage limits schemas for plan and rate limiting data
 export * from './usageLimits';
 
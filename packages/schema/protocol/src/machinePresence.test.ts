@@ -0,0 +1,200 @@
+/**
+ * Tests for machine presence aggregation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    MachinePresenceTracker,
+    isMachinePresenceEvent,
+    asMachineId,
+    asSessionId,
+    PRESENCE_TIMEOUT_MS,
+    IDLE_TIMEOUT_MS,
+    type MachinePresenceChange,
+    type MachinePresenceEvent,
+} from './index';
+
+const MACHINE = asMachineId('machine-1');
+const NOW = 1_000_000_000;
+
+function status(online: boolean, timestamp: number): MachinePresenceEvent {
+    return { type: 'machine-status', machineId: MACHINE, online, timestamp };
+}
+
+function activity(active: boolean, activeAt: number): MachinePresenceEvent {
+    return { type: 'machine-activity', machineId: MACHINE, active, activeAt };
+}
+
+function disconnected(timestamp: number): MachinePresenceEvent {
+    return { type: 'machine-disconnected', machineId: MACHINE, reason: 'disconnected_by_user', timestamp };
+}
+
+function newMachine(createdAt: number): MachinePresenceEvent {
+    return {
+        t: 'new-machine',
+        machineId: MACHINE,
+        seq: 1,
+        metadata: 'm',
+        metadataVersion: 1,
+        daemonState: null,
+        daemonStateVersion: 0,
+        dataEncryptionKey: null,
+        active: true,
+        activeAt: createdAt,
+        createdAt,
+        updatedAt: createdAt,
+    };
+}
+
+function permutations<T>(items: T[]): T[][] {
+    if (items.length <= 1) {
+        return [items];
+    }
+    return items.flatMap((item, index) =>
+        permutations([...items.slice(0, index), ...items.slice(index + 1)]).map((rest) => [item, ...rest])
+    );
+}
+
+function finalState(events: MachinePresenceEvent[], now = NOW) {
+    const tracker = new MachinePresenceTracker();
+    for (const event of events) {
+        tracker.apply(event, now);
+    }
+    return tracker.getState(MACHINE);
+}
+
+describe('MachinePresenceTracker', () => {
+    it('is online-active with fresh status and activity', () => {
+        expect(finalState([status(true, NOW - 1_000), activity(true, NOW - 500)])).toBe('online-active');
+    });
+
+    it('is online-idle when activity is stale or reported inactive', () => {
+        expect(finalState([status(true, NOW - 1_000), activity(true, NOW - IDLE_TIMEOUT_MS - 1)])).toBe('online-idle');
+        expect(finalState([activity(true, NOW - 2_000), activity(false, NOW - 1_000)])).toBe('online-idle');
+    });
+
+    it('is offline when reported offline after the last sign of life', () => {
+        expect(finalState([activity(true, NOW - 2_000), status(false, NOW - 1_000)])).toBe('offline');
+    });
+
+    it('goes offline when heartbeats stop', () => {
+        const tracker = new MachinePresenceTracker();
+        tracker.apply(activity(true, NOW), NOW);
+        expect(tracker.getState(MACHINE)).toBe('online-active');
+        tracker.tick(NOW + PRESENCE_TIMEOUT_MS + 1);
+        expect(tracker.getState(MACHINE)).toBe('offline');
+    });
+
+    it('treats machine-disconnected as terminal for older signs of life', () => {
+        expect(finalState([disconnected(NOW - 1_000), activity(true, NOW - 2_000)])).toBe('disconnected-by-user');
+        expect(finalState([disconnected(NOW - 1_000), status(true, NOW - 500)])).toBe('online-idle');
+    });
+
+    it('stays deleted after delete-machine', () => {
+        expect(
+            finalState([
+                { t: 'delete-machine', machineId: MACHINE },
+                status(true, NOW),
+                activity(true, NOW),
+            ])
+        ).toBe('deleted');
+    });
+
+    it('reads liveness from new-machine and update-machine', () => {
+        const registered = newMachine(NOW - 1_000);
+        expect(finalState([registered])).toBe('online-idle');
+        expect(finalState([registered, { t: 'update-machine', machineId: MACHINE, active: false, activeAt: NOW }])).toBe(
+            'offline'
+        );
+    });
+
+    it('starts over when a deleted machine ID is registered again', () => {
+        const deleted: MachinePresenceEvent = { t: 'delete-machine', machineId: MACHINE };
+        expect(finalState([newMachine(NOW - 5_000), status(true, NOW - 4_000), deleted, newMachine(NOW - 1_000)]))
+            .toBe('online-idle');
+        expect(finalState([deleted, newMachine(NOW - 1_000)])).toBe('online-idle');
+        // A redelivered registration from before the delete does not revive it
+        expect(finalState([newMachine(NOW - 5_000), deleted, newMachine(NOW - 5_000)])).toBe('deleted');
+        // Only the new lifetime's evidence counts
+        expect(finalState([newMachine(NOW - 5_000), disconnected(NOW - 500), deleted, newMachine(NOW - 1_000)]))
+            .toBe('online-idle');
+    });
+
+    it('forgets a machine', () => {
+        const tracker = new MachinePresenceTracker();
+        tracker.apply({ t: 'delete-machine', machineId: MACHINE }, NOW);
+        expect(tracker.forget(MACHINE)).toBe(true);
+        expect(tracker.getState(MACHINE)).toBeUndefined();
+        expect(tracker.getStates().size).toBe(0);
+        expect(tracker.forget(MACHINE)).toBe(false);
+        tracker.apply(status(true, NOW), NOW);
+        expect(tracker.getState(MACHINE)).toBe('online-idle');
+    });
+
+    it('reaches the same state regardless of arrival order', () => {
+        const scenarios: MachinePresenceEvent[][] = [
+            [status(true, NOW - 3_000), activity(true, NOW - 2_000), status(false, NOW - 2_000), activity(true, NOW - 1_000)],
+            [activity(true, NOW - 1_000), activity(false, NOW - 1_000), status(true, NOW - 500), disconnected(NOW - 2_000)],
+            [disconnected(NOW - 1_000), status(true, NOW - 1_000), activity(true, NOW - 5_000)],
+        ];
+        for (const events of scenarios) {
+            const states = new Set(permutations(events).map((order) => finalState(order)));
+            expect(states.size).toBe(1);
+        }
+    });
+
+    it('notifies listeners only on changes', () => {
+        const tracker = new MachinePresenceTracker();
+        const changes: MachinePresenceChange[] = [];
+        const unsubscribe = tracker.subscribe((change) => changes.push(change));
+
+        tracker.apply(activity(true, NOW), NOW);
+        tracker.apply(activity(true, NOW + 1_000), NOW + 1_000);
+        tracker.apply(disconnected(NOW + 2_000), NOW + 2_000);
+        unsubscribe();
+        tracker.apply({ t: 'delete-machine', machineId: MACHINE }, NOW + 3_000);
+
+        expect(changes).toEqual([
+            { machineId: MACHINE, previous: undefined, current: 'online-active' },
+            { machineId: MACHINE, previous: 'online-active', current: 'disconnected-by-user' },
+        ]);
+        expect(tracker.getStates().get(MACHINE)).toBe('deleted');
+    });
+
+    it('keeps notifying and reports the error when a listener throws', () => {
+        const failure = new Error('listener failed');
+        const reported: unknown[] = [];
+        const tracker = new MachinePresenceTracker({ onListenerError: (error) => reported.push(error) });
+        const changes: MachinePresenceChange[] = [];
+        tracker.subscribe(() => {
+            throw failure;
+        });
+        tracker.subscribe((change) => changes.push(change));
+
+        expect(() => tracker.apply(activity(true, NOW), NOW)).not.toThrow();
+        expect(changes).toHaveLength(1);
+        expect(reported).toEqual([failure]);
+        expect(tracker.getState(MACHINE)).toBe('online-active');
+    });
+
+    it('survives an error reporter that throws', () => {
+        const tracker = new MachinePresenceTracker({
+            onListenerError: () => {
+                throw new Error('reporter failed');
+            },
+        });
+        tracker.subscribe(() => {
+            throw new Error('listener failed');
+        });
+        expect(() => tracker.apply(activity(true, NOW), NOW)).not.toThrow();
+    });
+});
+
+describe('isMachinePresenceEvent', () => {
+    it('selects machine events only', () => {
+        expect(isMachinePresenceEvent(status(true, NOW))).toBe(true);
+        expect(isMachinePresenceEvent({ t: 'delete-machine', machineId: MACHINE })).toBe(true);
+        expect(isMachinePresenceEvent({ t: 'delete-session', sid: asSessionId('session-1') })).toBe(false);
+        expect(isMachinePresenceEvent({ type: 'activity', sid: asSessionId('session-1'), active: true, activeAt: NOW, thinking: false })).toBe(false);
+    });
+});
@@ -0,0 +1,326 @@
+/**
+ * Machine presence aggregation
+ *
+ * Six events describe the same machine: the `machine-activity`,
+ * `machine-status` and `machine-disconnected` ephemerals and the
+ * `new-machine`, `update-machine` and `delete-machine` updates.
+ * `MachinePresenceTracker` folds them into one state per machine:
+ *
+ * - `online-active`: heartbeats arriving and recently active
+ * - `online-idle`: heartbeats arriving, not recently active
+ * - `offline`: reported offline, or heartbeats stopped (see `computePresence`)
+ * - `disconnected-by-user`: `machine-disconnected` newer than any sign of life
+ * - `deleted`: `delete-machine` seen; terminal until the ID is registered again
+ *
+ * Every event only raises a "latest seen" timestamp (or sets the deleted
+ * flag), and ties resolve towards the less alive state, so the result does
+ * not depend on the order events arrive in. The one exception is a machine
+ * re-registered under a deleted ID: a `new-machine` applied after the
+ * `delete-machine`, and created later than any `new-machine` seen before,
+ * starts a new lifetime with fresh evidence. Updates are sequenced, so feed
+ * them in seq order (e.g. through `SeqTracker`) for this to hold.
+ *
+ * Deleted machines stay in the tracker until `forget` removes them.
+ *
+ * @example
+ * ```typescript
+ * import { MachinePresenceTracker, isMachinePresenceEvent } from '@happy/protocol';
+ *
+ * const presence = new MachinePresenceTracker();
+ * presence.subscribe(({ machineId, current }) => renderMachineBadge(machineId, current));
+ *
+ * socket.on('ephemeral', (event) => {
+ *     if (isMachinePresenceEvent(event)) presence.apply(event, Date.now());
+ * });
+ * setInterval(() => presence.tick(Date.now()), HEARTBEAT_INTERVAL_MS);
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { z } from 'zod';
+import type { MachineId } from './ids';
+import type { ApiUpdate } from './updates';
+import type { ApiEphemeralUpdate } from './ephemeral';
+import { computePresence } from './presence';
+
+// ═══════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════
+
+export const MachinePresenceStateSchema = z.enum([
+    'online-active',
+    'online-idle',
+    'offline',
+    'disconnected-by-user',
+    'deleted',
+]);
+
+export type MachinePresenceState = z.infer<typeof MachinePresenceStateSchema>;
+
+/**
+ * Updates and ephemerals that affect machine presence
+ */
+export type MachinePresenceEvent =
+    | Extract<ApiUpdate, { t: 'new-machine' | 'update-machine' | 'delete-machine' }>
+    | Extract<ApiEphemeralUpdate, { type: 'machine-activity' | 'machine-status' | 'machine-disconnected' }>;
+
+export interface MachinePresenceChange {
+    machineId: MachineId;
+    /** `undefined` the first time a machine is seen */
+    previous: MachinePresenceState | undefined;
+    current: MachinePresenceState;
+}
+
+export type MachinePresenceListener = (change: MachinePresenceChange) => void;
+
+export interface MachinePresenceTrackerOptions {
+    /**
+     * Called when a listener throws; the remaining listeners are still
+     * notified and the error never reaches the `apply`/`tick` caller
+     */
+    onListenerError?: (error: unknown, change: MachinePresenceChange) => void;
+}
+
+/**
+ * Latest evidence seen for one machine (ms timestamps)
+ */
+interface MachineEvidence {
+    /** Latest sign of life */
+    aliveAt: number | null;
+    /** Latest report of going offline */
+    offlineAt: number | null;
+    /** Latest activity report, with its value */
+    activity: { at: number; active: boolean } | null;
+    /** Latest user-initiated disconnect */
+    disconnectedAt: number | null;
+    /** Latest `new-machine` creation time */
+    createdAt: number | null;
+    deleted: boolean;
+}
+
+/**
+ * Type guard: checks if an update or ephemeral affects machine presence
+ */
+export function isMachinePresenceEvent(update: ApiUpdate | ApiEphemeralUpdate): update is MachinePresenceEvent {
+    if ('t' in update) {
+        return update.t === 'new-machine' || update.t === 'update-machine' || update.t === 'delete-machine';
+    }
+    return (
+        update.type === 'machine-activity' ||
+        update.type === 'machine-status' ||
+        update.type === 'machine-disconnected'
+    );
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Tracker
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Folds machine events into a presence state per machine
+ *
+ * States are re-evaluated on every `apply` and `tick`; listeners are called
+ * only when a machine's state actually changes. The tracker does no I/O and
+ * reads no clock: callers pass `now`.
+ */
+export class MachinePresenceTracker {
+    private readonly evidence = new Map<MachineId, MachineEvidence>();
+    private readonly current = new Map<MachineId, MachinePresenceState>();
+    private readonly listeners = new Set<MachinePresenceListener>();
+
+    constructor(private readonly options: MachinePresenceTrackerOptions = {}) {}
+
+    /**
+     * Record one event and re-evaluate that machine
+     */
+    apply(event: MachinePresenceEvent, now: number): void {
+        let evidence = this.evidenceFor(event.machineId);
+        if ('t' in event) {
+            switch (event.t) {
+                case 'new-machine':
+                    if (evidence.deleted && (evidence.createdAt === null || event.createdAt > evidence.createdAt)) {
+                        // Re-registered under the deleted ID: start over
+                        evidence = emptyEvidence();
+                        this.evidence.set(event.machineId, evidence);
+                    }
+                    evidence.createdAt = latest(evidence.createdAt, event.createdAt);
+                    recordLiveness(evidence, event.active, event.activeAt);
+                    break;
+                case 'update-machine':
+                    if (event.activeAt !== undefined) {
+                        recordLiveness(evidence, event.active ?? true, event.activeAt);
+                    }
+                    break;
+                case 'delete-machine':
+                    evidence.deleted = true;
+                    break;
+                default: {
+                    const _exhaustive: never = event;
+                    throw new Error(`Unknown update type: ${(_exhaustive as ApiUpdate).t}`);
+                }
+            }
+        } else {
+            switch (event.type) {
+                case 'machine-status':
+                    recordLiveness(evidence, event.online, event.timestamp);
+                    break;
+                case 'machine-activity':
+                    evidence.aliveAt = latest(evidence.aliveAt, event.activeAt);
+                    evidence.activity = latestActivity(evidence.activity, { at: event.activeAt, active: event.active });
+                    break;
+                case 'machine-disconnected':
+                    evidence.disconnectedAt = latest(evidence.disconnectedAt, event.timestamp);
+                    break;
+                default: {
+                    const _exhaustive: never = event;
+                    throw new Error(`Unknown ephemeral type: ${(_exhaustive as ApiEphemeralUpdate).type}`);
+                }
+            }
+        }
+        this.evaluate(event.machineId, evidence, now);
+    }
+
+    /**
+     * Re-evaluate every machine, e.g. to notice heartbeats timing out
+     */
+    tick(now: number): void {
+        for (const [machineId, evidence] of this.evidence) {
+            this.evaluate(machineId, evidence, now);
+        }
+    }
+
+    /**
+     * State as of the last `apply` or `tick`, or `undefined` for unknown machines
+     */
+    getState(machineId: MachineId): MachinePresenceState | undefined {
+        return this.current.get(machineId);
+    }
+
+    /**
+     * States of all known machines as of the last `apply` or `tick`
+     */
+    getStates(): ReadonlyMap<MachineId, MachinePresenceState> {
+        return this.current;
+    }
+
+    /**
+     * Drop everything known about a machine, e.g. some time after it was
+     * deleted
+     *
+     * Listeners are not notified. A later event for the ID starts from
+     * scratch.
+     *
+     * @returns Whether the machine was known
+     */
+    forget(machineId: MachineId): boolean {
+        this.current.delete(machineId);
+        return this.evidence.delete(machineId);
+    }
+
+    /**
+     * Listen for state changes
+     *
+     * @returns Function that removes the listener
+     */
+    subscribe(listener: MachinePresenceListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    private evidenceFor(machineId: MachineId): MachineEvidence {
+        let evidence = this.evidence.get(machineId);
+        if (!evidence) {
+            evidence = emptyEvidence();
+            this.evidence.set(machineId, evidence);
+        }
+        return evidence;
+    }
+
+    private evaluate(machineId: MachineId, evidence: MachineEvidence, now: number): void {
+        const next = derivePresenceState(evidence, now);
+        const previous = this.current.get(machineId);
+        if (previous === next) {
+            return;
+        }
+        this.current.set(machineId, next);
+        const change: MachinePresenceChange = { machineId, previous, current: next };
+        for (const listener of this.listeners) {
+            try {
+                listener(change);
+            } catch (error) {
+                try {
+                    this.options.onListenerError?.(error, change);
+                } catch {
+                    // A failing error reporter must not abort the notification
+                }
+            }
+        }
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Internal helpers
+// ═══════════════════════════════════════════════════════════════
+
+function emptyEvidence(): MachineEvidence {
+    return { aliveAt: null, offlineAt: null, activity: null, disconnectedAt: null, createdAt: null, deleted: false };
+}
+
+function derivePresenceState(evidence: MachineEvidence, now: number): MachinePresenceState {
+    if (evidence.deleted) {
+        return 'deleted';
+    }
+    if (evidence.disconnectedAt !== null && (evidence.aliveAt === null || evidence.disconnectedAt >= evidence.aliveAt)) {
+        return 'disconnected-by-user';
+    }
+    const presence = computePresence(
+        {
+            lastAliveAt: evidence.aliveAt,
+            lastActiveAt: evidence.activity?.at ?? null,
+            active: evidence.activity?.active ?? null,
+            disconnectedAt: evidence.offlineAt,
+        },
+        now
+    );
+    switch (presence) {
+        case 'online':
+            return 'online-active';
+        case 'idle':
+            return 'online-idle';
+        case 'offline':
+            return 'offline';
+        default: {
+            const _exhaustive: never = presence;
+            throw new Error(`Unknown presence status: ${String(_exhaustive)}`);
+        }
+    }
+}
+
+function recordLiveness(evidence: MachineEvidence, online: boolean, at: number): void {
+    if (online) {
+        evidence.aliveAt = latest(evidence.aliveAt, at);
+    } else {
+        evidence.offlineAt = latest(evidence.offlineAt, at);
+    }
+}
+
+function latest(current: number | null, at: number): number {
+    return current === null ? at : Math.max(current, at);
+}
+
+/** Newest activity report wins; on equal timestamps inactive wins */
+function latestActivity(
+    current: MachineEvidence['activity'],
+    incoming: { at: number; active: boolean }
+): MachineEvidence['activity'] {
+    if (current === null || incoming.at > current.at) {
+        return incoming;
+    }
+    if (incoming.at === current.at && !incoming.active) {
+        return incoming;
+    }
+    return current;
+}
@@ -0,0 +1,164 @@
+/**
+ * Tests for forward-compatible update parsing
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    parseUpdateContainer,
+    parseEphemeralUpdate,
+    isKnownUpdateType,
+    isKnownEphemeralType,
+    parseMessageContent,
+    isKnownAgentContentType,
+    isKnownSessionEventType,
+} from './index';
+
+const container = (body: unknown) => ({
+    id: 'upd-1',
+    seq: 42,
+    createdAt: 1700000000000,
+    body,
+});
+
+describe('parseUpdateContainer', () => {
+    it('returns known updates fully typed', () => {
+        const parsed = parseUpdateContainer(container({ t: 'delete-session', sid: 'session-1' }));
+        expect(parsed).toEqual({
+            kind: 'known',
+            id: 'upd-1',
+            seq: 42,
+            createdAt: 1700000000000,
+            update: { t: 'delete-session', sid: 'session-1' },
+        });
+    });
+
+    it('returns unknown update types with seq and raw body', () => {
+        const body = { t: 'future-update', payload: { nested: true } };
+        const parsed = parseUpdateContainer(container(body));
+        expect(parsed).toEqual({
+            kind: 'unknown',
+            id: 'upd-1',
+            seq: 42,
+            createdAt: 1700000000000,
+            t: 'future-update',
+            raw: body,
+        });
+    });
+
+    it('strips prototype pollution keys from the raw body', () => {
+        const raw = JSON.parse('{"t":"future-update","__proto__":{"polluted":true},"constructor":1,"ok":2}');
+        const parsed = parseUpdateContainer(container(raw));
+        expect(parsed).toMatchObject({ kind: 'unknown', raw: { t: 'future-update', ok: 2 } });
+        const body = (parsed as { raw: object }).raw;
+        expect(Object.keys(body)).toEqual(['t', 'ok']);
+    });
+
+    it('reports known types with invalid payloads as invalid, keeping seq', () => {
+        const parsed = parseUpdateContainer(container({ t: 'delete-session' }));
+        expect(parsed).toMatchObject({ kind: 'invalid', seq: 42 });
+    });
+
+    it('reports malformed envelopes as invalid without seq', () => {
+        const parsed = parseUpdateContainer({ id: 'upd-1', body: { t: 'delete-session', sid: 's' } });
+        expect(parsed.kind).toBe('invalid');
+        expect(parsed).not.toHaveProperty('seq');
+    });
+
+    it('reports bodies without a discriminator as invalid', () => {
+        expect(parseUpdateContainer(container({ sid: 'session-1' })).kind).toBe('invalid');
+        expect(parseUpdateContainer(container('not-an-object')).kind).toBe('invalid');
+    });
+
+    it('never throws on arbitrary input', () => {
+        for (const input of [null, undefined, 42, 'update', [], {}]) {
+            expect(parseUpdateContainer(input).kind).toBe('invalid');
+        }
+    });
+});
+
+describe('parseEphemeralUpdate', () => {
+    it('returns known ephemeral events', () => {
+        const event = { type: 'machine-status', machineId: 'machine-1', online: true, timestamp: 1 };
+        expect(parseEphemeralUpdate(event)).toEqual({ kind: 'known', update: event });
+    });
+
+    it('returns unknown ephemeral types with the raw payload', () => {
+        const event = { type: 'typing', sid: 'session-1' };
+        expect(parseEphemeralUpdate(event)).toEqual({ kind: 'unknown', type: 'typing', raw: event });
+    });
+
+    it('strips prototype pollution keys from the raw payload', () => {
+        const parsed = parseEphemeralUpdate(JSON.parse('{"type":"typing","__proto__":{"polluted":true},"prototype":1}'));
+        expect(parsed).toEqual({ kind: 'unknown', type: 'typing', raw: { type: 'typing' } });
+    });
+
+    it('reports known types with invalid payloads as invalid', () => {
+        expect(parseEphemeralUpdate({ type: 'activity', sid: 'session-1' }).kind).toBe('invalid');
+        expect(parseEphemeralUpdate({ sid: 'session-1' }).kind).toBe('invalid');
+    });
+});
+
+describe('parseMessageContent', () => {
+    it('returns known user and agent content', () => {
+        const user = { role: 'user', content: { type: 'text', text: 'hi' } };
+        const agent = { role: 'agent', flavor: 'codex', content: { type: 'output', text: 'done' } };
+        expect(parseMessageContent(user)).toEqual({ kind: 'known', content: user });
+        expect(parseMessageContent(agent)).toEqual({ kind: 'known', content: agent });
+    });
+
+    it('returns unknown agent content types with the raw content', () => {
+        const content = { type: 'reasoning', text: 'Thinking about the fix' };
+        expect(parseMessageContent({ role: 'agent', flavor: 'codex', content })).toEqual({
+            kind: 'unknown',
+            flavor: 'codex',
+            type: 'reasoning',
+            raw: content,
+        });
+    });
+
+    it('returns unknown session events with their event type', () => {
+        const content = { type: 'event', event: { type: 'compacted', tokens: 1200 } };
+        expect(parseMessageContent({ role: 'agent', content })).toEqual({
+            kind: 'unknown',
+            type: 'event',
+            eventType: 'compacted',
+            raw: content,
+        });
+    });
+
+    it('keeps rendering a history that mixes known and unknown content', () => {
+        const history = [
+            { role: 'user', content: { type: 'text', text: 'hi' } },
+            { role: 'agent', content: { type: 'reasoning', text: '…' } },
+            { role: 'agent', content: { type: 'output', text: 'done' } },
+        ];
+        expect(history.map((message) => parseMessageContent(message).kind)).toEqual(['known', 'unknown', 'known']);
+    });
+
+    it('strips prototype pollution keys from the raw content', () => {
+        const parsed = parseMessageContent(JSON.parse('{"role":"agent","content":{"type":"reasoning","__proto__":{"polluted":true}}}'));
+        expect(parsed).toEqual({ kind: 'unknown', type: 'reasoning', raw: { type: 'reasoning' } });
+    });
+
+    it('reports known types with invalid content as invalid', () => {
+        expect(parseMessageContent({ role: 'agent', content: { type: 'output' } }).kind).toBe('invalid');
+        expect(parseMessageContent({ role: 'agent', content: { type: 'event', event: { type: 'switch' } } }).kind)
+            .toBe('invalid');
+        expect(parseMessageContent({ role: 'user', content: { type: 'image' } }).kind).toBe('invalid');
+        expect(parseMessageContent({ role: 'system', content: { type: 'output', text: 'x' } }).kind).toBe('invalid');
+    });
+});
+
+describe('known type guards', () => {
+    it('recognises every current discriminator', () => {
+        expect(isKnownUpdateType('new-message')).toBe(true);
+        expect(isKnownUpdateType('kv-batch-update')).toBe(true);
+        expect(isKnownUpdateType('future-update')).toBe(false);
+        expect(isKnownEphemeralType('friend-status')).toBe(true);
+        expect(isKnownEphemeralType('typing')).toBe(false);
+        expect(isKnownAgentContentType('tool-call')).toBe(true);
+        expect(isKnownAgentContentType('reasoning')).toBe(false);
+        expect(isKnownSessionEventType('ready')).toBe(true);
+        expect(isKnownSessionEventType('compacted')).toBe(false);
+    });
+});
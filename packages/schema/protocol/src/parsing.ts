@@ -0,0 +1,300 @@
+/**
+ * Forward-compatible parsing for update containers, ephemeral events and
+ * decrypted message content
+ *
+ * `ApiUpdateSchema`, `ApiEphemeralUpdateSchema` and `MessageContentSchema`
+ * are strict unions: parsing a container whose body uses an update type added
+ * after the client shipped fails outright. That conflicts with the "add new enum value" rule in
+ * docs/API-VERSIONING.md, so clients should parse incoming events with the
+ * helpers below instead. They separate three outcomes:
+ *
+ * - `known`: the event matches a schema this client understands
+ * - `unknown`: the event is well-formed but its type is newer than this client
+ * - `invalid`: the event is malformed, or a known type with a bad payload
+ *
+ * Update containers keep their `seq` whenever the envelope itself is valid, so
+ * clients can skip unknown events without opening a gap in their sequence.
+ *
+ * @example
+ * ```typescript
+ * import { parseUpdateContainer } from '@happy/protocol';
+ *
+ * socket.on('update', (raw) => {
+ *     const parsed = parseUpdateContainer(raw);
+ *     switch (parsed.kind) {
+ *         case 'known':
+ *             applyUpdate(parsed.update);
+ *             advanceSeq(parsed.seq);
+ *             break;
+ *         case 'unknown':
+ *             logger.debug('Skipping update type', parsed.t);
+ *             advanceSeq(parsed.seq);
+ *             break;
+ *         case 'invalid':
+ *             logger.warn('Dropped malformed update', parsed.error);
+ *             break;
+ *     }
+ * });
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { z } from 'zod';
+import { STRING_LIMITS } from './constraints';
+import { ApiUpdateSchema, type ApiUpdate, type ApiUpdateType } from './updates';
+import { ApiEphemeralUpdateSchema, type ApiEphemeralUpdate, type ApiEphemeralUpdateType } from './ephemeral';
+import {
+    AgentContentSchema,
+    AgentMessageContentSchema,
+    MessageContentSchema,
+    SessionEventSchema,
+    type AgentContent,
+    type MessageContent,
+    type MessageMeta,
+    type SessionEvent,
+} from './updates';
+import { UpdatePayloadSchema, sanitizePayloadKeys } from './payloads';
+
+// ═══════════════════════════════════════════════════════════════
+// Known discriminators
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Update types understood by this version of the protocol package
+ */
+export const KNOWN_UPDATE_TYPES: ReadonlySet<ApiUpdateType> = new Set(
+    ApiUpdateSchema.options.map((option) => option.shape.t.value)
+);
+
+/**
+ * Ephemeral event types understood by this version of the protocol package
+ */
+export const KNOWN_EPHEMERAL_TYPES: ReadonlySet<ApiEphemeralUpdateType> = new Set(
+    ApiEphemeralUpdateSchema.options.map((option) => option.shape.type.value)
+);
+
+/**
+ * Agent message content types understood by this version of the protocol package
+ */
+export const KNOWN_AGENT_CONTENT_TYPES: ReadonlySet<AgentContent['type']> = new Set(
+    AgentContentSchema.options.map((option) => option.shape.type.value)
+);
+
+/**
+ * Session event types understood by this version of the protocol package
+ */
+export const KNOWN_SESSION_EVENT_TYPES: ReadonlySet<SessionEvent['type']> = new Set(
+    SessionEventSchema.options.map((option) => option.shape.type.value)
+);
+
+/**
+ * Type guard: checks if an update type is understood by this client
+ */
+export function isKnownUpdateType(t: string): t is ApiUpdateType {
+    return (KNOWN_UPDATE_TYPES as ReadonlySet<string>).has(t);
+}
+
+/**
+ * Type guard: checks if an ephemeral event type is understood by this client
+ */
+export function isKnownEphemeralType(type: string): type is ApiEphemeralUpdateType {
+    return (KNOWN_EPHEMERAL_TYPES as ReadonlySet<string>).has(type);
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Update containers
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Result of `parseUpdateContainer`
+ *
+ * `seq` is present on every outcome except an invalid envelope, where the
+ * sequence number itself could not be trusted.
+ */
+export type ParsedUpdateContainer =
+    | { kind: 'known'; id: string; seq: number; createdAt: number; update: ApiUpdate }
+    | { kind: 'unknown'; id: string; seq: number; createdAt: number; t: string; raw: unknown }
+    | { kind: 'invalid'; seq?: number; error: z.ZodError };
+
+/**
+ * Parse an update container without rejecting unknown update types
+ *
+ * The envelope is checked with `UpdatePayloadSchema`, which only validates
+ * the body's discriminator (so newer update types still pass) and strips
+ * prototype pollution keys; `raw` is that sanitized body. Never throws.
+ *
+ * @param data - Raw container as received from the socket or API
+ * @returns Known update, unknown update type with its raw body, or validation error
+ *
+ * @example
+ * ```typescript
+ * const parsed = parseUpdateContainer({
+ *     id: 'upd_1',
+ *     seq: 42,
+ *     createdAt: Date.now(),
+ *     body: { t: 'future-update', foo: 'bar' }
+ * });
+ * // { kind: 'unknown', id: 'upd_1', seq: 42, createdAt: ..., t: 'future-update', raw: { t: 'future-update', foo: 'bar' } }
+ * ```
+ */
+export function parseUpdateContainer(data: unknown): ParsedUpdateContainer {
+    const envelope = UpdatePayloadSchema.safeParse(data);
+    if (!envelope.success) {
+        return { kind: 'invalid', error: envelope.error };
+    }
+
+    const { id, seq, createdAt, body } = envelope.data;
+    const t: string = body.t;
+
+    if (!isKnownUpdateType(t)) {
+        return { kind: 'unknown', id, seq, createdAt, t, raw: body };
+    }
+
+    const update = ApiUpdateSchema.safeParse(body);
+    if (!update.success) {
+        return { kind: 'invalid', seq, error: update.error };
+    }
+    return { kind: 'known', id, seq, createdAt, update: update.data };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Ephemeral events
+// ═══════════════════════════════════════════════════════════════
+
+const EphemeralEnvelopeSchema = z.object({
+    type: z.string().min(1).max(STRING_LIMITS.LABEL_MAX),
+}).passthrough().transform(sanitizePayloadKeys);
+
+/**
+ * Result of `parseEphemeralUpdate`
+ */
+export type ParsedEphemeralUpdate =
+    | { kind: 'known'; update: ApiEphemeralUpdate }
+    | { kind: 'unknown'; type: string; raw: unknown }
+    | { kind: 'invalid'; error: z.ZodError };
+
+/**
+ * Parse an ephemeral event without rejecting unknown event types
+ *
+ * Never throws. Ephemeral events are not sequenced, so unknown types can
+ * simply be ignored by the caller. `raw` has prototype pollution keys
+ * stripped, as for update containers.
+ *
+ * @param data - Raw ephemeral event
+ * @returns Known event, unknown event type with its raw payload, or validation error
+ *
+ * @example
+ * ```typescript
+ * const parsed = parseEphemeralUpdate(raw);
+ * if (parsed.kind === 'known' && parsed.update.type === 'activity') {
+ *     setSessionActive(parsed.update.sid, parsed.update.active);
+ * }
+ * ```
+ */
+export function parseEphemeralUpdate(data: unknown): ParsedEphemeralUpdate {
+    const envelope = EphemeralEnvelopeSchema.safeParse(data);
+    if (!envelope.success) {
+        return { kind: 'invalid', error: envelope.error };
+    }
+
+    if (!isKnownEphemeralType(envelope.data.type)) {
+        return { kind: 'unknown', type: envelope.data.type, raw: envelope.data };
+    }
+
+    const update = ApiEphemeralUpdateSchema.safeParse(envelope.data);
+    if (!update.success) {
+        return { kind: 'invalid', error: update.error };
+    }
+    return { kind: 'known', update: update.data };
+}
+
+/**
+ * Type guard: checks if an agent content type is understood by this client
+ */
+export function isKnownAgentContentType(type: string): type is AgentContent['type'] {
+    return (KNOWN_AGENT_CONTENT_TYPES as ReadonlySet<string>).has(type);
+}
+
+/**
+ * Type guard: checks if a session event type is understood by this client
+ */
+export function isKnownSessionEventType(type: string): type is SessionEvent['type'] {
+    return (KNOWN_SESSION_EVENT_TYPES as ReadonlySet<string>).has(type);
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Message content
+// ═══════════════════════════════════════════════════════════════
+
+const ContentEnvelopeSchema = z.object({
+    type: z.string().min(1).max(STRING_LIMITS.LABEL_MAX),
+}).passthrough().transform(sanitizePayloadKeys);
+
+const AgentMessageEnvelopeSchema = z.object({
+    role: z.literal('agent'),
+    flavor: AgentMessageContentSchema.shape.flavor,
+    meta: AgentMessageContentSchema.shape.meta,
+    content: ContentEnvelopeSchema,
+});
+
+/**
+ * Result of `parseMessageContent`
+ *
+ * `unknown` is an agent message whose content `type`, or whose session
+ * event `type` (`eventType`, with `type: 'event'`), is newer than this
+ * client. `raw` is the content with prototype pollution keys stripped.
+ */
+export type ParsedMessageContent =
+    | { kind: 'known'; content: MessageContent }
+    | {
+          kind: 'unknown';
+          flavor?: string;
+          meta?: MessageMeta;
+          type: string;
+          eventType?: string;
+          raw: unknown;
+      }
+    | { kind: 'invalid'; error: z.ZodError };
+
+/**
+ * Parse decrypted message content without rejecting unknown content types
+ *
+ * Newer agents add content types (and the CLI new session events) that
+ * older renderers cannot show; they come back as `unknown` so the rest of
+ * the history still renders, e.g. with a placeholder. Never throws.
+ *
+ * @param data - Decrypted message content (`JSON.parse` of `content.c`)
+ * @returns Known content, unknown content type with its raw content, or validation error
+ *
+ * @example
+ * ```typescript
+ * const parsed = parseMessageContent(JSON.parse(decrypted));
+ * if (parsed.kind === 'known') {
+ *     renderMessage(parsed.content);
+ * } else if (parsed.kind === 'unknown') {
+ *     renderUnsupported(parsed.eventType ?? parsed.type);
+ * }
+ * ```
+ */
+export function parseMessageContent(data: unknown): ParsedMessageContent {
+    const envelope = AgentMessageEnvelopeSchema.safeParse(data);
+    if (envelope.success) {
+        const { flavor, meta, content } = envelope.data;
+        if (!isKnownAgentContentType(content.type)) {
+            return { kind: 'unknown', flavor, meta, type: content.type, raw: content };
+        }
+        if (content.type === 'event') {
+            const event = ContentEnvelopeSchema.safeParse(content['event']);
+            if (event.success && !isKnownSessionEventType(event.data.type)) {
+                return { kind: 'unknown', flavor, meta, type: content.type, eventType: event.data.type, raw: content };
+            }
+        }
+    }
+
+    const message = MessageContentSchema.safeParse(data);
+    if (!message.success) {
+        return { kind: 'invalid', error: message.error };
+    }
+    return { kind: 'known', content: message.data };
+}
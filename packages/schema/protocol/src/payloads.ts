@@ -27,6 +27,21 @@ export const ApiUpdateContainerSchema = z.object({
 
 export type ApiUpdateContainer = z.infer<typeof ApiUpdateContainerSchema>;
 
+/**
+ * Copy of `data` without prototype pollution keys
+ *
+ * HAP-626: payloads validated with `passthrough` keep every own key, so
+ * `__proto__`, `constructor` and `prototype` are dropped before the object
+ * is handed to callers.
+ */
+export function sanitizePayloadKeys<T extends object>(data: T): T {
+    const sanitized = { ...data };
+    delete (sanitized as Record<string, unknown>)['__proto__'];
+    delete (sanitized as Record<string, unknown>)['constructor'];
+    delete (sanitized as Record<string, unknown>)['prototype'];
+    return sanitized;
+}
+
 /**
  * Update payload for server-side use
  *
@@ -37,17 +52,13 @@ export const UpdatePayloadSchema = z.object({
     id: z.string().min(1).max(STRING_LIMITS.ID_MAX),
     seq: z.number(),
     body: z.object({
-        t: z.string() as z.ZodType<ApiUpdateType>,
+        t: z.string().min(1).max(STRING_LIMITS.LABEL_MAX) as z.ZodType<ApiUpdateType>,
     }).passthrough().transform((data) => {
         // HAP-626: Sanitize dangerous prototype pollution keys
         // We use passthrough here (not strip) because this schema only validates
         // the type discriminator - the actual payload data must pass through.
         // Full validation happens via ApiUpdateContainerSchema with ApiUpdateSchema.
-        const sanitized = { ...data };
-        delete (sanitized as Record<string, unknown>)['__proto__'];
-        delete (sanitized as Record<string, unknown>)['constructor'];
-        delete (sanitized as Record<string, unknown>)['prototype'];
-        return sanitized;
+        return sanitizePayloadKeys(data);
     }),
     createdAt: z.number(),
 });
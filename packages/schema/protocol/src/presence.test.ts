@@ -0,0 +1,64 @@
+/**
+ * Tests for presence computation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    computePresence,
+    parseInboundEvent,
+    HEARTBEAT_INTERVAL_MS,
+    PRESENCE_TIMEOUT_MS,
+    IDLE_TIMEOUT_MS,
+} from './index';
+
+const NOW = 1_000_000_000;
+
+describe('computePresence', () => {
+    it('is offline without any heartbeat', () => {
+        expect(computePresence({}, NOW)).toBe('offline');
+        expect(computePresence({ lastActiveAt: NOW }, NOW)).toBe('offline');
+    });
+
+    it('is online with a fresh heartbeat and recent activity', () => {
+        expect(computePresence({ lastAliveAt: NOW - HEARTBEAT_INTERVAL_MS, lastActiveAt: NOW - 1_000 }, NOW)).toBe(
+            'online'
+        );
+    });
+
+    it('is idle when alive but inactive', () => {
+        expect(computePresence({ lastAliveAt: NOW, lastActiveAt: NOW - IDLE_TIMEOUT_MS - 1 }, NOW)).toBe('idle');
+        expect(computePresence({ lastAliveAt: NOW }, NOW)).toBe('idle');
+    });
+
+    it('goes offline once the heartbeat is older than the timeout', () => {
+        expect(computePresence({ lastAliveAt: NOW - PRESENCE_TIMEOUT_MS, lastActiveAt: NOW }, NOW)).toBe('online');
+        expect(computePresence({ lastAliveAt: NOW - PRESENCE_TIMEOUT_MS - 1, lastActiveAt: NOW }, NOW)).toBe('offline');
+    });
+
+    it('is offline after an explicit disconnect until the next heartbeat', () => {
+        expect(computePresence({ lastAliveAt: NOW - 1_000, lastActiveAt: NOW, disconnectedAt: NOW - 500 }, NOW)).toBe(
+            'offline'
+        );
+        expect(computePresence({ lastAliveAt: NOW, lastActiveAt: NOW, disconnectedAt: NOW - 500 }, NOW)).toBe('online');
+    });
+
+    it('is idle once the last activity report says the work stopped', () => {
+        expect(computePresence({ lastAliveAt: NOW, lastActiveAt: NOW - 1_000, active: false }, NOW)).toBe('idle');
+        expect(computePresence({ lastAliveAt: NOW, lastActiveAt: NOW - 1_000, active: true }, NOW)).toBe('online');
+        expect(computePresence({ lastAliveAt: NOW - PRESENCE_TIMEOUT_MS - 1, lastActiveAt: NOW, active: false }, NOW)).toBe(
+            'offline'
+        );
+    });
+
+    it('treats timestamps from the future as current', () => {
+        expect(computePresence({ lastAliveAt: NOW + 5_000, lastActiveAt: NOW + 5_000 }, NOW)).toBe('online');
+    });
+});
+
+describe('ping/pong events', () => {
+    it('are part of the socket event maps', () => {
+        expect(parseInboundEvent('ping', { time: NOW }).success).toBe(true);
+        expect(parseInboundEvent('pong', { time: NOW, serverTime: NOW + 3 }).success).toBe(true);
+        expect(parseInboundEvent('pong', { time: NOW }).success).toBe(false);
+    });
+});
@@ -0,0 +1,111 @@
+/**
+ * Heartbeat timings and presence computation
+ *
+ * Sessions and machines prove liveness with `session-alive`/`machine-alive`
+ * heartbeats and report work through `activeAt` on activity ephemerals.
+ * Previously each client picked its own staleness cutoff, so a machine could
+ * show online on one device and offline on another. The constants below are
+ * the shared timings and `computePresence` is the shared rule.
+ *
+ * Heartbeat payloads live with the other socket events in `socket.ts`
+ * (`SessionAliveEventSchema`, `MachineAliveEventSchema`, `PingEventSchema`,
+ * `PongEventSchema`).
+ *
+ * @example
+ * ```typescript
+ * import { computePresence } from '@happy/protocol';
+ *
+ * const presence = computePresence(
+ *     { lastAliveAt: machine.lastAliveAt, lastActiveAt: machine.activeAt },
+ *     Date.now()
+ * );
+ * // 'online' | 'idle' | 'offline'
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { z } from 'zod';
+
+// ═══════════════════════════════════════════════════════════════
+// Timings
+// ═══════════════════════════════════════════════════════════════
+
+/** How often the CLI and daemon send `session-alive`/`machine-alive` */
+export const HEARTBEAT_INTERVAL_MS = 20_000;
+
+/** How often clients send `ping` */
+export const PING_INTERVAL_MS = 25_000;
+
+/** How long a client waits for `pong` before treating the connection as dead */
+export const PONG_TIMEOUT_MS = 20_000;
+
+/** Heartbeat age after which a session or machine is offline (three missed heartbeats) */
+export const PRESENCE_TIMEOUT_MS = 3 * HEARTBEAT_INTERVAL_MS;
+
+/** Activity age after which a live session or machine is idle */
+export const IDLE_TIMEOUT_MS = 5 * 60_000;
+
+// ═══════════════════════════════════════════════════════════════
+// Presence
+// ═══════════════════════════════════════════════════════════════
+
+export const PresenceStatusSchema = z.enum(['online', 'idle', 'offline']);
+
+export type PresenceStatus = z.infer<typeof PresenceStatusSchema>;
+
+/**
+ * Most recent liveness events seen for one session or machine (ms timestamps)
+ */
+export interface LastPresenceEvents {
+    /** Last `session-alive`/`machine-alive` heartbeat */
+    lastAliveAt?: number | null;
+    /** Last `activeAt` reported by an activity ephemeral */
+    lastActiveAt?: number | null;
+    /** `active` flag of that same activity ephemeral; `false` means the work stopped at `lastActiveAt` */
+    active?: boolean | null;
+    /** Last explicit disconnect (e.g. `machine-disconnected`, `session-end`) */
+    disconnectedAt?: number | null;
+}
+
+/**
+ * Derive presence from the latest liveness events
+ *
+ * - `offline`: no heartbeat, a heartbeat older than `PRESENCE_TIMEOUT_MS`,
+ *   or an explicit disconnect at or after the last heartbeat
+ * - `idle`: heartbeats arriving, but the last activity report was `active: false`
+ *   or no activity within `IDLE_TIMEOUT_MS`
+ * - `online`: heartbeats arriving and recently active
+ *
+ * Timestamps ahead of `now` (clock skew) count as age zero.
+ *
+ * @example
+ * ```typescript
+ * computePresence({ lastAliveAt: now - 5_000, lastActiveAt: now - 600_000 }, now); // 'idle'
+ * computePresence({ lastAliveAt: now, lastActiveAt: now, active: false }, now);    // 'idle'
+ * computePresence({ lastAliveAt: now - 90_000 }, now);                             // 'offline'
+ * ```
+ */
+export function computePresence(lastEvents: LastPresenceEvents, now: number): PresenceStatus {
+    const { lastAliveAt, lastActiveAt, active, disconnectedAt } = lastEvents;
+    if (lastAliveAt === undefined || lastAliveAt === null) {
+        return 'offline';
+    }
+    if (disconnectedAt !== undefined && disconnectedAt !== null && disconnectedAt >= lastAliveAt) {
+        return 'offline';
+    }
+    if (age(lastAliveAt, now) > PRESENCE_TIMEOUT_MS) {
+        return 'offline';
+    }
+    if (active === false) {
+        return 'idle';
+    }
+    if (lastActiveAt === undefined || lastActiveAt === null || age(lastActiveAt, now) > IDLE_TIMEOUT_MS) {
+        return 'idle';
+    }
+    return 'online';
+}
+
+function age(timestamp: number, now: number): number {
+    return Math.max(0, now - timestamp);
+}
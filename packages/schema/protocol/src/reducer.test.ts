@@ -0,0 +1,461 @@
+/**
+ * Tests for the update reducer
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    applyUpdate,
+    createEmptySyncState,
+    relationshipKey,
+    dataKeyOwnerKey,
+    getDataKey,
+    getDataKeyForSeq,
+    asSessionId,
+    asMachineId,
+    asArtifactId,
+    asUserId,
+    type ApiUpdate,
+    type ApiRotateKey,
+    type ApiUpdateContainer,
+    type SyncState,
+} from './index';
+
+const SESSION_ID = asSessionId('session-1');
+const MACHINE_ID = asMachineId('machine-1');
+const ARTIFACT_ID = asArtifactId('artifact-1');
+const USER_1 = asUserId('user-1');
+const USER_2 = asUserId('user-2');
+
+function container(body: ApiUpdate, seq: number): ApiUpdateContainer {
+    return { id: `upd-${seq}`, seq, createdAt: 1700000000000, body };
+}
+
+function fold(...bodies: ApiUpdate[]): SyncState {
+    return bodies.reduce((state, body, index) => applyUpdate(state, container(body, index + 1)), createEmptySyncState());
+}
+
+const newSession: ApiUpdate = {
+    t: 'new-session',
+    sid: SESSION_ID,
+    seq: 0,
+    metadata: 'meta-v1',
+    metadataVersion: 1,
+    agentState: null,
+    agentStateVersion: 0,
+    dataEncryptionKey: null,
+    active: true,
+    activeAt: 1000,
+    createdAt: 1000,
+    updatedAt: 1000,
+};
+
+const newMachine: ApiUpdate = {
+    t: 'new-machine',
+    machineId: MACHINE_ID,
+    seq: 0,
+    metadata: 'machine-meta-v1',
+    metadataVersion: 1,
+    daemonState: null,
+    daemonStateVersion: 0,
+    dataEncryptionKey: null,
+    active: true,
+    activeAt: 1000,
+    createdAt: 1000,
+    updatedAt: 1000,
+};
+
+const newArtifact: ApiUpdate = {
+    t: 'new-artifact',
+    artifactId: ARTIFACT_ID,
+    header: 'header-v1',
+    headerVersion: 1,
+    dataEncryptionKey: 'dek',
+    seq: 0,
+    createdAt: 1000,
+    updatedAt: 1000,
+};
+
+// =============================================================================
+// CONTAINER SEQ
+// =============================================================================
+
+describe('applyUpdate', () => {
+    it('tracks the highest container seq', () => {
+        let state = createEmptySyncState();
+        state = applyUpdate(state, container(newSession, 5));
+        state = applyUpdate(state, container({ t: 'delete-machine', machineId: asMachineId('x') }, 3));
+        expect(state.seq).toBe(5);
+    });
+
+    it('does not mutate the input state', () => {
+        const state = createEmptySyncState();
+        const frozen = JSON.stringify(state);
+        applyUpdate(state, container(newSession, 1));
+        expect(JSON.stringify(state)).toBe(frozen);
+    });
+
+    it('leaves entities untouched when an update has no effect', () => {
+        const state = fold(newSession);
+        const next = applyUpdate(state, container({ t: 'update-session', sid: SESSION_ID, metadata: { version: 1, value: 'stale' } }, 2));
+        expect(next.sessions).toBe(state.sessions);
+    });
+
+    it('advances seq but keeps every entity map for an ignored update', () => {
+        const state = fold(newSession);
+        const next = applyUpdate(state, container({ t: 'update-session', sid: asSessionId('unknown'), metadata: { version: 1, value: 'x' } }, 2));
+        expect(next).not.toBe(state);
+        expect(next.seq).toBe(2);
+        expect({ ...next, seq: state.seq }).toStrictEqual(state);
+        const entityKeys = (Object.keys(state) as (keyof SyncState)[]).filter((key) => key !== 'seq');
+        expect(entityKeys.every((key) => next[key] === state[key])).toBe(true);
+    });
+
+    it('skips containers at or below the applied seq', () => {
+        const state = fold(newSession, { t: 'delete-session', sid: SESSION_ID });
+        expect(applyUpdate(state, container(newSession, 1))).toBe(state);
+        expect(applyUpdate(state, container(newSession, 2))).toBe(state);
+    });
+});
+
+// =============================================================================
+// SESSIONS
+// =============================================================================
+
+describe('sessions', () => {
+    it('creates sessions keyed by sid', () => {
+        const state = fold(newSession);
+        expect(state.sessions[SESSION_ID]).toMatchObject({ id: SESSION_ID, metadata: 'meta-v1', metadataVersion: 1 });
+    });
+
+    it('applies newer versions and ignores stale ones', () => {
+        const state = fold(
+            newSession,
+            { t: 'update-session', sid: SESSION_ID, metadata: { version: 3, value: 'meta-v3' } },
+            { t: 'update-session', sid: SESSION_ID, metadata: { version: 2, value: 'meta-v2' } },
+            { t: 'update-session', sid: SESSION_ID, agentState: { version: 1, value: null } },
+        );
+        expect(state.sessions[SESSION_ID]).toMatchObject({
+            metadata: 'meta-v3',
+            metadataVersion: 3,
+            agentState: null,
+            agentStateVersion: 1,
+        });
+    });
+
+    it('keeps newer activity when new-session is replayed', () => {
+        const state = fold(
+            { ...newSession, t: 'new-session', active: false, activeAt: 3000, updatedAt: 3000 },
+            newSession,
+        );
+        expect(state.sessions[SESSION_ID]).toMatchObject({ active: false, activeAt: 3000, updatedAt: 3000 });
+    });
+
+    it('keeps newer fields when new-session is replayed', () => {
+        const state = fold(
+            newSession,
+            { t: 'update-session', sid: SESSION_ID, metadata: { version: 4, value: 'meta-v4' } },
+            newSession,
+        );
+        expect(state.sessions[SESSION_ID]).toMatchObject({ metadata: 'meta-v4', metadataVersion: 4 });
+    });
+
+    it('ignores updates for unknown sessions', () => {
+        const state = fold({ t: 'update-session', sid: asSessionId('missing'), metadata: { version: 1, value: 'x' } });
+        expect(state.sessions).toEqual({});
+    });
+
+    it('stores messages and advances the session seq', () => {
+        const message = { id: 'msg-1', seq: 7, content: { t: 'encrypted' as const, c: 'enc' }, createdAt: 1 };
+        const state = fold(newSession, { t: 'new-message', sid: SESSION_ID, message });
+        expect(state.messages[SESSION_ID]?.['msg-1']).toEqual(message);
+        expect(state.sessions[SESSION_ID]?.seq).toBe(7);
+    });
+
+    it('archives sessions', () => {
+        const state = fold(newSession, { t: 'archive-session', sid: SESSION_ID, archivedAt: 2000, archiveReason: 'timeout' });
+        expect(state.sessions[SESSION_ID]).toMatchObject({ active: false, archivedAt: 2000, archiveReason: 'timeout' });
+    });
+
+    it('restores archived sessions', () => {
+        const state = fold(
+            newSession,
+            { t: 'archive-session', sid: SESSION_ID, archivedAt: 2000, archiveReason: 'timeout' },
+            { t: 'unarchive-session', sid: SESSION_ID, restoredAt: 3000, restoredBy: USER_1 }
+        );
+        expect(state.sessions[SESSION_ID]).toMatchObject({ archivedAt: null, archiveReason: null, restoredAt: 3000 });
+    });
+
+    it('ignores archives the session was already restored from', () => {
+        const archive = { t: 'archive-session', sid: SESSION_ID, archivedAt: 2000, archiveReason: 'timeout' } as const;
+        const restore = { t: 'unarchive-session', sid: SESSION_ID, restoredAt: 3000, restoredBy: USER_1 } as const;
+        const restored = fold(newSession, archive, restore);
+        expect(applyUpdate(restored, container(archive, 4)).sessions).toBe(restored.sessions);
+
+        // A restore older than the current archive does not undo it
+        const rearchived = applyUpdate(restored, container({ ...archive, archivedAt: 4000 }, 4));
+        const replayed = applyUpdate(rearchived, container({ ...restore, restoredAt: 3500 }, 5));
+        expect(replayed.sessions).toBe(rearchived.sessions);
+        expect(replayed.sessions[SESSION_ID]?.archivedAt).toBe(4000);
+    });
+
+    it('ignores messages for unknown or deleted sessions', () => {
+        const message = { id: 'msg-1', seq: 1, content: { t: 'encrypted' as const, c: 'enc' }, createdAt: 1 };
+        expect(fold({ t: 'new-message', sid: SESSION_ID, message }).messages).toEqual({});
+        const state = fold(newSession, { t: 'delete-session', sid: SESSION_ID }, { t: 'new-message', sid: SESSION_ID, message });
+        expect(state.messages).toEqual({});
+    });
+
+    it('removes sessions and their messages on delete', () => {
+        const message = { id: 'msg-1', seq: 1, content: { t: 'encrypted' as const, c: 'enc' }, createdAt: 1 };
+        const state = fold(newSession, { t: 'new-message', sid: SESSION_ID, message }, { t: 'delete-session', sid: SESSION_ID });
+        expect(state.sessions).toEqual({});
+        expect(state.messages).toEqual({});
+    });
+});
+
+// =============================================================================
+// MACHINES AND ARTIFACTS
+// =============================================================================
+
+describe('machines', () => {
+    it('applies versioned metadata and daemon state', () => {
+        const state = fold(
+            newMachine,
+            { t: 'update-machine', machineId: MACHINE_ID, daemonState: { version: 2, value: 'daemon-v2' } },
+            { t: 'update-machine', machineId: MACHINE_ID, daemonState: { version: 1, value: 'daemon-v1' } },
+            { t: 'update-machine', machineId: MACHINE_ID, active: false, activeAt: 3000 },
+        );
+        expect(state.machines[MACHINE_ID]).toMatchObject({
+            daemonState: 'daemon-v2',
+            daemonStateVersion: 2,
+            active: false,
+            activeAt: 3000,
+        });
+    });
+
+    it('ignores activity older than the stored activeAt', () => {
+        const state = fold(newMachine, { t: 'update-machine', machineId: MACHINE_ID, active: false, activeAt: 500 });
+        expect(state.machines[MACHINE_ID]?.active).toBe(true);
+    });
+
+    it('removes machines on delete', () => {
+        expect(fold(newMachine, { t: 'delete-machine', machineId: MACHINE_ID }).machines).toEqual({});
+    });
+});
+
+describe('artifacts', () => {
+    it('applies header and body versions independently', () => {
+        const state = fold(
+            newArtifact,
+            { t: 'update-artifact', artifactId: ARTIFACT_ID, body: { version: 1, value: 'body-v1' } },
+            { t: 'update-artifact', artifactId: ARTIFACT_ID, header: { version: 1, value: 'stale' } },
+        );
+        expect(state.artifacts[ARTIFACT_ID]).toMatchObject({
+            header: 'header-v1',
+            headerVersion: 1,
+            body: 'body-v1',
+            bodyVersion: 1,
+        });
+    });
+
+    it('removes artifacts on delete', () => {
+        expect(fold(newArtifact, { t: 'delete-artifact', artifactId: ARTIFACT_ID }).artifacts).toEqual({});
+    });
+});
+
+// =============================================================================
+// DATA KEYS
+// =============================================================================
+
+describe('key rotation', () => {
+    const sessionWithKey: ApiUpdate = { ...newSession, t: 'new-session', dataEncryptionKey: 'session-dek-0' };
+    const sessionRef = { kind: 'session', id: SESSION_ID } as const;
+    const rotate = (
+        entity: ApiRotateKey['entity'],
+        keyVersion: number,
+        effectiveFromSeq: number
+    ): ApiUpdate => ({
+        t: 'rotate-key',
+        entity,
+        dataEncryptionKey: `${entity.kind}-dek-${keyVersion}`,
+        keyVersion,
+        effectiveFromSeq,
+        rotatedAt: 2000,
+    });
+
+    it('seeds version 0 from the creation key', () => {
+        expect(fold(sessionWithKey).sessions[SESSION_ID]?.dataKeys)
+            .toEqual([{ keyVersion: 0, dataEncryptionKey: 'session-dek-0', effectiveFromSeq: 0 }]);
+        expect(fold(newSession).sessions[SESSION_ID]?.dataKeys).toEqual([]);
+    });
+
+    it('keeps older keys and makes the highest version current', () => {
+        const session = fold(sessionWithKey, rotate(sessionRef, 2, 50), rotate(sessionRef, 1, 20)).sessions[SESSION_ID];
+        expect(session?.dataEncryptionKey).toBe('session-dek-2');
+        expect(session?.dataKeys.map((key) => key.keyVersion)).toEqual([0, 1, 2]);
+    });
+
+    it('ignores repeated versions', () => {
+        const state = fold(sessionWithKey, rotate(sessionRef, 1, 20));
+        expect(applyUpdate(state, container(rotate(sessionRef, 1, 99), 3)).sessions).toBe(state.sessions);
+    });
+
+    it('holds keys rotated before their entity exists', () => {
+        const state = fold(rotate({ kind: 'machine', id: MACHINE_ID }, 1, 3));
+        expect(state.machines).toEqual({});
+        expect(state.pendingDataKeys[dataKeyOwnerKey('machine', MACHINE_ID)]).toHaveLength(1);
+
+        const created = applyUpdate(state, container(newMachine, 2));
+        expect(created.machines[MACHINE_ID]?.dataEncryptionKey).toBe('machine-dek-1');
+        expect(created.pendingDataKeys).toEqual({});
+    });
+
+    it('drops held keys when the entity is deleted', () => {
+        const state = fold(rotate(sessionRef, 1, 20), { t: 'delete-session', sid: SESSION_ID });
+        expect(state.pendingDataKeys).toEqual({});
+    });
+
+    it('rotates machine and artifact keys', () => {
+        const state = fold(
+            newMachine,
+            newArtifact,
+            rotate({ kind: 'machine', id: MACHINE_ID }, 1, 3),
+            rotate({ kind: 'artifact', id: ARTIFACT_ID }, 1, 1),
+        );
+        expect(state.machines[MACHINE_ID]?.dataEncryptionKey).toBe('machine-dek-1');
+        expect(state.artifacts[ARTIFACT_ID]?.dataKeys.map((key) => key.dataEncryptionKey))
+            .toEqual(['dek', 'artifact-dek-1']);
+    });
+
+    it('keeps rotated keys when new-session is replayed', () => {
+        const session = fold(sessionWithKey, rotate(sessionRef, 1, 20), sessionWithKey).sessions[SESSION_ID];
+        expect(session?.dataEncryptionKey).toBe('session-dek-1');
+        expect(session?.dataKeys).toHaveLength(2);
+    });
+
+    it('looks keys up by version and by seq', () => {
+        const state = fold(sessionWithKey, rotate(sessionRef, 1, 20), rotate(sessionRef, 2, 50));
+        const keys = state.sessions[SESSION_ID]?.dataKeys ?? [];
+        expect(getDataKey(keys, 1)?.dataEncryptionKey).toBe('session-dek-1');
+        expect(getDataKey(keys, 3)).toBeUndefined();
+        expect(getDataKeyForSeq(keys, 19)?.keyVersion).toBe(0);
+        expect(getDataKeyForSeq(keys, 20)?.keyVersion).toBe(1);
+        expect(getDataKeyForSeq(keys, 1000)?.keyVersion).toBe(2);
+        expect(getDataKeyForSeq([], 1)).toBeUndefined();
+    });
+});
+
+// =============================================================================
+// ACCOUNT, RELATIONSHIPS, KV
+// =============================================================================
+
+describe('account', () => {
+    it('merges profile fields and versioned settings', () => {
+        const state = fold(
+            { t: 'update-account', id: USER_1, firstName: 'Ada', settings: { version: 2, value: 'settings-v2' } },
+            { t: 'update-account', id: USER_1, lastName: 'Lovelace', settings: { version: 1, value: 'settings-v1' } },
+            { t: 'update-account', id: USER_1, firstName: null },
+        );
+        expect(state.account).toMatchObject({
+            id: USER_1,
+            firstName: null,
+            lastName: 'Lovelace',
+            settings: 'settings-v2',
+            settingsVersion: 2,
+        });
+    });
+
+    it('leaves the account untouched when nothing changes', () => {
+        const update = { t: 'update-account', id: USER_1, firstName: 'Ada', github: null } as const;
+        const state = fold(update);
+        expect(applyUpdate(state, container(update, 2)).account).toBe(state.account);
+    });
+});
+
+describe('relationships', () => {
+    const base = { t: 'relationship-updated' as const, fromUserId: USER_1, toUserId: USER_2 };
+
+    it('stores the latest relationship status and ignores older timestamps', () => {
+        const state = fold(
+            { ...base, status: 'friend', action: 'updated', timestamp: 2000 },
+            { ...base, status: 'requested', action: 'created', timestamp: 1000 },
+        );
+        expect(state.relationships[relationshipKey(USER_1, USER_2)]).toMatchObject({ status: 'friend', updatedAt: 2000 });
+    });
+
+    it('removes deleted relationships', () => {
+        const state = fold(
+            { ...base, status: 'friend', action: 'created', timestamp: 1000 },
+            { ...base, status: 'none', action: 'deleted', timestamp: 2000 },
+        );
+        expect(state.relationships).toEqual({});
+    });
+});
+
+describe('kv', () => {
+    it('applies newer versions, ignores stale ones and keeps tombstones', () => {
+        const state = fold(
+            { t: 'kv-batch-update', changes: [{ key: 'a', value: 'a1', version: 1 }, { key: 'b', value: 'b2', version: 2 }] },
+            { t: 'kv-batch-update', changes: [{ key: 'a', value: null, version: 2 }, { key: 'b', value: 'b1', version: 1 }] },
+            { t: 'kv-batch-update', changes: [{ key: 'a', value: 'resurrected', version: 1 }] },
+        );
+        expect(state.kv).toEqual({
+            a: { value: null, version: 2 },
+            b: { value: 'b2', version: 2 },
+        });
+    });
+});
+
+// =============================================================================
+// PROTOTYPE KEYS
+// =============================================================================
+
+describe('prototype keys', () => {
+    const PROTOTYPE_KEYS = ['__proto__', 'constructor', 'toString'];
+
+    it.each(PROTOTYPE_KEYS)('stores a session with sid %s', (key) => {
+        const sid = asSessionId(key);
+        const state = fold({ ...newSession, sid } as ApiUpdate, { ...newSession, sid } as ApiUpdate);
+        expect(Object.keys(state.sessions)).toEqual([key]);
+        expect(state.sessions[sid]?.metadata).toBe('meta-v1');
+        expect(Object.getPrototypeOf(state.sessions)).toBeNull();
+    });
+
+    it.each(PROTOTYPE_KEYS)('ignores messages for an unknown session %s', (key) => {
+        const state = fold({
+            t: 'new-message',
+            sid: asSessionId(key),
+            message: { id: 'msg-1', seq: 1, content: { t: 'encrypted', c: 'abc' }, createdAt: 1 },
+        });
+        expect(Object.keys(state.messages)).toEqual([]);
+    });
+
+    it.each(PROTOTYPE_KEYS)('stores messages with ID %s', (key) => {
+        const state = fold(newSession, {
+            t: 'new-message',
+            sid: SESSION_ID,
+            message: { id: key, seq: 1, content: { t: 'encrypted', c: 'abc' }, createdAt: 1 },
+        });
+        expect(Object.keys(state.messages[SESSION_ID] ?? {})).toEqual([key]);
+    });
+
+    it.each(PROTOTYPE_KEYS)('stores machines and artifacts with ID %s', (key) => {
+        const state = fold(
+            { ...newMachine, machineId: asMachineId(key) } as ApiUpdate,
+            { ...newArtifact, artifactId: asArtifactId(key) } as ApiUpdate,
+            { t: 'delete-machine', machineId: asMachineId(key) },
+        );
+        expect(Object.keys(state.machines)).toEqual([]);
+        expect(Object.keys(state.artifacts)).toEqual([key]);
+    });
+
+    it.each(PROTOTYPE_KEYS)('stores KV key %s as an entry', (key) => {
+        const state = fold(
+            { t: 'kv-batch-update', changes: [{ key, value: 'v1', version: 1 }] },
+            { t: 'kv-batch-update', changes: [{ key, value: 'v0', version: 0 }] },
+        );
+        expect(Object.keys(state.kv)).toEqual([key]);
+        expect(Object.getOwnPropertyDescriptor(state.kv, key)?.value).toEqual({ value: 'v1', version: 1 });
+        expect(Object.getPrototypeOf(state.kv)).toBeNull();
+    });
+});
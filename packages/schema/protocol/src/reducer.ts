@@ -0,0 +1,888 @@
+/**
+ * Framework-agnostic update reducer
+ *
+ * Folds a stream of `ApiUpdateContainer`s into a normalized client store, so
+ * the web, CLI and macOS clients share one implementation (and one test suite)
+ * for applying sync updates.
+ *
+ * Rules:
+ * - The reducer is pure: it never mutates its input. Stale containers
+ *   return the same state object; any other container advances `seq`, so
+ *   the state object is new, but entity maps an update leaves alone keep
+ *   their identity (select slices such as `state.sessions` to skip work
+ *   on no-op updates).
+ * - Entities are keyed by ID (`sid`, `machineId`, `artifactId`, KV key).
+ * - Containers at or below `state.seq` are skipped, so a replayed update
+ *   can never undo a later one (e.g. recreate a deleted session). Feed
+ *   containers in seq order, e.g. through `SeqTracker`.
+ * - Versioned fields (`VersionedValue`, `NullableVersionedValue`, KV changes)
+ *   are only applied when their version is newer than the stored one, so
+ *   replayed or reordered updates never overwrite fresher data.
+ * - Updates for entities the client has not seen yet are ignored when they
+ *   cannot create the entity (e.g. `update-session` or `new-message` before
+ *   `new-session`).
+ *
+ * Encrypted fields are stored as received; decrypting them is left to the
+ * client (see `decodeMachineUpdate`). Sessions, machines and artifacts keep
+ * every data key they have had (`dataKeys`), so content encrypted before a
+ * `rotate-key` stays readable (see `getDataKeyForSeq`). A `rotate-key` for an
+ * entity not created yet is held in `pendingDataKeys` and applied by its
+ * `new-*`.
+ *
+ * @example
+ * ```typescript
+ * import { applyUpdate, createEmptySyncState } from '@happy/protocol';
+ *
+ * let state = createEmptySyncState();
+ * socket.on('update', (container) => {
+ *     state = applyUpdate(state, container);
+ * });
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import type {
+    ApiUpdate,
+    ApiUpdateNewSession,
+    ApiUpdateSessionState,
+    ApiUpdateNewMessage,
+    ApiArchiveSession,
+    ApiUnarchiveSession,
+    ApiNewMachine,
+    ApiUpdateMachineState,
+    ApiNewArtifact,
+    ApiUpdateArtifact,
+    ApiUpdateAccount,
+    ApiRelationshipUpdated,
+    ApiKvBatchUpdate,
+    ApiRotateKey,
+    ApiMessage,
+    ArchiveReason,
+} from './updates';
+import type { ApiUpdateContainer } from './payloads';
+import type { GitHubProfile, ImageRef, KeyVersion, RelationshipStatus, UserProfile } from './common';
+import type { ArtifactId, MachineId, SessionId, UserId } from './ids';
+
+// ═══════════════════════════════════════════════════════════════
+// State
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * One version of an entity's data encryption key
+ */
+export interface SyncDataKey {
+    keyVersion: KeyVersion;
+    /** Wrapped key, as received */
+    dataEncryptionKey: string;
+    /** First entity seq (message seq for sessions) encrypted with this key */
+    effectiveFromSeq: number;
+}
+
+/**
+ * Session as stored by the reducer
+ */
+export interface SyncSession {
+    id: SessionId;
+    /** Highest message sequence number seen for this session */
+    seq: number;
+    /** Encrypted metadata (`null` once cleared) */
+    metadata: string | null;
+    metadataVersion: number;
+    /** Encrypted agent state */
+    agentState: string | null;
+    agentStateVersion: number;
+    /** Current (highest-version) data key */
+    dataEncryptionKey: string | null;
+    /** All known data keys, ascending by version */
+    dataKeys: readonly SyncDataKey[];
+    active: boolean;
+    activeAt: number;
+    createdAt: number;
+    updatedAt: number;
+    /** Set when the session was archived */
+    archivedAt: number | null;
+    archiveReason: ArchiveReason | null;
+    /** Set when the session was last restored from the archive */
+    restoredAt: number | null;
+}
+
+/**
+ * Machine as stored by the reducer
+ */
+export interface SyncMachine {
+    id: MachineId;
+    seq: number;
+    /** Encrypted metadata */
+    metadata: string;
+    metadataVersion: number;
+    /** Encrypted daemon state */
+    daemonState: string | null;
+    daemonStateVersion: number;
+    /** Current (highest-version) data key */
+    dataEncryptionKey: string | null;
+    /** All known data keys, ascending by version */
+    dataKeys: readonly SyncDataKey[];
+    active: boolean;
+    activeAt: number;
+    createdAt: number;
+    updatedAt: number;
+}
+
+/**
+ * Artifact as stored by the reducer
+ */
+export interface SyncArtifact {
+    id: ArtifactId;
+    seq: number;
+    /** Encrypted header */
+    header: string;
+    headerVersion: number;
+    /** Encrypted body (`null` for header-only artifacts) */
+    body: string | null;
+    bodyVersion: number | null;
+    /** Current (highest-version) data key */
+    dataEncryptionKey: string;
+    /** All known data keys, ascending by version */
+    dataKeys: readonly SyncDataKey[];
+    createdAt: number;
+    updatedAt: number;
+}
+
+/**
+ * KV entry as stored by the reducer
+ *
+ * Deleted keys are kept with `value: null` so that a stale write arriving
+ * after the delete cannot resurrect them.
+ */
+export interface SyncKvEntry {
+    value: string | null;
+    version: number;
+}
+
+/**
+ * Relationship between two users as stored by the reducer
+ */
+export interface SyncRelationship {
+    fromUserId: UserId;
+    toUserId: UserId;
+    status: RelationshipStatus;
+    fromUser?: UserProfile;
+    toUser?: UserProfile;
+    /** Timestamp of the update that produced this state */
+    updatedAt: number;
+}
+
+/**
+ * Account profile and settings as stored by the reducer
+ */
+export interface SyncAccount {
+    id: UserId;
+    /** Encrypted settings */
+    settings: string | null;
+    settingsVersion: number;
+    firstName: string | null;
+    lastName: string | null;
+    avatar: ImageRef | null;
+    github: GitHubProfile | null;
+}
+
+/**
+ * Normalized client store produced by `applyUpdate`
+ *
+ * Every record has a null prototype, so any ID (including `__proto__` or
+ * `constructor`) is stored as a plain entry; use `Object.hasOwn` or `in`
+ * rather than `record.hasOwnProperty`.
+ */
+export interface SyncState {
+    /** Highest container sequence number applied */
+    seq: number;
+    account: SyncAccount | null;
+    sessions: Readonly<Record<SessionId, SyncSession>>;
+    /** Messages keyed by session ID, then message ID */
+    messages: Readonly<Record<SessionId, Readonly<Record<string, ApiMessage>>>>;
+    machines: Readonly<Record<MachineId, SyncMachine>>;
+    artifacts: Readonly<Record<ArtifactId, SyncArtifact>>;
+    kv: Readonly<Record<string, SyncKvEntry>>;
+    /** Relationships keyed by `relationshipKey(fromUserId, toUserId)` */
+    relationships: Readonly<Record<string, SyncRelationship>>;
+    /**
+     * Rotated keys of entities not created yet, keyed by
+     * `dataKeyOwnerKey(kind, id)`; moved into the entity by its `new-*` and
+     * dropped by its `delete-*`
+     */
+    pendingDataKeys: Readonly<Record<string, readonly SyncDataKey[]>>;
+}
+
+/**
+ * Create an empty store to start folding updates into
+ */
+export function createEmptySyncState(): SyncState {
+    return {
+        seq: 0,
+        account: null,
+        sessions: emptyRecord(),
+        messages: emptyRecord(),
+        machines: emptyRecord(),
+        artifacts: emptyRecord(),
+        kv: emptyRecord(),
+        relationships: emptyRecord(),
+        pendingDataKeys: emptyRecord(),
+    };
+}
+
+/**
+ * Key under which a relationship is stored in `SyncState.relationships`
+ *
+ * @example
+ * ```typescript
+ * const relationship = state.relationships[relationshipKey(myId, friendId)];
+ * ```
+ */
+export function relationshipKey(fromUserId: UserId, toUserId: UserId): string {
+    return `${fromUserId}:${toUserId}`;
+}
+
+/**
+ * Key under which rotated keys wait in `SyncState.pendingDataKeys`
+ *
+ * @example
+ * ```typescript
+ * const waiting = state.pendingDataKeys[dataKeyOwnerKey('session', sid)] ?? [];
+ * ```
+ */
+export function dataKeyOwnerKey(kind: ApiRotateKey['entity']['kind'], id: string): string {
+    return `${kind}:${id}`;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Reducer
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Apply one update container to the store
+ *
+ * @param state - Current store (not mutated)
+ * @param container - Validated update container
+ * @returns `state` itself for a stale container; otherwise a new store with
+ *   `seq` advanced, sharing every entity map the update did not change
+ *
+ * @example
+ * ```typescript
+ * const next = applyUpdate(state, {
+ *     id: 'upd_1',
+ *     seq: 10,
+ *     createdAt: Date.now(),
+ *     body: { t: 'update-session', sid: 'session_abc', metadata: { version: 3, value: 'enc' } }
+ * });
+ * ```
+ */
+export function applyUpdate(state: SyncState, container: ApiUpdateContainer): SyncState {
+    if (container.seq <= state.seq) {
+        return state;
+    }
+    return { ...reduceUpdate(state, container.body), seq: container.seq };
+}
+
+function reduceUpdate(state: SyncState, update: ApiUpdate): SyncState {
+    switch (update.t) {
+        case 'new-session':
+            return applyPendingDataKeys(applyNewSession(state, update), { kind: 'session', id: update.sid });
+        case 'update-session':
+            return applyUpdateSession(state, update);
+        case 'new-message':
+            return applyNewMessage(state, update);
+        case 'archive-session':
+            return applyArchiveSession(state, update);
+        case 'unarchive-session':
+            return applyUnarchiveSession(state, update);
+        case 'delete-session': {
+            const next = dropPendingDataKeys(state, { kind: 'session', id: update.sid });
+            if (!Object.hasOwn(next.sessions, update.sid) && !Object.hasOwn(next.messages, update.sid)) {
+                return next;
+            }
+            return {
+                ...next,
+                sessions: omit(next.sessions, update.sid),
+                messages: omit(next.messages, update.sid),
+            };
+        }
+        case 'new-machine':
+            return applyPendingDataKeys(applyNewMachine(state, update), { kind: 'machine', id: update.machineId });
+        case 'update-machine':
+            return applyUpdateMachine(state, update);
+        case 'delete-machine': {
+            const next = dropPendingDataKeys(state, { kind: 'machine', id: update.machineId });
+            if (!Object.hasOwn(next.machines, update.machineId)) {
+                return next;
+            }
+            return { ...next, machines: omit(next.machines, update.machineId) };
+        }
+        case 'new-artifact':
+            return applyPendingDataKeys(applyNewArtifact(state, update), { kind: 'artifact', id: update.artifactId });
+        case 'update-artifact':
+            return applyUpdateArtifact(state, update);
+        case 'delete-artifact': {
+            const next = dropPendingDataKeys(state, { kind: 'artifact', id: update.artifactId });
+            if (!Object.hasOwn(next.artifacts, update.artifactId)) {
+                return next;
+            }
+            return { ...next, artifacts: omit(next.artifacts, update.artifactId) };
+        }
+        case 'update-account':
+            return applyUpdateAccount(state, update);
+        case 'relationship-updated':
+            return applyRelationshipUpdated(state, update);
+        case 'kv-batch-update':
+            return applyKvBatchUpdate(state, update);
+        case 'new-feed-post':
+            // Feed posts are paged by cursor, not kept in the sync store
+            return state;
+        case 'rotate-key':
+            return applyRotateKey(state, update);
+        default: {
+            const _exhaustive: never = update;
+            throw new Error(`Unhandled update type: ${(_exhaustive as ApiUpdate).t}`);
+        }
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Sessions
+// ═══════════════════════════════════════════════════════════════
+
+function applyNewSession(state: SyncState, update: ApiUpdateNewSession): SyncState {
+    const existing = getEntry(state.sessions, update.sid);
+    const incoming: SyncSession = {
+        id: update.sid,
+        seq: update.seq,
+        metadata: update.metadata,
+        metadataVersion: update.metadataVersion,
+        agentState: update.agentState,
+        agentStateVersion: update.agentStateVersion,
+        dataEncryptionKey: update.dataEncryptionKey,
+        dataKeys: initialDataKeys(update.dataEncryptionKey),
+        active: update.active,
+        activeAt: update.activeAt,
+        createdAt: update.createdAt,
+        updatedAt: update.updatedAt,
+        archivedAt: null,
+        archiveReason: null,
+        restoredAt: null,
+    };
+    if (!existing) {
+        return { ...state, sessions: withEntry(state.sessions, update.sid, incoming) };
+    }
+
+    // Replayed new-session: keep whichever copy of each versioned field is newer
+    const merged: SyncSession = {
+        ...incoming,
+        ...mergeDataKeys(existing.dataKeys, incoming.dataKeys, incoming.dataEncryptionKey),
+        ...newerActivity(existing, incoming),
+        seq: Math.max(existing.seq, incoming.seq),
+        archivedAt: existing.archivedAt,
+        archiveReason: existing.archiveReason,
+        restoredAt: existing.restoredAt,
+    };
+    if (!isNewer(incoming.metadataVersion, existing.metadataVersion)) {
+        merged.metadata = existing.metadata;
+        merged.metadataVersion = existing.metadataVersion;
+    }
+    if (!isNewer(incoming.agentStateVersion, existing.agentStateVersion)) {
+        merged.agentState = existing.agentState;
+        merged.agentStateVersion = existing.agentStateVersion;
+    }
+    return { ...state, sessions: withEntry(state.sessions, update.sid, merged) };
+}
+
+function applyUpdateSession(state: SyncState, update: ApiUpdateSessionState): SyncState {
+    const session = getEntry(state.sessions, update.sid);
+    if (!session) {
+        return state;
+    }
+    let next = session;
+    if (update.metadata && isNewer(update.metadata.version, session.metadataVersion)) {
+        next = { ...next, metadata: update.metadata.value, metadataVersion: update.metadata.version };
+    }
+    if (update.agentState && isNewer(update.agentState.version, session.agentStateVersion)) {
+        next = { ...next, agentState: update.agentState.value, agentStateVersion: update.agentState.version };
+    }
+    if (next === session) {
+        return state;
+    }
+    return { ...state, sessions: withEntry(state.sessions, update.sid, next) };
+}
+
+function applyNewMessage(state: SyncState, update: ApiUpdateNewMessage): SyncState {
+    const session = getEntry(state.sessions, update.sid);
+    const sessionMessages = getEntry(state.messages, update.sid) ?? emptyRecord();
+    if (!session || Object.hasOwn(sessionMessages, update.message.id)) {
+        return state;
+    }
+    const sessions = update.message.seq > session.seq
+        ? withEntry(state.sessions, update.sid, { ...session, seq: update.message.seq })
+        : state.sessions;
+    return {
+        ...state,
+        sessions,
+        messages: withEntry(state.messages, update.sid, withEntry(sessionMessages, update.message.id, update.message)),
+    };
+}
+
+function applyArchiveSession(state: SyncState, update: ApiArchiveSession): SyncState {
+    const session = getEntry(state.sessions, update.sid);
+    if (!session || (session.archivedAt !== null && session.archivedAt >= update.archivedAt)) {
+        return state;
+    }
+    // A restore at or after this archive already undid it
+    if (session.restoredAt !== null && session.restoredAt >= update.archivedAt) {
+        return state;
+    }
+    return {
+        ...state,
+        sessions: withEntry(state.sessions, update.sid, {
+            ...session,
+            active: false,
+            archivedAt: update.archivedAt,
+            archiveReason: update.archiveReason,
+        }),
+    };
+}
+
+function applyUnarchiveSession(state: SyncState, update: ApiUnarchiveSession): SyncState {
+    const session = getEntry(state.sessions, update.sid);
+    if (!session || session.archivedAt === null || session.archivedAt > update.restoredAt) {
+        return state;
+    }
+    return {
+        ...state,
+        sessions: withEntry(state.sessions, update.sid, {
+            ...session,
+            archivedAt: null,
+            archiveReason: null,
+            restoredAt: update.restoredAt,
+        }),
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Machines
+// ═══════════════════════════════════════════════════════════════
+
+function applyNewMachine(state: SyncState, update: ApiNewMachine): SyncState {
+    const existing = getEntry(state.machines, update.machineId);
+    const incoming: SyncMachine = {
+        id: update.machineId,
+        seq: update.seq,
+        metadata: update.metadata,
+        metadataVersion: update.metadataVersion,
+        daemonState: update.daemonState,
+        daemonStateVersion: update.daemonStateVersion,
+        dataEncryptionKey: update.dataEncryptionKey,
+        dataKeys: initialDataKeys(update.dataEncryptionKey),
+        active: update.active,
+        activeAt: update.activeAt,
+        createdAt: update.createdAt,
+        updatedAt: update.updatedAt,
+    };
+    if (!existing) {
+        return { ...state, machines: withEntry(state.machines, update.machineId, incoming) };
+    }
+
+    const merged: SyncMachine = {
+        ...incoming,
+        ...mergeDataKeys(existing.dataKeys, incoming.dataKeys, incoming.dataEncryptionKey),
+        ...newerActivity(existing, incoming),
+        seq: Math.max(existing.seq, incoming.seq),
+    };
+    if (!isNewer(incoming.metadataVersion, existing.metadataVersion)) {
+        merged.metadata = existing.metadata;
+        merged.metadataVersion = existing.metadataVersion;
+    }
+    if (!isNewer(incoming.daemonStateVersion, existing.daemonStateVersion)) {
+        merged.daemonState = existing.daemonState;
+        merged.daemonStateVersion = existing.daemonStateVersion;
+    }
+    return { ...state, machines: withEntry(state.machines, update.machineId, merged) };
+}
+
+function applyUpdateMachine(state: SyncState, update: ApiUpdateMachineState): SyncState {
+    const machine = getEntry(state.machines, update.machineId);
+    if (!machine) {
+        return state;
+    }
+    let next = machine;
+    if (update.metadata && isNewer(update.metadata.version, machine.metadataVersion)) {
+        next = { ...next, metadata: update.metadata.value, metadataVersion: update.metadata.version };
+    }
+    if (update.daemonState && isNewer(update.daemonState.version, machine.daemonStateVersion)) {
+        next = { ...next, daemonState: update.daemonState.value, daemonStateVersion: update.daemonState.version };
+    }
+    if (update.activeAt !== undefined && update.activeAt >= machine.activeAt) {
+        next = { ...next, active: update.active ?? next.active, activeAt: update.activeAt };
+    } else if (update.activeAt === undefined && update.active !== undefined && update.active !== machine.active) {
+        next = { ...next, active: update.active };
+    }
+    if (next === machine) {
+        return state;
+    }
+    return { ...state, machines: withEntry(state.machines, update.machineId, next) };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Artifacts
+// ═══════════════════════════════════════════════════════════════
+
+function applyNewArtifact(state: SyncState, update: ApiNewArtifact): SyncState {
+    const existing = getEntry(state.artifacts, update.artifactId);
+    const incoming: SyncArtifact = {
+        id: update.artifactId,
+        seq: update.seq,
+        header: update.header,
+        headerVersion: update.headerVersion,
+        body: update.body ?? null,
+        bodyVersion: update.bodyVersion ?? null,
+        dataEncryptionKey: update.dataEncryptionKey,
+        dataKeys: initialDataKeys(update.dataEncryptionKey),
+        createdAt: update.createdAt,
+        updatedAt: update.updatedAt,
+    };
+    if (!existing) {
+        return { ...state, artifacts: withEntry(state.artifacts, update.artifactId, incoming) };
+    }
+
+    const merged: SyncArtifact = {
+        ...incoming,
+        ...mergeDataKeys(existing.dataKeys, incoming.dataKeys, incoming.dataEncryptionKey),
+        seq: Math.max(existing.seq, incoming.seq),
+        updatedAt: Math.max(existing.updatedAt, incoming.updatedAt),
+    };
+    if (!isNewer(incoming.headerVersion, existing.headerVersion)) {
+        merged.header = existing.header;
+        merged.headerVersion = existing.headerVersion;
+    }
+    if (!isNewer(incoming.bodyVersion, existing.bodyVersion)) {
+        merged.body = existing.body;
+        merged.bodyVersion = existing.bodyVersion;
+    }
+    return { ...state, artifacts: withEntry(state.artifacts, update.artifactId, merged) };
+}
+
+function applyUpdateArtifact(state: SyncState, update: ApiUpdateArtifact): SyncState {
+    const artifact = getEntry(state.artifacts, update.artifactId);
+    if (!artifact) {
+        return state;
+    }
+    let next = artifact;
+    if (update.header && isNewer(update.header.version, artifact.headerVersion)) {
+        next = { ...next, header: update.header.value, headerVersion: update.header.version };
+    }
+    if (update.body && isNewer(update.body.version, artifact.bodyVersion)) {
+        next = { ...next, body: update.body.value, bodyVersion: update.body.version };
+    }
+    if (next === artifact) {
+        return state;
+    }
+    return { ...state, artifacts: withEntry(state.artifacts, update.artifactId, next) };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Account, relationships, KV
+// ═══════════════════════════════════════════════════════════════
+
+function applyUpdateAccount(state: SyncState, update: ApiUpdateAccount): SyncState {
+    const current: SyncAccount = state.account?.id === update.id
+        ? state.account
+        : {
+            id: update.id,
+            settings: null,
+            settingsVersion: -1,
+            firstName: null,
+            lastName: null,
+            avatar: null,
+            github: null,
+        };
+    const next: SyncAccount = { ...current };
+    if (update.settings && isNewer(update.settings.version, current.settingsVersion)) {
+        next.settings = update.settings.value;
+        next.settingsVersion = update.settings.version;
+    }
+    // Profile fields carry no version: `applyUpdate` only gets here for a
+    // container newer than any applied, so the latest write wins.
+    // `undefined` leaves a profile field untouched, `null` clears it
+    if (update.firstName !== undefined) next.firstName = update.firstName;
+    if (update.lastName !== undefined) next.lastName = update.lastName;
+    if (update.avatar !== undefined) next.avatar = update.avatar;
+    if (update.github !== undefined) next.github = update.github;
+    if (state.account && isSameAccount(state.account, next)) {
+        return state;
+    }
+    return { ...state, account: next };
+}
+
+function isSameAccount(a: SyncAccount, b: SyncAccount): boolean {
+    return a.id === b.id
+        && a.settings === b.settings
+        && a.settingsVersion === b.settingsVersion
+        && a.firstName === b.firstName
+        && a.lastName === b.lastName
+        && JSON.stringify(a.avatar) === JSON.stringify(b.avatar)
+        && JSON.stringify(a.github) === JSON.stringify(b.github);
+}
+
+function applyRelationshipUpdated(state: SyncState, update: ApiRelationshipUpdated): SyncState {
+    const key = relationshipKey(update.fromUserId, update.toUserId);
+    const existing = getEntry(state.relationships, key);
+    if (existing && existing.updatedAt > update.timestamp) {
+        return state;
+    }
+    if (update.action === 'deleted') {
+        if (!existing) {
+            return state;
+        }
+        return { ...state, relationships: omit(state.relationships, key) };
+    }
+    const relationship: SyncRelationship = {
+        fromUserId: update.fromUserId,
+        toUserId: update.toUserId,
+        status: update.status,
+        updatedAt: update.timestamp,
+    };
+    const fromUser = update.fromUser ?? existing?.fromUser;
+    const toUser = update.toUser ?? existing?.toUser;
+    if (fromUser) relationship.fromUser = fromUser;
+    if (toUser) relationship.toUser = toUser;
+    return { ...state, relationships: withEntry(state.relationships, key, relationship) };
+}
+
+function applyKvBatchUpdate(state: SyncState, update: ApiKvBatchUpdate): SyncState {
+    let kv = state.kv;
+    for (const change of update.changes) {
+        if (!isNewer(change.version, getEntry(kv, change.key)?.version)) {
+            continue;
+        }
+        if (kv === state.kv) {
+            kv = copyRecord(state.kv);
+        }
+        (kv as Record<string, SyncKvEntry>)[change.key] = { value: change.value, version: change.version };
+    }
+    return kv === state.kv ? state : { ...state, kv };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Data keys
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Look up a data key by version
+ *
+ * @example
+ * ```typescript
+ * const key = getDataKey(session.dataKeys, content.k ?? 0);
+ * ```
+ */
+export function getDataKey(keys: readonly SyncDataKey[], keyVersion: KeyVersion): SyncDataKey | undefined {
+    return keys.find((key) => key.keyVersion === keyVersion);
+}
+
+/**
+ * Data key in effect at `seq`: the highest version whose `effectiveFromSeq`
+ * is at or before it
+ *
+ * Use this for content that carries no key version (`EncryptedContent.k`
+ * absent), e.g. messages written before the sender supported rotation.
+ */
+export function getDataKeyForSeq(keys: readonly SyncDataKey[], seq: number): SyncDataKey | undefined {
+    let found: SyncDataKey | undefined;
+    for (const key of keys) {
+        if (key.effectiveFromSeq <= seq) {
+            found = key;
+        }
+    }
+    return found;
+}
+
+function applyRotateKey(state: SyncState, update: ApiRotateKey): SyncState {
+    return applyDataKey(state, update.entity, {
+        keyVersion: update.keyVersion,
+        dataEncryptionKey: update.dataEncryptionKey,
+        effectiveFromSeq: update.effectiveFromSeq,
+    });
+}
+
+/**
+ * Add `key` to an entity, or hold it in `pendingDataKeys` if the entity has
+ * not been created yet (its `rotate-key` overtook its `new-*`)
+ */
+function applyDataKey(state: SyncState, entity: ApiRotateKey['entity'], key: SyncDataKey): SyncState {
+    switch (entity.kind) {
+        case 'session': {
+            const session = getEntry(state.sessions, entity.id);
+            if (!session) {
+                return holdDataKey(state, entity, key);
+            }
+            const next = withDataKey(session, key);
+            return next === session ? state : { ...state, sessions: withEntry(state.sessions, session.id, next) };
+        }
+        case 'machine': {
+            const machine = getEntry(state.machines, entity.id);
+            if (!machine) {
+                return holdDataKey(state, entity, key);
+            }
+            const next = withDataKey(machine, key);
+            return next === machine ? state : { ...state, machines: withEntry(state.machines, machine.id, next) };
+        }
+        case 'artifact': {
+            const artifact = getEntry(state.artifacts, entity.id);
+            if (!artifact) {
+                return holdDataKey(state, entity, key);
+            }
+            const next = withDataKey(artifact, key);
+            return next === artifact ? state : { ...state, artifacts: withEntry(state.artifacts, artifact.id, next) };
+        }
+        default: {
+            const _exhaustive: never = entity;
+            throw new Error(`Unhandled key rotation entity: ${(_exhaustive as { kind: string }).kind}`);
+        }
+    }
+}
+
+function holdDataKey(state: SyncState, entity: ApiRotateKey['entity'], key: SyncDataKey): SyncState {
+    const owner = dataKeyOwnerKey(entity.kind, entity.id);
+    const pending = getEntry(state.pendingDataKeys, owner) ?? [];
+    const next = insertDataKey(pending, key);
+    if (next === pending) {
+        return state;
+    }
+    return { ...state, pendingDataKeys: withEntry(state.pendingDataKeys, owner, next) };
+}
+
+/**
+ * Move held keys into an entity its `new-*` just created
+ */
+function applyPendingDataKeys(state: SyncState, entity: ApiRotateKey['entity']): SyncState {
+    const pending = getEntry(state.pendingDataKeys, dataKeyOwnerKey(entity.kind, entity.id));
+    if (!pending) {
+        return state;
+    }
+    let next = dropPendingDataKeys(state, entity);
+    for (const key of pending) {
+        next = applyDataKey(next, entity, key);
+    }
+    return next;
+}
+
+function dropPendingDataKeys(state: SyncState, entity: ApiRotateKey['entity']): SyncState {
+    const owner = dataKeyOwnerKey(entity.kind, entity.id);
+    if (!Object.hasOwn(state.pendingDataKeys, owner)) {
+        return state;
+    }
+    return { ...state, pendingDataKeys: omit(state.pendingDataKeys, owner) };
+}
+
+/**
+ * Add `key` to an entity, making it current if it is the highest version
+ *
+ * Returns `entity` itself if that version is already known.
+ */
+function withDataKey<T extends { dataEncryptionKey: string | null; dataKeys: readonly SyncDataKey[] }>(
+    entity: T,
+    key: SyncDataKey
+): T {
+    const dataKeys = insertDataKey(entity.dataKeys, key);
+    if (dataKeys === entity.dataKeys) {
+        return entity;
+    }
+    const current = dataKeys[dataKeys.length - 1]?.dataEncryptionKey ?? key.dataEncryptionKey;
+    return { ...entity, dataKeys, dataEncryptionKey: current };
+}
+
+function initialDataKeys(dataEncryptionKey: string | null): SyncDataKey[] {
+    return dataEncryptionKey === null ? [] : [{ keyVersion: 0, dataEncryptionKey, effectiveFromSeq: 0 }];
+}
+
+/**
+ * Keys for a replayed `new-*`: rotations already applied win over the
+ * creation key
+ */
+function mergeDataKeys<K extends string | null>(
+    existing: readonly SyncDataKey[],
+    incoming: readonly SyncDataKey[],
+    incomingKey: K
+): { dataKeys: readonly SyncDataKey[]; dataEncryptionKey: K | string } {
+    let dataKeys = existing;
+    for (const key of incoming) {
+        dataKeys = insertDataKey(dataKeys, key);
+    }
+    return { dataKeys, dataEncryptionKey: dataKeys[dataKeys.length - 1]?.dataEncryptionKey ?? incomingKey };
+}
+
+/**
+ * Insert `key` keeping ascending version order; returns `keys` itself if
+ * that version is already present
+ */
+function insertDataKey(keys: readonly SyncDataKey[], key: SyncDataKey): readonly SyncDataKey[] {
+    if (getDataKey(keys, key.keyVersion)) {
+        return keys;
+    }
+    return [...keys, key].sort((a, b) => a.keyVersion - b.keyVersion);
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Utilities
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * True if `incoming` should replace a field stored at version `current`
+ */
+function isNewer(incoming: number | null | undefined, current: number | null | undefined): boolean {
+    if (incoming === null || incoming === undefined) {
+        return false;
+    }
+    return current === null || current === undefined || incoming > current;
+}
+
+/**
+ * Activity fields for a replayed `new-*`: a stale copy never moves
+ * `activeAt`/`updatedAt` backwards
+ */
+function newerActivity(
+    existing: { active: boolean; activeAt: number; updatedAt: number },
+    incoming: { active: boolean; activeAt: number; updatedAt: number }
+): { active: boolean; activeAt: number; updatedAt: number } {
+    const latest = incoming.activeAt >= existing.activeAt ? incoming : existing;
+    return {
+        active: latest.active,
+        activeAt: latest.activeAt,
+        updatedAt: Math.max(existing.updatedAt, incoming.updatedAt),
+    };
+}
+
+// Records are keyed by server-supplied IDs, so they have a null prototype and
+// are read through own-property checks: a key such as `__proto__`,
+// `constructor` or `toString` is an ordinary entry, never an
+// `Object.prototype` member.
+
+function emptyRecord<K extends string, T>(): Record<K, T> {
+    return Object.create(null) as Record<K, T>;
+}
+
+function copyRecord<K extends string, T>(record: Readonly<Record<K, T>>): Record<K, T> {
+    return Object.assign(emptyRecord<K, T>(), record);
+}
+
+function getEntry<K extends string, T>(record: Readonly<Record<K, T>>, key: K): T | undefined {
+    return Object.hasOwn(record, key) ? record[key] : undefined;
+}
+
+function withEntry<K extends string, T>(record: Readonly<Record<K, T>>, key: K, value: T): Record<K, T> {
+    const next = copyRecord(record);
+    next[key] = value;
+    return next;
+}
+
+function omit<K extends string, T>(record: Readonly<Record<K, T>>, key: K): Record<K, T> {
+    const next = copyRecord(record);
+    delete next[key];
+    return next;
+}
@@ -0,0 +1,165 @@
+/**
+ * Tests for typed update and ephemeral dispatchers
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { AppError, ErrorCodes } from '@happy/errors';
+import {
+    createUpdateRouter,
+    createEphemeralRouter,
+    asMachineId,
+    asSessionId,
+    type ApiUpdate,
+    type ApiEphemeralUpdate,
+    type UpdateHandlerMap,
+} from './index';
+
+const deleteSession: ApiUpdate = { t: 'delete-session', sid: asSessionId('session-1') };
+const deleteMachine: ApiUpdate = { t: 'delete-machine', machineId: asMachineId('machine-1') };
+const machineStatus: ApiEphemeralUpdate = {
+    type: 'machine-status',
+    machineId: asMachineId('machine-1'),
+    online: true,
+    timestamp: 1,
+};
+
+describe('createUpdateRouter', () => {
+    it('calls the handler with the narrowed update', async () => {
+        const seen: string[] = [];
+        const router = createUpdateRouter(
+            {
+                'delete-session': (update) => {
+                    seen.push(update.sid);
+                },
+            },
+            { fallback: () => {} }
+        );
+        expect(await router.dispatch(deleteSession)).toEqual({ ok: true });
+        expect(seen).toEqual(['session-1']);
+    });
+
+    it('sends unhandled types to the fallback', async () => {
+        const fallback = vi.fn();
+        const router = createUpdateRouter({ 'delete-session': () => {} }, { fallback });
+        await router.dispatch(deleteMachine);
+        expect(fallback).toHaveBeenCalledWith(deleteMachine);
+    });
+
+    it('awaits async handlers', async () => {
+        let done = false;
+        const router = createUpdateRouter(
+            {
+                'delete-session': async () => {
+                    await Promise.resolve();
+                    done = true;
+                },
+            },
+            { fallback: () => {} }
+        );
+        await router.dispatch(deleteSession);
+        expect(done).toBe(true);
+    });
+
+    it('wraps handler failures in AppError and reports them', async () => {
+        const onError = vi.fn();
+        const router = createUpdateRouter(
+            {
+                'delete-session': () => {
+                    throw new Error('boom');
+                },
+            },
+            { fallback: () => {}, onError }
+        );
+        const result = await router.dispatch(deleteSession);
+        expect(result).toMatchObject({ ok: false, error: { code: ErrorCodes.SYNC_FAILED } });
+        expect(onError).toHaveBeenCalledTimes(1);
+        const [error, update] = onError.mock.calls[0] ?? [];
+        expect(error).toBeInstanceOf(AppError);
+        expect((error as AppError).cause?.message).toBe('boom');
+        expect(update).toBe(deleteSession);
+    });
+
+    it('passes AppErrors through unchanged', async () => {
+        const failure = new AppError(ErrorCodes.VERSION_CONFLICT, 'stale');
+        const router = createUpdateRouter(
+            {
+                'delete-session': () => {
+                    throw failure;
+                },
+            },
+            { fallback: () => {} }
+        );
+        expect(await router.dispatch(deleteSession)).toEqual({ ok: false, error: failure });
+    });
+
+    it('still resolves when onError throws', async () => {
+        const router = createUpdateRouter(
+            {
+                'delete-session': () => {
+                    throw new Error('boom');
+                },
+            },
+            {
+                fallback: () => {},
+                onError: () => {
+                    throw new Error('reporter down');
+                },
+            }
+        );
+        expect(await router.dispatch(deleteSession)).toMatchObject({ ok: false, error: { code: ErrorCodes.SYNC_FAILED } });
+    });
+
+    it('isolates failures across dispatchAll', async () => {
+        const handled: string[] = [];
+        const router = createUpdateRouter(
+            {
+                'delete-session': () => {
+                    throw new Error('boom');
+                },
+                'delete-machine': (update) => {
+                    handled.push(update.machineId);
+                },
+            },
+            { fallback: () => {} }
+        );
+        const results = await router.dispatchAll([deleteSession, deleteMachine]);
+        expect(results.map((r) => r.ok)).toEqual([false, true]);
+        expect(handled).toEqual(['machine-1']);
+    });
+
+    it('requires every handler when no fallback is given', () => {
+        const partial: Partial<UpdateHandlerMap> = { 'delete-session': () => {} };
+        // @ts-expect-error - partial handler maps need a fallback
+        const build = () => createUpdateRouter(partial);
+        expect(build).toBeTypeOf('function');
+    });
+});
+
+describe('createEphemeralRouter', () => {
+    it('dispatches by type', async () => {
+        const online: boolean[] = [];
+        const router = createEphemeralRouter(
+            {
+                'machine-status': (update) => {
+                    online.push(update.online);
+                },
+            },
+            { fallback: () => {} }
+        );
+        await router.dispatch(machineStatus);
+        expect(online).toEqual([true]);
+    });
+
+    it('wraps failures with the ephemeral type as context', async () => {
+        const router = createEphemeralRouter(
+            {
+                'machine-status': () => {
+                    throw new Error('boom');
+                },
+            },
+            { fallback: () => {} }
+        );
+        const result = await router.dispatch(machineStatus);
+        expect(result).toMatchObject({ ok: false, error: { context: { type: 'machine-status' } } });
+    });
+});
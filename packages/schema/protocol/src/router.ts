@@ -0,0 +1,206 @@
+/**
+ * Typed update dispatchers
+ *
+ * Replaces hand-written `switch (update.t)` blocks with a handler map keyed by
+ * discriminator. Each handler receives the fully narrowed variant, may be
+ * async, and is isolated: a throwing handler never breaks dispatch of the
+ * next update, its failure is reported as an `AppError` instead.
+ *
+ * The handler map is exhaustive by default, so adding a new update type to
+ * the protocol is a compile error until every router handles it. Routers that
+ * only care about a few types pass a partial map together with a `fallback`.
+ *
+ * @example
+ * ```typescript
+ * import { createUpdateRouter } from '@happy/protocol';
+ *
+ * const router = createUpdateRouter(
+ *     {
+ *         'new-message': async (update) => storeMessage(update.sid, update.message),
+ *         'update-session': (update) => refreshSession(update.sid),
+ *     },
+ *     {
+ *         fallback: () => {},
+ *         onError: (error) => logger.error(error.toJSON()),
+ *     }
+ * );
+ *
+ * socket.on('update', (container) => router.dispatch(container.body));
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { AppError, ErrorCodes } from '@happy/errors';
+import type { ApiUpdate, ApiUpdateType } from './updates';
+import type { ApiEphemeralUpdate, ApiEphemeralUpdateType } from './ephemeral';
+
+// ═══════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════
+
+/** Handler for one update type, receiving the narrowed variant */
+export type UpdateHandler<T extends ApiUpdateType> = (
+    update: Extract<ApiUpdate, { t: T }>
+) => void | Promise<void>;
+
+/** Handler for every update type */
+export type UpdateHandlerMap = { [T in ApiUpdateType]: UpdateHandler<T> };
+
+/** Handler for one ephemeral type, receiving the narrowed variant */
+export type EphemeralHandler<T extends ApiEphemeralUpdateType> = (
+    update: Extract<ApiEphemeralUpdate, { type: T }>
+) => void | Promise<void>;
+
+/** Handler for every ephemeral type */
+export type EphemeralHandlerMap = { [T in ApiEphemeralUpdateType]: EphemeralHandler<T> };
+
+/**
+ * Outcome of dispatching one update
+ *
+ * `dispatch` never rejects; handler failures are returned here.
+ */
+export type DispatchResult =
+    | { ok: true }
+    | { ok: false; error: AppError };
+
+export interface RouterOptions<U> {
+    /**
+     * Called with the wrapped error whenever a handler fails. Errors thrown
+     * here are swallowed so that `dispatch` still never rejects.
+     */
+    onError?: (error: AppError, update: U) => void;
+}
+
+export interface PartialRouterOptions<U> extends RouterOptions<U> {
+    /** Handles every type missing from the handler map */
+    fallback: (update: U) => void | Promise<void>;
+}
+
+export interface Router<U> {
+    /** Run the handler for one update */
+    dispatch(update: U): Promise<DispatchResult>;
+    /** Run handlers for several updates in order; one failure does not stop the rest */
+    dispatchAll(updates: readonly U[]): Promise<DispatchResult[]>;
+}
+
+export type UpdateRouter = Router<ApiUpdate>;
+export type EphemeralRouter = Router<ApiEphemeralUpdate>;
+
+// ═══════════════════════════════════════════════════════════════
+// Factories
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Create a dispatcher for persistent updates
+ *
+ * @param handlers - Handler per update type; exhaustive unless `fallback` is given
+ * @param options - Error callback, and `fallback` for partial handler maps
+ *
+ * @example
+ * ```typescript
+ * // Exhaustive: fails to compile if any update type is missing
+ * const router = createUpdateRouter({
+ *     'new-message': (u) => ...,
+ *     'new-session': (u) => ...,
+ *     // ... every other ApiUpdateType
+ * });
+ * ```
+ */
+export function createUpdateRouter(handlers: UpdateHandlerMap, options?: RouterOptions<ApiUpdate>): UpdateRouter;
+export function createUpdateRouter(
+    handlers: Partial<UpdateHandlerMap>,
+    options: PartialRouterOptions<ApiUpdate>
+): UpdateRouter;
+export function createUpdateRouter(
+    handlers: Partial<UpdateHandlerMap>,
+    options: Partial<PartialRouterOptions<ApiUpdate>> = {}
+): UpdateRouter {
+    return createRouter(
+        (update: ApiUpdate) => update.t,
+        handlers as Record<string, ((update: ApiUpdate) => void | Promise<void>) | undefined>,
+        options,
+        'update'
+    );
+}
+
+/**
+ * Create a dispatcher for ephemeral events
+ *
+ * Same contract as `createUpdateRouter`, keyed by `type`.
+ *
+ * @example
+ * ```typescript
+ * const router = createEphemeralRouter(
+ *     { activity: (e) => setThinking(e.sid, e.thinking) },
+ *     { fallback: () => {} }
+ * );
+ * ```
+ */
+export function createEphemeralRouter(
+    handlers: EphemeralHandlerMap,
+    options?: RouterOptions<ApiEphemeralUpdate>
+): EphemeralRouter;
+export function createEphemeralRouter(
+    handlers: Partial<EphemeralHandlerMap>,
+    options: PartialRouterOptions<ApiEphemeralUpdate>
+): EphemeralRouter;
+export function createEphemeralRouter(
+    handlers: Partial<EphemeralHandlerMap>,
+    options: Partial<PartialRouterOptions<ApiEphemeralUpdate>> = {}
+): EphemeralRouter {
+    return createRouter(
+        (update: ApiEphemeralUpdate) => update.type,
+        handlers as Record<string, ((update: ApiEphemeralUpdate) => void | Promise<void>) | undefined>,
+        options,
+        'ephemeral'
+    );
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Implementation
+// ═══════════════════════════════════════════════════════════════
+
+function createRouter<U>(
+    discriminate: (update: U) => string,
+    handlers: Record<string, ((update: U) => void | Promise<void>) | undefined>,
+    options: Partial<PartialRouterOptions<U>>,
+    label: 'update' | 'ephemeral'
+): Router<U> {
+    const dispatch = async (update: U): Promise<DispatchResult> => {
+        const type = discriminate(update);
+        const handler = Object.hasOwn(handlers, type) ? handlers[type] : undefined;
+        try {
+            if (handler) {
+                await handler(update);
+            } else if (options.fallback) {
+                await options.fallback(update);
+            }
+            return { ok: true };
+        } catch (error) {
+            const wrapped = AppError.isAppError(error)
+                ? error
+                : new AppError(ErrorCodes.SYNC_FAILED, `Handler for ${label} '${type}' failed`, {
+                    cause: error instanceof Error ? error : undefined,
+                    context: { [label === 'update' ? 't' : 'type']: type },
+                });
+            try {
+                options.onError?.(wrapped, update);
+            } catch {
+                // A failing error reporter must not turn into a rejected dispatch
+            }
+            return { ok: false, error: wrapped };
+        }
+    };
+
+    return {
+        dispatch,
+        async dispatchAll(updates) {
+            const results: DispatchResult[] = [];
+            for (const update of updates) {
+                results.push(await dispatch(update));
+            }
+            return results;
+        },
+    };
+}
@@ -0,0 +1,103 @@
+/**
+ * Tests for recipient routing rules
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    routeUpdate,
+    matchesRecipientFilter,
+    ConnectionScopeSchema,
+    asSessionId,
+    asMachineId,
+    asUserId,
+    asArtifactId,
+    type ConnectionScope,
+    type ApiUpdate,
+    type ApiEphemeralUpdate,
+} from './index';
+
+const USER = asUserId('user-1');
+const SESSION = asSessionId('session-1');
+const MACHINE = asMachineId('machine-1');
+
+const app: ConnectionScope = { clientType: 'user-scoped', userId: USER };
+const cli: ConnectionScope = { clientType: 'session-scoped', userId: USER, sessionId: SESSION };
+const otherCli: ConnectionScope = { clientType: 'session-scoped', userId: USER, sessionId: asSessionId('session-2') };
+const daemon: ConnectionScope = { clientType: 'machine-scoped', userId: USER, machineId: MACHINE };
+const otherDaemon: ConnectionScope = { clientType: 'machine-scoped', userId: USER, machineId: asMachineId('machine-2') };
+
+const connections = { app, cli, otherCli, daemon, otherDaemon };
+
+/** Names of the connections that receive an update */
+function recipients(update: ApiUpdate | ApiEphemeralUpdate): string[] {
+    const filter = routeUpdate(update);
+    return Object.entries(connections)
+        .filter(([, scope]) => matchesRecipientFilter(filter, scope))
+        .map(([name]) => name);
+}
+
+describe('ConnectionScopeSchema', () => {
+    it('parses each client type', () => {
+        for (const scope of Object.values(connections)) {
+            expect(ConnectionScopeSchema.safeParse(scope).success).toBe(true);
+        }
+    });
+
+    it('requires the scoped ID', () => {
+        expect(ConnectionScopeSchema.safeParse({ clientType: 'session-scoped', userId: 'user-1' }).success).toBe(false);
+        expect(ConnectionScopeSchema.safeParse({ clientType: 'machine-scoped', userId: 'user-1' }).success).toBe(false);
+    });
+});
+
+describe('routeUpdate', () => {
+    it('sends archive-session to the app and the attached CLI', () => {
+        expect(
+            recipients({ t: 'archive-session', sid: SESSION, archivedAt: 1, archiveReason: 'user_requested' })
+        ).toEqual(['app', 'cli']);
+    });
+
+    it('sends new-message to the app and the attached CLI', () => {
+        expect(
+            recipients({
+                t: 'new-message',
+                sid: SESSION,
+                message: { id: 'msg-1', seq: 1, content: { t: 'encrypted', c: 'x' }, createdAt: 1 },
+            })
+        ).toEqual(['app', 'cli']);
+    });
+
+    it('sends delete-session to user-scoped connections only', () => {
+        expect(recipients({ t: 'delete-session', sid: SESSION })).toEqual(['app']);
+    });
+
+    it('sends update-machine to the app and that machine\'s daemon', () => {
+        expect(recipients({ t: 'update-machine', machineId: MACHINE })).toEqual(['app', 'daemon']);
+    });
+
+    it('sends rotate-key to whoever encrypts for the entity', () => {
+        const rotation = { t: 'rotate-key' as const, dataEncryptionKey: 'dek', keyVersion: 1, effectiveFromSeq: 0, rotatedAt: 1 };
+        expect(recipients({ ...rotation, entity: { kind: 'session', id: SESSION } })).toEqual(['app', 'cli']);
+        expect(recipients({ ...rotation, entity: { kind: 'machine', id: MACHINE } })).toEqual(['app', 'daemon']);
+        expect(recipients({ ...rotation, entity: { kind: 'artifact', id: asArtifactId('artifact-1') } })).toEqual(['app']);
+    });
+
+    it('sends kv-batch-update to every connection', () => {
+        expect(recipients({ t: 'kv-batch-update', changes: [] })).toEqual(Object.keys(connections));
+    });
+
+    it('sends machine-disconnected to the app and that machine\'s daemon', () => {
+        expect(
+            recipients({ type: 'machine-disconnected', machineId: MACHINE, reason: 'disconnected_by_user', timestamp: 1 })
+        ).toEqual(['app', 'daemon']);
+    });
+
+    it('sends friend-status to user-scoped connections only', () => {
+        expect(recipients({ type: 'friend-status', userId: asUserId('user-2'), isOnline: true })).toEqual(['app']);
+    });
+
+    it('sends activity to user-scoped connections only', () => {
+        expect(
+            recipients({ type: 'activity', sid: SESSION, active: true, activeAt: 1, thinking: false })
+        ).toEqual(['app']);
+    });
+});
@@ -0,0 +1,224 @@
+/**
+ * Recipient routing rules
+ *
+ * Decides which of a user's socket connections receive each update and
+ * ephemeral event. A connection is opened with one of three scopes:
+ *
+ * - `session-scoped`: a CLI attached to a single session
+ * - `user-scoped`: an app client that sees everything the user owns
+ * - `machine-scoped`: a daemon running on one machine
+ *
+ * `routeUpdate` maps every update to a `RecipientFilter` and `matchesRecipientFilter`
+ * applies a filter to one connection, so both server implementations deliver
+ * identically. Filters select among the connections of the user the update
+ * is addressed to; picking that user (e.g. both sides of a relationship) is
+ * up to the emitter.
+ *
+ * @example
+ * ```typescript
+ * import { routeUpdate, matchesRecipientFilter } from '@happy/protocol';
+ *
+ * const filter = routeUpdate(container.body);
+ * for (const connection of connectionsOf(userId)) {
+ *     if (matchesRecipientFilter(filter, connection.scope)) {
+ *         connection.socket.emit('update', container);
+ *     }
+ * }
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { z } from 'zod';
+import { SessionIdSchema, MachineIdSchema, UserIdSchema } from './ids';
+import type { ApiUpdate, ApiRotateKey } from './updates';
+import type { ApiEphemeralUpdate } from './ephemeral';
+
+// ═══════════════════════════════════════════════════════════════
+// Connection scopes
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Connection bound to one session (CLI)
+ */
+export const SessionScopedConnectionSchema = z.object({
+    clientType: z.literal('session-scoped'),
+    userId: UserIdSchema,
+    sessionId: SessionIdSchema,
+});
+
+export type SessionScopedConnection = z.infer<typeof SessionScopedConnectionSchema>;
+
+/**
+ * Connection that sees all of a user's data (mobile/web app)
+ */
+export const UserScopedConnectionSchema = z.object({
+    clientType: z.literal('user-scoped'),
+    userId: UserIdSchema,
+});
+
+export type UserScopedConnection = z.infer<typeof UserScopedConnectionSchema>;
+
+/**
+ * Connection bound to one machine (daemon)
+ */
+export const MachineScopedConnectionSchema = z.object({
+    clientType: z.literal('machine-scoped'),
+    userId: UserIdSchema,
+    machineId: MachineIdSchema,
+});
+
+export type MachineScopedConnection = z.infer<typeof MachineScopedConnectionSchema>;
+
+/**
+ * Scope of an authenticated socket connection, discriminated by `clientType`
+ */
+export const ConnectionScopeSchema = z.discriminatedUnion('clientType', [
+    SessionScopedConnectionSchema,
+    UserScopedConnectionSchema,
+    MachineScopedConnectionSchema,
+]);
+
+export type ConnectionScope = z.infer<typeof ConnectionScopeSchema>;
+
+export type ClientType = ConnectionScope['clientType'];
+
+// ═══════════════════════════════════════════════════════════════
+// Recipient filters
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Which of a user's connections receive an event
+ *
+ * - `all-interested-in-session`: user-scoped connections plus the CLI attached to `sessionId`
+ * - `user-scoped-only`: user-scoped connections only
+ * - `machine-scoped-only`: user-scoped connections plus the daemon for `machineId`
+ * - `all-user-authenticated-connections`: every connection of the user
+ */
+export const RecipientFilterSchema = z.discriminatedUnion('type', [
+    z.object({ type: z.literal('all-interested-in-session'), sessionId: SessionIdSchema }),
+    z.object({ type: z.literal('user-scoped-only') }),
+    z.object({ type: z.literal('machine-scoped-only'), machineId: MachineIdSchema }),
+    z.object({ type: z.literal('all-user-authenticated-connections') }),
+]);
+
+export type RecipientFilter = z.infer<typeof RecipientFilterSchema>;
+
+// ═══════════════════════════════════════════════════════════════
+// Routing
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Get the recipient filter for an update or ephemeral event
+ *
+ * Covers every variant; adding one without a rule is a compile error.
+ *
+ * @example
+ * ```typescript
+ * routeUpdate({ t: 'archive-session', sid, ... });
+ * // { type: 'all-interested-in-session', sessionId: sid }
+ * ```
+ */
+export function routeUpdate(update: ApiUpdate | ApiEphemeralUpdate): RecipientFilter {
+    return 't' in update ? routePersistentUpdate(update) : routeEphemeralUpdate(update);
+}
+
+function routePersistentUpdate(update: ApiUpdate): RecipientFilter {
+    switch (update.t) {
+        // The attached CLI needs its own session's messages, state and archival
+        case 'new-message':
+        case 'update-session':
+        case 'archive-session':
+        case 'unarchive-session':
+            return { type: 'all-interested-in-session', sessionId: update.sid };
+        // A CLI cannot attach to a session that does not exist yet, and a
+        // deleted session's CLI is disconnected by the server
+        case 'new-session':
+        case 'delete-session':
+            return { type: 'user-scoped-only' };
+        // The daemon owns its machine's metadata and must learn it was removed
+        case 'update-machine':
+        case 'delete-machine':
+            return { type: 'machine-scoped-only', machineId: update.machineId };
+        case 'new-machine':
+        case 'new-artifact':
+        case 'update-artifact':
+        case 'delete-artifact':
+        case 'update-account':
+        case 'relationship-updated':
+        case 'new-feed-post':
+            return { type: 'user-scoped-only' };
+        // Settings and preferences are read by every client
+        case 'kv-batch-update':
+            return { type: 'all-user-authenticated-connections' };
+        // Whoever encrypts for the entity must switch to the new key
+        case 'rotate-key':
+            return routeKeyRotation(update);
+        default: {
+            const _exhaustive: never = update;
+            throw new Error(`Unknown update type: ${(_exhaustive as ApiUpdate).t}`);
+        }
+    }
+}
+
+function routeKeyRotation(update: ApiRotateKey): RecipientFilter {
+    switch (update.entity.kind) {
+        case 'session':
+            return { type: 'all-interested-in-session', sessionId: update.entity.id };
+        case 'machine':
+            return { type: 'machine-scoped-only', machineId: update.entity.id };
+        case 'artifact':
+            return { type: 'user-scoped-only' };
+        default: {
+            const _exhaustive: never = update.entity;
+            throw new Error(`Unknown key rotation entity: ${(_exhaustive as { kind: string }).kind}`);
+        }
+    }
+}
+
+function routeEphemeralUpdate(update: ApiEphemeralUpdate): RecipientFilter {
+    switch (update.type) {
+        case 'activity':
+        case 'usage':
+        case 'machine-activity':
+        case 'machine-status':
+        case 'friend-status':
+            return { type: 'user-scoped-only' };
+        // The daemon must stop once the user disconnects its machine
+        case 'machine-disconnected':
+            return { type: 'machine-scoped-only', machineId: update.machineId };
+        default: {
+            const _exhaustive: never = update;
+            throw new Error(`Unknown ephemeral type: ${(_exhaustive as ApiEphemeralUpdate).type}`);
+        }
+    }
+}
+
+/**
+ * Check whether a connection receives events matching a filter
+ *
+ * Does not compare user IDs; callers only test connections of the
+ * addressed user.
+ */
+export function matchesRecipientFilter(filter: RecipientFilter, connection: ConnectionScope): boolean {
+    switch (filter.type) {
+        case 'all-user-authenticated-connections':
+            return true;
+        case 'user-scoped-only':
+            return connection.clientType === 'user-scoped';
+        case 'all-interested-in-session':
+            return (
+                connection.clientType === 'user-scoped' ||
+                (connection.clientType === 'session-scoped' && connection.sessionId === filter.sessionId)
+            );
+        case 'machine-scoped-only':
+            return (
+                connection.clientType === 'user-scoped' ||
+                (connection.clientType === 'machine-scoped' && connection.machineId === filter.machineId)
+            );
+        default: {
+            const _exhaustive: never = filter;
+            throw new Error(`Unknown recipient filter: ${(_exhaustive as RecipientFilter).type}`);
+        }
+    }
+}
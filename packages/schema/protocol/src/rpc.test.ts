@@ -0,0 +1,143 @@
+/**
+ * Tests for RPC envelopes and method contracts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import {
+    RpcRequestEnvelopeSchema,
+    RpcResponseEnvelopeSchema,
+    RpcMethods,
+    defineRpcMethod,
+    scopedRpcMethod,
+    parseScopedRpcMethod,
+    STRING_LIMITS,
+    type RpcHandler,
+    type RpcParams,
+    type RpcResult,
+} from './index';
+
+describe('RpcRequestEnvelopeSchema', () => {
+    const valid = {
+        v: 1,
+        id: 'rpc-1',
+        method: 'session-1:bash',
+        params: 'base64EncryptedParams==',
+    };
+
+    it('accepts a request with optional timeout', () => {
+        expect(RpcRequestEnvelopeSchema.safeParse(valid).success).toBe(true);
+        expect(RpcRequestEnvelopeSchema.safeParse({ ...valid, timeoutMs: 5000 }).success).toBe(true);
+    });
+
+    it('rejects unknown envelope versions', () => {
+        expect(RpcRequestEnvelopeSchema.safeParse({ ...valid, v: 2 }).success).toBe(false);
+    });
+
+    it('rejects non-positive timeouts', () => {
+        expect(RpcRequestEnvelopeSchema.safeParse({ ...valid, timeoutMs: 0 }).success).toBe(false);
+    });
+});
+
+describe('RpcResponseEnvelopeSchema', () => {
+    it('accepts successful responses', () => {
+        const result = RpcResponseEnvelopeSchema.safeParse({ v: 1, id: 'rpc-1', ok: true, result: 'enc' });
+        expect(result.success).toBe(true);
+    });
+
+    it('accepts error responses', () => {
+        const result = RpcResponseEnvelopeSchema.safeParse({
+            v: 1,
+            id: 'rpc-1',
+            ok: false,
+            error: { code: 'RPC_FAILED', message: 'Method not found', canTryAgain: false },
+        });
+        expect(result.success).toBe(true);
+    });
+
+    it('requires an error payload when ok is false', () => {
+        const result = RpcResponseEnvelopeSchema.safeParse({ v: 1, id: 'rpc-1', ok: false, result: 'enc' });
+        expect(result.success).toBe(false);
+    });
+});
+
+describe('scoped method names', () => {
+    it('round-trips scope and method', () => {
+        const method = scopedRpcMethod('session-1', 'readFile');
+        expect(method).toBe('session-1:readFile');
+        expect(parseScopedRpcMethod(method)).toEqual({ scopeId: 'session-1', name: 'readFile' });
+    });
+
+    it('keeps colons inside the method name', () => {
+        expect(parseScopedRpcMethod('machine-1:a:b')).toEqual({ scopeId: 'machine-1', name: 'a:b' });
+    });
+
+    it('returns undefined for unscoped names', () => {
+        expect(parseScopedRpcMethod('bash')).toBeUndefined();
+        expect(parseScopedRpcMethod(':bash')).toBeUndefined();
+        expect(parseScopedRpcMethod('session-1:')).toBeUndefined();
+    });
+});
+
+describe('defineRpcMethod', () => {
+    it('builds a method contract', () => {
+        const ping = defineRpcMethod('ping', {
+            scope: 'machine',
+            params: z.object({}),
+            result: z.object({ pong: z.literal(true) }),
+        });
+        expect(ping.name).toBe('ping');
+        expect(ping.scope).toBe('machine');
+        expect(ping.method('machine-1')).toBe('machine-1:ping');
+        expect(ping.result.parse({ pong: true })).toEqual({ pong: true });
+    });
+});
+
+describe('RpcMethods', () => {
+    it('registers each method under its own name', () => {
+        for (const [key, definition] of Object.entries(RpcMethods)) {
+            expect(definition.name).toBe(key);
+        }
+    });
+
+    it('scopes spawn-happy-session to machines and session methods to sessions', () => {
+        expect(RpcMethods['spawn-happy-session'].scope).toBe('machine');
+        expect(RpcMethods.abort.scope).toBe('session');
+        expect(RpcMethods.permission.scope).toBe('session');
+        expect(RpcMethods.bash.scope).toBe('session');
+        expect(RpcMethods.readFile.scope).toBe('session');
+    });
+
+    it('validates spawn-happy-session results', () => {
+        const result = RpcMethods['spawn-happy-session'].result;
+        expect(result.safeParse({ type: 'success', sessionId: 'session-1' }).success).toBe(true);
+        expect(result.safeParse({ type: 'requestToApproveDirectoryCreation', directory: '/tmp/new' }).success).toBe(true);
+        expect(result.safeParse({ type: 'error', errorMessage: 'Directory not found' }).success).toBe(true);
+        expect(result.safeParse({ type: 'success' }).success).toBe(false);
+    });
+
+    it('validates permission params', () => {
+        const params = RpcMethods.permission.params;
+        expect(params.safeParse({ id: 'toolu_01', approved: true, mode: 'acceptEdits' }).success).toBe(true);
+        expect(params.safeParse({ id: 'toolu_01', approved: true, mode: 'x'.repeat(STRING_LIMITS.LABEL_MAX + 1) }).success)
+            .toBe(false);
+    });
+
+    it('accepts agent flavors and permission modes added after this client shipped', () => {
+        expect(RpcMethods.permission.params.safeParse({ id: 'toolu_01', approved: true, mode: 'futureMode' }).success)
+            .toBe(true);
+        expect(RpcMethods['spawn-happy-session'].params.safeParse({ directory: '/tmp', agent: 'gemini' }).success)
+            .toBe(true);
+    });
+
+    it('shares typed contracts between handler and caller', async () => {
+        const handler: RpcHandler<typeof RpcMethods.bash> = async ({ command }) => ({
+            success: true,
+            stdout: `ran ${command}`,
+            exitCode: 0,
+        });
+        const params: RpcParams<typeof RpcMethods.bash> = { command: 'ls' };
+        const result: RpcResult<typeof RpcMethods.bash> = await handler(params);
+        expect(RpcMethods.bash.result.parse(result)).toEqual({ success: true, stdout: 'ran ls', exitCode: 0 });
+    });
+});
@@ -0,0 +1,326 @@
+/**
+ * RPC envelope schemas for session and machine remote procedure calls
+ *
+ * Apps call methods registered by the CLI (per session) and by the daemon
+ * (per machine). The server only relays envelopes: parameters and results
+ * are encrypted end-to-end, so the envelope carries them as opaque strings.
+ *
+ * Each known method is declared once with `defineRpcMethod`, giving the CLI
+ * handler and the app caller one shared contract for the decrypted params
+ * and result.
+ *
+ * Security: All string fields have maximum length constraints.
+ *
+ * @example
+ * ```typescript
+ * import { RpcMethods, type RpcHandler } from '@happy/protocol';
+ *
+ * // CLI side
+ * const bash: RpcHandler<typeof RpcMethods.bash> = async ({ command, cwd }) => {
+ *     return { success: true, stdout: await run(command, cwd), exitCode: 0 };
+ * };
+ * socket.emit('rpc-register', { method: RpcMethods.bash.method(sessionId) });
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { z } from 'zod';
+import { STRING_LIMITS } from './constraints';
+import { SessionIdSchema } from './ids';
+import { PermissionDecisionSchema } from './updates';
+
+// ═══════════════════════════════════════════════════════════════
+// Envelope
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Current RPC envelope version
+ *
+ * Bumped only for breaking changes to the envelope itself, not when methods
+ * are added to the registry.
+ */
+export const RPC_ENVELOPE_VERSION = 1;
+
+/**
+ * Default time a caller waits for an RPC response (milliseconds)
+ */
+export const DEFAULT_RPC_TIMEOUT_MS = 30_000;
+
+/**
+ * Error payload returned by a failed RPC call
+ *
+ * Mirrors `SafeAppErrorJSON` from `@happy/errors` so callers can rebuild an
+ * `AppError` (typically `RPC_FAILED`) without leaking stack traces.
+ *
+ * @example
+ * ```typescript
+ * const error = RpcErrorSchema.parse({
+ *     code: 'RPC_FAILED',
+ *     message: 'Method not registered',
+ *     canTryAgain: false
+ * });
+ * ```
+ */
+export const RpcErrorSchema = z.object({
+    code: z.string().min(1).max(STRING_LIMITS.LABEL_MAX),
+    message: z.string().max(STRING_LIMITS.DESCRIPTION_MAX),
+    canTryAgain: z.boolean().optional(),
+});
+
+export type RpcError = z.infer<typeof RpcErrorSchema>;
+
+/**
+ * RPC request envelope
+ *
+ * @example
+ * ```typescript
+ * const request = RpcRequestEnvelopeSchema.parse({
+ *     v: 1,
+ *     id: 'rpc_01HZX',
+ *     method: 'session_abc123:bash',
+ *     params: 'base64EncryptedParams==',
+ *     timeoutMs: 10000
+ * });
+ * ```
+ */
+export const RpcRequestEnvelopeSchema = z.object({
+    v: z.literal(RPC_ENVELOPE_VERSION),
+    /** Correlation ID, echoed back in the response */
+    id: z.string().min(1).max(STRING_LIMITS.ID_MAX),
+    /** Scoped method name (`<sessionId|machineId>:<method>`) */
+    method: z.string().min(1).max(STRING_LIMITS.NAME_MAX),
+    /** Encrypted call parameters (base64) */
+    params: z.string().max(STRING_LIMITS.CONTENT_MAX),
+    /** How long the caller waits before giving up (milliseconds) */
+    timeoutMs: z.number().int().positive().optional(),
+});
+
+export type RpcRequestEnvelope = z.infer<typeof RpcRequestEnvelopeSchema>;
+
+/**
+ * RPC response envelope
+ *
+ * Discriminated on `ok`: successful calls carry an encrypted result,
+ * failed calls carry a plaintext error payload.
+ *
+ * @example
+ * ```typescript
+ * const success = RpcResponseEnvelopeSchema.parse({
+ *     v: 1, id: 'rpc_01HZX', ok: true, result: 'base64EncryptedResult=='
+ * });
+ * const failure = RpcResponseEnvelopeSchema.parse({
+ *     v: 1, id: 'rpc_01HZX', ok: false, error: { code: 'RPC_FAILED', message: 'Timed out' }
+ * });
+ * ```
+ */
+export const RpcResponseEnvelopeSchema = z.discriminatedUnion('ok', [
+    z.object({
+        v: z.literal(RPC_ENVELOPE_VERSION),
+        id: z.string().min(1).max(STRING_LIMITS.ID_MAX),
+        ok: z.literal(true),
+        /** Encrypted result (base64) */
+        result: z.string().max(STRING_LIMITS.CONTENT_MAX),
+    }),
+    z.object({
+        v: z.literal(RPC_ENVELOPE_VERSION),
+        id: z.string().min(1).max(STRING_LIMITS.ID_MAX),
+        ok: z.literal(false),
+        error: RpcErrorSchema,
+    }),
+]);
+
+export type RpcResponseEnvelope = z.infer<typeof RpcResponseEnvelopeSchema>;
+
+// ═══════════════════════════════════════════════════════════════
+// Method definitions
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Entity an RPC method is registered on
+ */
+export type RpcScope = 'session' | 'machine';
+
+/**
+ * Shared contract for one RPC method
+ */
+export interface RpcMethodDefinition<
+    TName extends string = string,
+    TParams extends z.ZodType = z.ZodType,
+    TResult extends z.ZodType = z.ZodType,
+> {
+    /** Unscoped method name */
+    readonly name: TName;
+    /** Entity the method is registered on */
+    readonly scope: RpcScope;
+    /** Schema of the decrypted parameters */
+    readonly params: TParams;
+    /** Schema of the decrypted result */
+    readonly result: TResult;
+    /** Build the scoped method name used in envelopes and `rpc-register` */
+    method(scopeId: string): string;
+}
+
+/** Decrypted parameter type of an RPC method */
+export type RpcParams<D extends RpcMethodDefinition> = z.infer<D['params']>;
+
+/** Decrypted result type of an RPC method */
+export type RpcResult<D extends RpcMethodDefinition> = z.infer<D['result']>;
+
+/** Handler implementing an RPC method (CLI/daemon side) */
+export type RpcHandler<D extends RpcMethodDefinition> = (params: RpcParams<D>) => Promise<RpcResult<D>>;
+
+/**
+ * Build the scoped method name for an entity
+ *
+ * @example
+ * ```typescript
+ * scopedRpcMethod('session_abc123', 'bash'); // 'session_abc123:bash'
+ * ```
+ */
+export function scopedRpcMethod(scopeId: string, name: string): string {
+    return `${scopeId}:${name}`;
+}
+
+/**
+ * Split a scoped method name into entity ID and method name
+ *
+ * @returns `undefined` if the method is not scoped
+ *
+ * @example
+ * ```typescript
+ * parseScopedRpcMethod('session_abc123:bash'); // { scopeId: 'session_abc123', name: 'bash' }
+ * ```
+ */
+export function parseScopedRpcMethod(method: string): { scopeId: string; name: string } | undefined {
+    const separator = method.indexOf(':');
+    if (separator <= 0 || separator === method.length - 1) {
+        return undefined;
+    }
+    return { scopeId: method.slice(0, separator), name: method.slice(separator + 1) };
+}
+
+/**
+ * Declare the shared contract for an RPC method
+ *
+ * @example
+ * ```typescript
+ * const ping = defineRpcMethod('ping', {
+ *     scope: 'machine',
+ *     params: z.object({}),
+ *     result: z.object({ pong: z.literal(true) }),
+ * });
+ * ```
+ */
+export function defineRpcMethod<TName extends string, TParams extends z.ZodType, TResult extends z.ZodType>(
+    name: TName,
+    definition: { scope: RpcScope; params: TParams; result: TResult }
+): RpcMethodDefinition<TName, TParams, TResult> {
+    return {
+        name,
+        scope: definition.scope,
+        params: definition.params,
+        result: definition.result,
+        method: (scopeId) => scopedRpcMethod(scopeId, name),
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Known methods
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Result of `spawn-happy-session`
+ */
+export const SpawnSessionResultSchema = z.discriminatedUnion('type', [
+    z.object({
+        type: z.literal('success'),
+        sessionId: SessionIdSchema,
+    }),
+    z.object({
+        type: z.literal('requestToApproveDirectoryCreation'),
+        directory: z.string().max(STRING_LIMITS.PATH_MAX),
+    }),
+    z.object({
+        type: z.literal('error'),
+        errorMessage: z.string().max(STRING_LIMITS.DESCRIPTION_MAX),
+    }),
+]);
+
+export type SpawnSessionResult = z.infer<typeof SpawnSessionResultSchema>;
+
+/**
+ * Registry of known RPC methods
+ *
+ * - `spawn-happy-session` (machine): start a new session in a directory
+ * - `abort` (session): interrupt the running agent turn
+ * - `permission` (session): answer a pending permission request
+ * - `bash` (session): run a shell command in the session directory
+ * - `readFile` (session): read a file from the session machine
+ *
+ * Agent flavors and permission modes are bounded strings rather than
+ * `AgentFlavorSchema`/`PermissionModeSchema`, as in `SessionMetadataSchema`,
+ * so an older CLI still accepts calls carrying a newer value.
+ */
+export const RpcMethods = {
+    'spawn-happy-session': defineRpcMethod('spawn-happy-session', {
+        scope: 'machine',
+        params: z.object({
+            directory: z.string().min(1).max(STRING_LIMITS.PATH_MAX),
+            sessionId: SessionIdSchema.optional(),
+            approvedNewDirectoryCreation: z.boolean().optional(),
+            /** Agent to start (see `AgentFlavorSchema` for known values) */
+            agent: z.string().min(1).max(STRING_LIMITS.LABEL_MAX).optional(),
+        }),
+        result: SpawnSessionResultSchema,
+    }),
+    abort: defineRpcMethod('abort', {
+        scope: 'session',
+        params: z.object({}),
+        result: z.object({}),
+    }),
+    permission: defineRpcMethod('permission', {
+        scope: 'session',
+        params: z.object({
+            /** Permission request ID (key in `AgentState.requests`) */
+            id: z.string().min(1).max(STRING_LIMITS.ID_MAX),
+            approved: z.boolean(),
+            reason: z.string().max(STRING_LIMITS.DESCRIPTION_MAX).optional(),
+            /** Permission mode to switch to (see `PermissionModeSchema` for known values) */
+            mode: z.string().min(1).max(STRING_LIMITS.LABEL_MAX).optional(),
+            allowTools: z.array(z.string().max(STRING_LIMITS.MCP_TOOL_NAME_MAX)).optional(),
+            decision: PermissionDecisionSchema.optional(),
+        }),
+        result: z.object({}),
+    }),
+    bash: defineRpcMethod('bash', {
+        scope: 'session',
+        params: z.object({
+            command: z.string().min(1).max(STRING_LIMITS.MESSAGE_MAX),
+            cwd: z.string().max(STRING_LIMITS.PATH_MAX).optional(),
+            /** Command timeout (milliseconds) */
+            timeout: z.number().int().positive().optional(),
+        }),
+        result: z.object({
+            success: z.boolean(),
+            stdout: z.string().max(STRING_LIMITS.CONTENT_MAX).optional(),
+            stderr: z.string().max(STRING_LIMITS.CONTENT_MAX).optional(),
+            exitCode: z.number().int().optional(),
+            error: z.string().max(STRING_LIMITS.DESCRIPTION_MAX).optional(),
+        }),
+    }),
+    readFile: defineRpcMethod('readFile', {
+        scope: 'session',
+        params: z.object({
+            path: z.string().min(1).max(STRING_LIMITS.PATH_MAX),
+        }),
+        result: z.object({
+            success: z.boolean(),
+            /** File content (base64) */
+            content: z.string().max(STRING_LIMITS.CONTENT_MAX).optional(),
+            error: z.string().max(STRING_LIMITS.DESCRIPTION_MAX).optional(),
+        }),
+    }),
+} as const;
+
+export type RpcMethodName = keyof typeof RpcMethods;
@@ -0,0 +1,138 @@
+/**
+ * Tests for sequence tracking and the fetch-since contract
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    SeqTracker,
+    DEFAULT_MAX_GAP,
+    MAX_UPDATES_PER_FETCH,
+    FetchUpdatesSinceRequestSchema,
+    FetchUpdatesSinceResponseSchema,
+} from './index';
+
+const item = (seq: number) => ({ seq });
+const seqs = (items: { seq: number }[]) => items.map((i) => i.seq);
+
+describe('SeqTracker', () => {
+    it('releases in-order containers immediately', () => {
+        const tracker = new SeqTracker();
+        expect(seqs(tracker.push(item(1)).ready)).toEqual([1]);
+        expect(seqs(tracker.push(item(2)).ready)).toEqual([2]);
+        expect(tracker.lastSeq).toBe(2);
+    });
+
+    it('buffers out-of-order containers and reports the gap', () => {
+        const tracker = new SeqTracker({ initialSeq: 10 });
+        const result = tracker.push(item(13));
+        expect(result.ready).toEqual([]);
+        expect(result.gaps).toEqual([{ from: 11, to: 12 }]);
+        expect(result.resyncRequired).toBe(false);
+        expect(tracker.bufferedCount).toBe(1);
+    });
+
+    it('flushes buffered containers once the gap is filled', () => {
+        const tracker = new SeqTracker();
+        tracker.push(item(3));
+        tracker.push(item(2));
+        const result = tracker.push(item(1));
+        expect(seqs(result.ready)).toEqual([1, 2, 3]);
+        expect(result.gaps).toEqual([]);
+        expect(tracker.lastSeq).toBe(3);
+    });
+
+    it('reports multiple gaps', () => {
+        const tracker = new SeqTracker();
+        tracker.push(item(3));
+        expect(tracker.push(item(6)).gaps).toEqual([{ from: 1, to: 2 }, { from: 4, to: 5 }]);
+    });
+
+    it('drops duplicates of applied and buffered containers', () => {
+        const tracker = new SeqTracker();
+        tracker.push(item(1));
+        tracker.push(item(3));
+        expect(tracker.push(item(1)).duplicate).toBe(true);
+        const buffered = tracker.push(item(3));
+        expect(buffered.duplicate).toBe(true);
+        expect(buffered.gaps).toEqual([{ from: 2, to: 2 }]);
+    });
+
+    it('requires a full resync when the gap is too large', () => {
+        const tracker = new SeqTracker({ maxGap: 5 });
+        expect(tracker.push(item(7)).resyncRequired).toBe(true);
+    });
+
+    it('requires a full resync when the buffer overflows', () => {
+        const tracker = new SeqTracker({ maxBufferSize: 2 });
+        tracker.push(item(2));
+        tracker.push(item(3));
+        expect(tracker.push(item(4)).resyncRequired).toBe(true);
+        expect(tracker.planReconnect(4)).toEqual({ kind: 'full-resync', reason: 'buffer-overflow' });
+    });
+
+    it('stops buffering once overflowed', () => {
+        const tracker = new SeqTracker({ maxBufferSize: 2 });
+        tracker.push(item(2));
+        tracker.push(item(3));
+        tracker.push(item(4));
+        expect(tracker.bufferedCount).toBe(0);
+        expect(tracker.push(item(5))).toEqual({ ready: [], duplicate: false, gaps: [], resyncRequired: true });
+        expect(tracker.push(item(1)).ready).toEqual([]);
+        expect(tracker.bufferedCount).toBe(0);
+        expect(tracker.needsFullResync()).toBe(true);
+    });
+
+    it('starts over after reset', () => {
+        const tracker = new SeqTracker({ maxGap: 5 });
+        tracker.push(item(50));
+        tracker.reset(50);
+        expect(tracker.bufferedCount).toBe(0);
+        expect(tracker.needsFullResync()).toBe(false);
+        expect(seqs(tracker.push(item(51)).ready)).toEqual([51]);
+    });
+});
+
+describe('SeqTracker.planReconnect', () => {
+    const tracker = new SeqTracker({ initialSeq: 100, maxGap: 50 });
+
+    it('is up to date when the server seq matches', () => {
+        expect(tracker.planReconnect(100)).toEqual({ kind: 'up-to-date' });
+    });
+
+    it('fetches small gaps', () => {
+        expect(tracker.planReconnect(120)).toEqual({ kind: 'fetch', gap: { from: 101, to: 120 } });
+    });
+
+    it('requires a full resync for large gaps or a regressed server seq', () => {
+        expect(tracker.planReconnect(500)).toEqual({ kind: 'full-resync', reason: 'gap-too-large' });
+        expect(tracker.planReconnect(50)).toEqual({ kind: 'full-resync', reason: 'server-seq-regressed' });
+    });
+
+    it('fetches gaps spanning several pages by default', () => {
+        const fresh = new SeqTracker({ initialSeq: 100 });
+        expect(fresh.planReconnect(100 + 3 * MAX_UPDATES_PER_FETCH)).toMatchObject({ kind: 'fetch' });
+        expect(fresh.planReconnect(100 + DEFAULT_MAX_GAP)).toMatchObject({ kind: 'fetch' });
+        expect(fresh.planReconnect(101 + DEFAULT_MAX_GAP)).toEqual({ kind: 'full-resync', reason: 'gap-too-large' });
+    });
+});
+
+describe('fetch updates since seq', () => {
+    it('validates requests', () => {
+        expect(FetchUpdatesSinceRequestSchema.safeParse({ after: 0 }).success).toBe(true);
+        expect(FetchUpdatesSinceRequestSchema.safeParse({ after: 10, until: 20, limit: 100 }).success).toBe(true);
+        expect(FetchUpdatesSinceRequestSchema.safeParse({ after: -1 }).success).toBe(false);
+        expect(FetchUpdatesSinceRequestSchema.safeParse({ after: 0, limit: 10_000 }).success).toBe(false);
+    });
+
+    it('accepts pages containing update types unknown to this client', () => {
+        const result = FetchUpdatesSinceResponseSchema.safeParse({
+            updates: [
+                { id: 'upd-1', seq: 11, createdAt: 1, body: { t: 'delete-session', sid: 'session-1' } },
+                { id: 'upd-2', seq: 12, createdAt: 2, body: { t: 'future-update', payload: 1 } },
+            ],
+            hasMore: false,
+            currentSeq: 12,
+        });
+        expect(result.success).toBe(true);
+    });
+});
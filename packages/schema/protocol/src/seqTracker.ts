@@ -0,0 +1,284 @@
+/**
+ * Sequence tracking for update streams
+ *
+ * Every `ApiUpdateContainer` carries a per-account `seq` that increases by one
+ * for each persisted update. Sockets can still drop, duplicate or reorder
+ * deliveries, so clients run incoming containers through a `SeqTracker`:
+ *
+ * - containers are released strictly in `seq` order
+ * - duplicates (already applied or already buffered) are dropped
+ * - out-of-order containers are buffered until the gap before them is filled
+ * - missing ranges are reported as `{ from, to }` to re-fetch with a
+ *   "fetch updates since seq" call
+ * - gaps too large to fill, or a server seq that went backwards, signal that
+ *   the client must discard its store and run a full resync
+ *
+ * @example
+ * ```typescript
+ * import { SeqTracker, applyUpdate } from '@happy/protocol';
+ *
+ * const tracker = new SeqTracker({ initialSeq: state.seq });
+ *
+ * socket.on('update', async (container) => {
+ *     const result = tracker.push(container);
+ *     for (const ready of result.ready) {
+ *         state = applyUpdate(state, ready);
+ *     }
+ *     if (result.resyncRequired) {
+ *         await fullResync();
+ *     } else if (result.gaps.length > 0) {
+ *         await fetchMissing(result.gaps);
+ *     }
+ * });
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { z } from 'zod';
+import { UpdatePayloadSchema } from './payloads';
+
+// ═══════════════════════════════════════════════════════════════
+// Fetch contract
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Maximum number of updates returned by a single fetch
+ */
+export const MAX_UPDATES_PER_FETCH = 500;
+
+/**
+ * Default largest gap filled by fetching instead of a full resync
+ *
+ * A gap is not limited to one fetch: `FetchUpdatesSince` pages through it
+ * with `hasMore`. Ten pages of updates still cost less to replay than
+ * downloading every session, machine and artifact again; past that a full
+ * resync is the cheaper way to catch up.
+ */
+export const DEFAULT_MAX_GAP = 10 * MAX_UPDATES_PER_FETCH;
+
+/**
+ * Request for updates after a known sequence number
+ *
+ * @example
+ * ```typescript
+ * const request = FetchUpdatesSinceRequestSchema.parse({ after: 120, limit: 100 });
+ * ```
+ */
+export const FetchUpdatesSinceRequestSchema = z.object({
+    /** Last seq the client has applied; updates with `seq > after` are returned */
+    after: z.number().int().nonnegative(),
+    /** Inclusive upper bound, to fill a specific gap */
+    until: z.number().int().nonnegative().optional(),
+    /** Page size (defaults to `MAX_UPDATES_PER_FETCH`) */
+    limit: z.number().int().min(1).max(MAX_UPDATES_PER_FETCH).optional(),
+});
+
+export type FetchUpdatesSinceRequest = z.infer<typeof FetchUpdatesSinceRequestSchema>;
+
+/**
+ * Response to `FetchUpdatesSinceRequest`
+ *
+ * `updates` uses the loose wire format so that one update type newer than the
+ * client does not reject the whole page. Run each entry through
+ * `parseUpdateContainer` before applying it.
+ *
+ * @example
+ * ```typescript
+ * const page = FetchUpdatesSinceResponseSchema.parse(await response.json());
+ * for (const raw of page.updates) {
+ *     const parsed = parseUpdateContainer(raw);
+ *     // ...
+ * }
+ * if (page.hasMore) {
+ *     // request the next page with after = last returned seq
+ * }
+ * ```
+ */
+export const FetchUpdatesSinceResponseSchema = z.object({
+    /** Updates in ascending `seq` order */
+    updates: z.array(UpdatePayloadSchema).max(MAX_UPDATES_PER_FETCH),
+    /** True if more updates exist within the requested range */
+    hasMore: z.boolean(),
+    /** Latest seq on the server when the response was produced */
+    currentSeq: z.number().int().nonnegative(),
+});
+
+export type FetchUpdatesSinceResponse = z.infer<typeof FetchUpdatesSinceResponseSchema>;
+
+// ═══════════════════════════════════════════════════════════════
+// Tracker
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Inclusive range of missing sequence numbers
+ */
+export interface SeqGap {
+    from: number;
+    to: number;
+}
+
+/**
+ * Outcome of pushing a container into the tracker
+ */
+export interface SeqPushResult<T> {
+    /** Containers now ready to apply, in ascending `seq` order */
+    ready: T[];
+    /** True if the pushed container was already applied or buffered */
+    duplicate: boolean;
+    /** Missing ranges to re-fetch */
+    gaps: SeqGap[];
+    /** True if the gap cannot be filled incrementally */
+    resyncRequired: boolean;
+}
+
+/**
+ * What a client should do after (re)connecting
+ */
+export type ResyncPlan =
+    | { kind: 'up-to-date' }
+    | { kind: 'fetch'; gap: SeqGap }
+    | { kind: 'full-resync'; reason: 'gap-too-large' | 'server-seq-regressed' | 'buffer-overflow' };
+
+export interface SeqTrackerOptions {
+    /** Last seq already applied by the client (default `0`) */
+    initialSeq?: number;
+    /** Largest gap filled by fetching before a full resync is required (default `DEFAULT_MAX_GAP`) */
+    maxGap?: number;
+    /**
+     * Maximum number of out-of-order containers buffered (default `1000`).
+     * Past it the buffer is dropped and pushes are ignored until `reset`.
+     */
+    maxBufferSize?: number;
+}
+
+/**
+ * Orders, de-duplicates and gap-checks a stream of sequenced containers
+ *
+ * The tracker is deterministic and does no I/O: it only tells the caller
+ * what is ready to apply and what is missing.
+ */
+export class SeqTracker<T extends { seq: number } = { seq: number }> {
+    private applied: number;
+    private readonly buffer = new Map<number, T>();
+    private readonly maxGap: number;
+    private readonly maxBufferSize: number;
+    private overflowed = false;
+
+    constructor(options: SeqTrackerOptions = {}) {
+        this.applied = options.initialSeq ?? 0;
+        this.maxGap = options.maxGap ?? DEFAULT_MAX_GAP;
+        this.maxBufferSize = options.maxBufferSize ?? 1000;
+    }
+
+    /**
+     * Highest seq released in order
+     */
+    get lastSeq(): number {
+        return this.applied;
+    }
+
+    /**
+     * Number of out-of-order containers waiting for a gap to be filled
+     */
+    get bufferedCount(): number {
+        return this.buffer.size;
+    }
+
+    /**
+     * Accept a container from the socket or from a fetch response
+     */
+    push(container: T): SeqPushResult<T> {
+        const { seq } = container;
+        if (this.overflowed) {
+            // A full resync is pending; buffering more would only grow memory
+            return { ready: [], duplicate: false, gaps: [], resyncRequired: true };
+        }
+        if (seq <= this.applied || this.buffer.has(seq)) {
+            return { ready: [], duplicate: true, gaps: this.gaps(), resyncRequired: this.needsFullResync() };
+        }
+
+        this.buffer.set(seq, container);
+        if (this.buffer.size > this.maxBufferSize) {
+            this.overflowed = true;
+            this.buffer.clear();
+            return { ready: [], duplicate: false, gaps: [], resyncRequired: true };
+        }
+
+        const ready: T[] = [];
+        let next = this.buffer.get(this.applied + 1);
+        while (next) {
+            this.buffer.delete(next.seq);
+            this.applied = next.seq;
+            ready.push(next);
+            next = this.buffer.get(this.applied + 1);
+        }
+
+        return { ready, duplicate: false, gaps: this.gaps(), resyncRequired: this.needsFullResync() };
+    }
+
+    /**
+     * Missing ranges between the last applied seq and the highest buffered seq
+     */
+    gaps(): SeqGap[] {
+        const gaps: SeqGap[] = [];
+        let expected = this.applied + 1;
+        for (const seq of [...this.buffer.keys()].sort((a, b) => a - b)) {
+            if (seq > expected) {
+                gaps.push({ from: expected, to: seq - 1 });
+            }
+            expected = seq + 1;
+        }
+        return gaps;
+    }
+
+    /**
+     * True if buffered data cannot be reconciled by fetching the gaps
+     */
+    needsFullResync(): boolean {
+        if (this.overflowed) {
+            return true;
+        }
+        const gaps = this.gaps();
+        const missing = gaps.reduce((total, gap) => total + gap.to - gap.from + 1, 0);
+        return missing > this.maxGap;
+    }
+
+    /**
+     * Decide how to catch up after connecting, given the server's current seq
+     *
+     * A `fetch` gap can span several pages; keep fetching while `hasMore`.
+     *
+     * @example
+     * ```typescript
+     * const plan = tracker.planReconnect(ack.seq);
+     * if (plan.kind === 'fetch') {
+     *     await fetchUpdatesSince({ after: plan.gap.from - 1, until: plan.gap.to });
+     * }
+     * ```
+     */
+    planReconnect(serverSeq: number): ResyncPlan {
+        if (this.overflowed) {
+            return { kind: 'full-resync', reason: 'buffer-overflow' };
+        }
+        if (serverSeq < this.applied) {
+            return { kind: 'full-resync', reason: 'server-seq-regressed' };
+        }
+        if (serverSeq === this.applied) {
+            return { kind: 'up-to-date' };
+        }
+        if (serverSeq - this.applied > this.maxGap) {
+            return { kind: 'full-resync', reason: 'gap-too-large' };
+        }
+        return { kind: 'fetch', gap: { from: this.applied + 1, to: serverSeq } };
+    }
+
+    /**
+     * Start over from a known seq, e.g. after a full resync
+     */
+    reset(seq: number): void {
+        this.applied = seq;
+        this.buffer.clear();
+        this.overflowed = false;
+    }
+}
@@ -0,0 +1,202 @@
+/**
+ * Tests for the session lifecycle state machine
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ErrorCodes } from '@happy/errors';
+import {
+    sessionLifecycleReducer,
+    isLegalSessionTransition,
+    asSessionId,
+    asUserId,
+    type ArchiveReason,
+    type SessionLifecycleEvent,
+    type SessionLifecycleState,
+} from './index';
+
+const SID = asSessionId('session-1');
+
+const created: SessionLifecycleEvent = {
+    t: 'new-session',
+    sid: SID,
+    seq: 1,
+    metadata: 'm',
+    metadataVersion: 1,
+    agentState: null,
+    agentStateVersion: 0,
+    dataEncryptionKey: null,
+    active: true,
+    activeAt: 100,
+    createdAt: 100,
+    updatedAt: 100,
+};
+
+function activity(active: boolean, thinking: boolean, activeAt: number): SessionLifecycleEvent {
+    return { type: 'activity', sid: SID, active, activeAt, thinking };
+}
+
+function archived(archiveReason: ArchiveReason, archivedAt = 500): SessionLifecycleEvent {
+    return { t: 'archive-session', sid: SID, archivedAt, archiveReason };
+}
+
+const deleted: SessionLifecycleEvent = { t: 'delete-session', sid: SID };
+
+const restored: SessionLifecycleEvent = {
+    t: 'unarchive-session',
+    sid: SID,
+    restoredAt: 700,
+    restoredBy: asUserId('user-1'),
+};
+
+/** Apply events in order, failing the test on any rejection */
+function run(events: SessionLifecycleEvent[]): SessionLifecycleState | undefined {
+    let state: SessionLifecycleState | undefined;
+    for (const event of events) {
+        const result = sessionLifecycleReducer(state, event);
+        if (!result.ok) {
+            throw result.error;
+        }
+        state = result.state;
+    }
+    return state;
+}
+
+describe('sessionLifecycleReducer', () => {
+    it('walks the happy path', () => {
+        expect(run([created])).toEqual({ status: 'new', sid: SID, since: 100 });
+        expect(run([created, activity(true, false, 200)])).toMatchObject({ status: 'active', since: 200 });
+        expect(run([created, activity(true, true, 200)])).toMatchObject({ status: 'thinking' });
+        expect(run([created, activity(true, true, 200), activity(false, false, 300)])).toMatchObject({ status: 'idle' });
+        expect(run([created, activity(false, false, 300), archived('timeout')])).toEqual({
+            status: 'archived',
+            sid: SID,
+            since: 500,
+            reason: 'timeout',
+        });
+        expect(run([created, archived('user_requested'), deleted])).toEqual({ status: 'deleted', sid: SID });
+    });
+
+    it('rejects activity after delete and keeps the state', () => {
+        const state = run([created, deleted]);
+        const result = sessionLifecycleReducer(state, activity(true, false, 600));
+        expect(result).toMatchObject({
+            ok: false,
+            state: { status: 'deleted' },
+            error: {
+                code: ErrorCodes.INVARIANT_VIOLATION,
+                context: { sid: SID, from: 'deleted', to: 'active', event: 'activity' },
+            },
+        });
+    });
+
+    it('rejects activity after a normal archive', () => {
+        const result = sessionLifecycleReducer(run([created, archived('user_requested')]), activity(true, false, 600));
+        expect(result).toMatchObject({ ok: false, error: { code: ErrorCodes.INVARIANT_VIOLATION } });
+    });
+
+    it('reports SESSION_REVIVAL_FAILED for activity after a failed revival', () => {
+        const result = sessionLifecycleReducer(run([created, archived('revival_failed')]), activity(true, false, 600));
+        expect(result).toMatchObject({
+            ok: false,
+            state: { status: 'archived', reason: 'revival_failed' },
+            error: { code: ErrorCodes.SESSION_REVIVAL_FAILED, canTryAgain: false },
+        });
+    });
+
+    it('restores archived sessions as idle', () => {
+        expect(run([created, archived('timeout'), restored])).toEqual({ status: 'idle', sid: SID, since: 700 });
+        expect(run([created, archived('revival_failed'), restored, activity(true, false, 800)])).toMatchObject({
+            status: 'active',
+        });
+    });
+
+    it('rejects unarchiving a session that is not archived', () => {
+        expect(sessionLifecycleReducer(run([created]), restored)).toMatchObject({
+            ok: false,
+            error: { code: ErrorCodes.INVARIANT_VIOLATION, context: { from: 'new', event: 'unarchive-session' } },
+        });
+        expect(sessionLifecycleReducer(run([created, deleted]), restored).ok).toBe(false);
+    });
+
+    it('treats identical repeats as no-ops', () => {
+        const fresh = run([created]);
+        expect(sessionLifecycleReducer(fresh, created)).toEqual({ ok: true, state: fresh });
+        const archivedState = run([created, archived('timeout')]);
+        expect(sessionLifecycleReducer(archivedState, archived('timeout'))).toEqual({ ok: true, state: archivedState });
+        const deletedState = run([created, deleted]);
+        expect(sessionLifecycleReducer(deletedState, deleted)).toEqual({ ok: true, state: deletedState });
+    });
+
+    it('keeps the first archive when archived again', () => {
+        const state = run([created, archived('timeout')]);
+        expect(sessionLifecycleReducer(state, archived('timeout', 900))).toEqual({ ok: true, state });
+        expect(sessionLifecycleReducer(state, archived('user_requested', 900))).toEqual({ ok: true, state });
+    });
+
+    it('rejects creating twice', () => {
+        expect(sessionLifecycleReducer(run([created, activity(true, false, 200)]), created).ok).toBe(false);
+    });
+
+    it('rejects events dated before the current state', () => {
+        expect(sessionLifecycleReducer(run([created]), archived('timeout', 50))).toMatchObject({
+            ok: false,
+            state: { status: 'new', since: 100 },
+            error: {
+                code: ErrorCodes.INVARIANT_VIOLATION,
+                context: { from: 'new', to: 'archived', event: 'archive-session' },
+            },
+        });
+        const restoredState = run([created, archived('timeout'), restored]);
+        expect(sessionLifecycleReducer(restoredState, archived('timeout', 600))).toMatchObject({
+            ok: false,
+            state: restoredState,
+        });
+        expect(sessionLifecycleReducer(restoredState, archived('timeout', 700)).ok).toBe(true);
+        expect(sessionLifecycleReducer(restoredState, deleted).ok).toBe(true);
+    });
+
+    it('ignores activity dated before the current state', () => {
+        const state = run([created, activity(true, true, 300)]);
+        // Two reports delivered out of order: the older one is superseded
+        expect(sessionLifecycleReducer(state, activity(false, false, 200))).toEqual({ ok: true, state });
+
+        // Clock skew: the CLI's activity predates the server's restore
+        const restoredState = run([created, archived('timeout'), restored]);
+        expect(sessionLifecycleReducer(restoredState, activity(true, false, 650))).toEqual({ ok: true, state: restoredState });
+
+        // Even on an archived session, an old report is not an illegal transition
+        const archivedState = run([created, archived('revival_failed')]);
+        expect(sessionLifecycleReducer(archivedState, activity(true, false, 200))).toEqual({ ok: true, state: archivedState });
+    });
+
+    it('rejects events for a different session', () => {
+        const result = sessionLifecycleReducer(run([created]), { ...deleted, t: 'delete-session', sid: asSessionId('session-2') });
+        expect(result).toMatchObject({
+            ok: false,
+            state: { status: 'new', sid: SID },
+            error: { code: ErrorCodes.INVARIANT_VIOLATION, context: { sid: 'session-2', from: 'new', to: 'deleted' } },
+        });
+    });
+
+    it('only accepts new-session or delete-session for unknown sessions', () => {
+        expect(sessionLifecycleReducer(undefined, activity(true, false, 1))).toMatchObject({
+            ok: false,
+            state: undefined,
+            error: { context: { from: null, to: 'active' } },
+        });
+        expect(sessionLifecycleReducer(undefined, deleted).ok).toBe(true);
+    });
+});
+
+describe('isLegalSessionTransition', () => {
+    it('allows deletion from every state but deleted', () => {
+        for (const status of ['new', 'active', 'thinking', 'idle', 'archived'] as const) {
+            expect(isLegalSessionTransition(status, 'deleted')).toBe(true);
+        }
+        expect(isLegalSessionTransition('deleted', 'deleted')).toBe(false);
+    });
+
+    it('never returns to new', () => {
+        expect(isLegalSessionTransition('active', 'new')).toBe(false);
+    });
+});
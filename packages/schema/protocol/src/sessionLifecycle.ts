@@ -0,0 +1,272 @@
+/**
+ * Session lifecycle state machine
+ *
+ * Makes the lifecycle implied by `new-session`, `activity`, `archive-session`,
+ * `unarchive-session` and `delete-session` explicit:
+ *
+ * ```
+ * new ──► active | thinking | idle ◄──► archived ──► deleted
+ * ```
+ *
+ * `active`, `thinking` and `idle` move freely between each other. An
+ * archived session only comes back through `unarchive-session`, which
+ * restores it as `idle`. Any state may go straight to `deleted`, which is
+ * terminal.
+ *
+ * `sessionLifecycleReducer` applies one event and rejects illegal
+ * transitions (e.g. activity after delete) with an `AppError` instead of
+ * silently accepting them. Activity on a session archived with reason
+ * `revival_failed` is rejected as `SESSION_REVIVAL_FAILED`, so callers can
+ * tell "this session could not be resumed" apart from a protocol bug; the
+ * user can still restore it explicitly.
+ *
+ * @example
+ * ```typescript
+ * import { sessionLifecycleReducer } from '@happy/protocol';
+ *
+ * const result = sessionLifecycleReducer(lifecycles[sid], event);
+ * if (result.ok) {
+ *     lifecycles[sid] = result.state;
+ * } else if (result.error.code === 'SESSION_REVIVAL_FAILED') {
+ *     showRevivalFailed(sid);
+ * } else {
+ *     logger.warn(result.error.toJSON());
+ * }
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { z } from 'zod';
+import { AppError, ErrorCodes } from '@happy/errors';
+import type { SessionId } from './ids';
+import type {
+    ArchiveReason,
+    ApiUpdateNewSession,
+    ApiArchiveSession,
+    ApiUnarchiveSession,
+    ApiDeleteSession,
+} from './updates';
+import type { ApiEphemeralActivityUpdate } from './ephemeral';
+
+// ═══════════════════════════════════════════════════════════════
+// States
+// ═══════════════════════════════════════════════════════════════
+
+export const SessionLifecycleStatusSchema = z.enum([
+    'new',
+    'active',
+    'thinking',
+    'idle',
+    'archived',
+    'deleted',
+]);
+
+export type SessionLifecycleStatus = z.infer<typeof SessionLifecycleStatusSchema>;
+
+/**
+ * Lifecycle state of one session
+ *
+ * `since` is the timestamp of the event that entered the state.
+ */
+export type SessionLifecycleState =
+    | { status: 'new' | 'active' | 'thinking' | 'idle'; sid: SessionId; since: number }
+    | { status: 'archived'; sid: SessionId; since: number; reason: ArchiveReason }
+    | { status: 'deleted'; sid: SessionId };
+
+/**
+ * Legal transitions, keyed by the current status
+ *
+ * Self-transitions between live states are legal (repeated activity reports).
+ * `archived -> idle` is only taken by `unarchive-session`.
+ */
+export const SESSION_LIFECYCLE_TRANSITIONS: Readonly<Record<SessionLifecycleStatus, readonly SessionLifecycleStatus[]>> = {
+    new: ['active', 'thinking', 'idle', 'archived', 'deleted'],
+    active: ['active', 'thinking', 'idle', 'archived', 'deleted'],
+    thinking: ['active', 'thinking', 'idle', 'archived', 'deleted'],
+    idle: ['active', 'thinking', 'idle', 'archived', 'deleted'],
+    archived: ['idle', 'deleted'],
+    deleted: [],
+};
+
+/**
+ * Check whether a session may move from one status to another
+ */
+export function isLegalSessionTransition(from: SessionLifecycleStatus, to: SessionLifecycleStatus): boolean {
+    return SESSION_LIFECYCLE_TRANSITIONS[from].includes(to);
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Events
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Updates and ephemerals that drive the session lifecycle
+ */
+export type SessionLifecycleEvent =
+    | ApiUpdateNewSession
+    | ApiArchiveSession
+    | ApiUnarchiveSession
+    | ApiDeleteSession
+    | ApiEphemeralActivityUpdate;
+
+export type SessionLifecycleResult =
+    | { ok: true; state: SessionLifecycleState }
+    | { ok: false; state: SessionLifecycleState | undefined; error: AppError };
+
+// ═══════════════════════════════════════════════════════════════
+// Reducer
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Apply one lifecycle event to a session's state
+ *
+ * Pass `undefined` for a session not seen yet; only `new-session` and
+ * `delete-session` are accepted then. An event that would produce exactly
+ * the current state (a redelivered `new-session` or `delete-session`) and
+ * any `archive-session` on an already archived session are no-ops that
+ * return `state` itself, so the first archive's `since` and reason stay.
+ * Activity dated before the current state's `since` is a no-op too:
+ * activity ephemerals carry no seq and are stamped by the CLI clock, so
+ * reordered reports and clock skew against the server's timestamps are
+ * expected. On rejection the previous state is returned unchanged together with the
+ * error:
+ *
+ * - `SESSION_REVIVAL_FAILED` for activity on a session archived with reason `revival_failed`
+ * - `INVARIANT_VIOLATION` for every other illegal transition, including
+ *   activity on any other archived session, `unarchive-session` on a
+ *   session that is not archived, an event for a different `sid` and an
+ *   update dated before the current state's `since` (e.g. an archive older
+ *   than the session's creation or last unarchive)
+ */
+export function sessionLifecycleReducer(
+    state: SessionLifecycleState | undefined,
+    event: SessionLifecycleEvent
+): SessionLifecycleResult {
+    const next = targetState(event);
+    const eventName = 't' in event ? event.t : event.type;
+
+    if (state === undefined) {
+        if (next.status === 'new' || next.status === 'deleted') {
+            return { ok: true, state: next };
+        }
+        return reject(state, next, eventName, `Session ${next.sid} received '${eventName}' before 'new-session'`);
+    }
+
+    if (next.sid !== state.sid) {
+        return reject(state, next, eventName, `Event for session ${next.sid} applied to session ${state.sid}`);
+    }
+
+    if (isSameState(state, next)) {
+        return { ok: true, state };
+    }
+
+    if (next.status === 'new') {
+        return reject(state, next, eventName, `Session ${state.sid} already exists`);
+    }
+
+    // A redelivered or duplicate archive keeps the original archive
+    if (state.status === 'archived' && next.status === 'archived') {
+        return { ok: true, state };
+    }
+
+    // Unsequenced activity from the past is superseded, not illegal
+    if (eventName === 'activity' && state.status !== 'deleted' && next.status !== 'deleted' && next.since < state.since) {
+        return { ok: true, state };
+    }
+
+    if (state.status !== 'deleted' && next.status !== 'deleted' && next.since < state.since) {
+        return reject(
+            state,
+            next,
+            eventName,
+            `Session ${state.sid} received '${eventName}' at ${next.since}, before its ${state.status} state since ${state.since}`
+        );
+    }
+
+    if (state.status === 'archived' && eventName === 'activity') {
+        if (state.reason === 'revival_failed') {
+            return {
+                ok: false,
+                state,
+                error: new AppError(
+                    ErrorCodes.SESSION_REVIVAL_FAILED,
+                    `Session ${state.sid} could not be revived and was archived`,
+                    { canTryAgain: false, context: { sid: state.sid, archivedAt: state.since } }
+                ),
+            };
+        }
+        return rejectTransition(state, next, eventName);
+    }
+
+    // Restoring is the only way out of the archive, and only valid from it
+    if (eventName === 'unarchive-session' && state.status !== 'archived') {
+        return rejectTransition(state, next, eventName);
+    }
+
+    if (!isLegalSessionTransition(state.status, next.status)) {
+        return rejectTransition(state, next, eventName);
+    }
+
+    return { ok: true, state: next };
+}
+
+function targetState(event: SessionLifecycleEvent): SessionLifecycleState {
+    if ('type' in event) {
+        if (!event.active) {
+            return { status: 'idle', sid: event.sid, since: event.activeAt };
+        }
+        return { status: event.thinking ? 'thinking' : 'active', sid: event.sid, since: event.activeAt };
+    }
+    switch (event.t) {
+        case 'new-session':
+            return { status: 'new', sid: event.sid, since: event.createdAt };
+        case 'archive-session':
+            return { status: 'archived', sid: event.sid, since: event.archivedAt, reason: event.archiveReason };
+        case 'unarchive-session':
+            return { status: 'idle', sid: event.sid, since: event.restoredAt };
+        case 'delete-session':
+            return { status: 'deleted', sid: event.sid };
+        default: {
+            const _exhaustive: never = event;
+            throw new Error(`Unknown update type: ${(_exhaustive as ApiUpdateNewSession).t}`);
+        }
+    }
+}
+
+function isSameState(a: SessionLifecycleState, b: SessionLifecycleState): boolean {
+    if (a.sid !== b.sid || a.status !== b.status) {
+        return false;
+    }
+    if (a.status === 'deleted' || b.status === 'deleted') {
+        return true;
+    }
+    if (a.since !== b.since) {
+        return false;
+    }
+    return a.status !== 'archived' || (b.status === 'archived' && a.reason === b.reason);
+}
+
+function rejectTransition(
+    state: SessionLifecycleState,
+    next: SessionLifecycleState,
+    eventName: string
+): SessionLifecycleResult {
+    return reject(state, next, eventName, `Illegal session transition ${state.status} -> ${next.status} on '${eventName}'`);
+}
+
+function reject(
+    state: SessionLifecycleState | undefined,
+    next: SessionLifecycleState,
+    eventName: string,
+    message: string
+): SessionLifecycleResult {
+    return {
+        ok: false,
+        state,
+        error: new AppError(ErrorCodes.INVARIANT_VIOLATION, message, {
+            canTryAgain: false,
+            context: { sid: next.sid, from: state?.status ?? null, to: next.status, event: eventName },
+        }),
+    };
+}
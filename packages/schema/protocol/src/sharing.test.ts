@@ -1,4 +1,6 @@
+import { createHash, createPublicKey, generateKeyPairSync, sign, verify } from 'node:crypto';
 import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
 import {
     SessionSharePermissionSchema,
     SessionShareEntrySchema,
@@ -12,7 +14,20 @@ import {
     UpdateUrlSharingRequestSchema,
     RevokeInvitationRequestSchema,
     ResendInvitationRequestSchema,
+    SetInvitationDataKeyRequestSchema,
+    SetShareDataKeysRequestSchema,
+    DeliverRotatedDataKeyRequestSchema,
+    hasValidInvitationDataKeys,
+    MAX_WRAPPED_DATA_KEYS,
+    MAX_KEY_RECIPIENTS,
+    PublicKeyDirectoryEntrySchema,
+    PublicKeyDirectorySchema,
+    MAX_SIGNING_KEYS_PER_USER,
+    findSigningKey,
+    getContentKeySigner,
 } from './sharing';
+import { contentKeyBindingInput, messageSignatureInput } from './signature';
+import { asSessionId, asUserId } from './ids';
 import { STRING_LIMITS } from './constraints';
 
 // ═══════════════════════════════════════════════════════════════
@@ -98,6 +113,17 @@ describe('SessionShareEntrySchema', () => {
             });
             expect(result.success).toBe(true);
         });
+
+        it('validates entry with wrappedDataKeys', () => {
+            const result = SessionShareEntrySchema.safeParse({
+                ...validEntry,
+                wrappedDataKeys: [
+                    { keyVersion: 0, wrappedDataKey: 'base64WrappedKey==' },
+                    { keyVersion: 1, wrappedDataKey: 'base64RotatedKey==' },
+                ],
+            });
+            expect(result.success).toBe(true);
+        });
     });
 
     describe('invalid data', () => {
@@ -167,6 +193,198 @@ describe('SessionShareEntrySchema', () => {
             });
             expect(result.success).toBe(true);
         });
+
+        it('rejects wrappedDataKey exceeding DATA_ENCRYPTION_KEY_MAX', () => {
+            const result = SessionShareEntrySchema.safeParse({
+                ...validEntry,
+                wrappedDataKeys: [{ keyVersion: 0, wrappedDataKey: 'x'.repeat(STRING_LIMITS.DATA_ENCRYPTION_KEY_MAX + 1) }],
+            });
+            expect(result.success).toBe(false);
+        });
+
+        it('rejects more than MAX_WRAPPED_DATA_KEYS versions', () => {
+            const result = SessionShareEntrySchema.safeParse({
+                ...validEntry,
+                wrappedDataKeys: Array.from({ length: MAX_WRAPPED_DATA_KEYS + 1 }, (_, keyVersion) => ({
+                    keyVersion,
+                    wrappedDataKey: 'base64WrappedKey==',
+                })),
+            });
+            expect(result.success).toBe(false);
+        });
+
+        it('rejects two keys for the same version', () => {
+            const result = SessionShareEntrySchema.safeParse({
+                ...validEntry,
+                wrappedDataKeys: [
+                    { keyVersion: 1, wrappedDataKey: 'base64WrappedKey==' },
+                    { keyVersion: 1, wrappedDataKey: 'base64RotatedKey==' },
+                ],
+            });
+            expect(result.success).toBe(false);
+            expect(result.error?.issues[0]?.message).toBe('Duplicate keyVersion');
+        });
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════
+// Public-Key Directory Tests
+// ═══════════════════════════════════════════════════════════════
+
+const signingKey = { keyId: '3f2a9c0d1e4b5a697887766554433221', signingPublicKey: 'base64Ed25519PublicKey=' };
+
+const contentKeySignature = { keyId: signingKey.keyId, alg: 'ed25519' as const, sig: 'base64Signature==' };
+
+function directoryEntry(userId: string) {
+    return { userId, contentPublicKey: `content-${userId}=`, signingKeys: [signingKey], contentKeySignature };
+}
+
+/** Ed25519 device key with its raw public key and `signingKeyId` */
+function signingDevice() {
+    const device = generateKeyPairSync('ed25519');
+    const raw = Buffer.from(device.publicKey.export({ format: 'jwk' }).x ?? '', 'base64url');
+    // signingKeyId: hex of the first 16 bytes of SHA-512(publicKey)
+    const keyId = createHash('sha512').update(raw).digest().subarray(0, 16).toString('hex');
+    return { ...device, keyId, signingPublicKey: raw.toString('base64') };
+}
+
+function publicKeyFromBase64(signingPublicKey: string) {
+    const x = Buffer.from(signingPublicKey, 'base64').toString('base64url');
+    return createPublicKey({ key: { kty: 'OKP', crv: 'Ed25519', x }, format: 'jwk' });
+}
+
+describe('PublicKeyDirectoryEntrySchema', () => {
+    it('validates an entry', () => {
+        const result = PublicKeyDirectoryEntrySchema.safeParse({
+            userId: 'user_abc123',
+            contentPublicKey: 'dh2I7IMEE5Gd/p1NHVbxfmU8jJlAgt9bE3uQoK5u33Q=',
+            signingKeys: [signingKey],
+            contentKeySignature,
+        });
+        expect(result.success).toBe(true);
+    });
+
+    it('requires a content key signature', () => {
+        const { contentKeySignature: _, ...unsigned } = directoryEntry('user_abc123');
+        expect(PublicKeyDirectoryEntrySchema.safeParse(unsigned).success).toBe(false);
+    });
+
+    it('rejects empty and oversized keys', () => {
+        expect(PublicKeyDirectoryEntrySchema.safeParse({ ...directoryEntry('user_abc123'), contentPublicKey: '' }).success)
+            .toBe(false);
+        expect(PublicKeyDirectoryEntrySchema.safeParse({
+            ...directoryEntry('user_abc123'),
+            contentPublicKey: 'x'.repeat(STRING_LIMITS.PUBLIC_KEY_MAX + 1),
+        }).success).toBe(false);
+        expect(PublicKeyDirectoryEntrySchema.safeParse({
+            ...directoryEntry('user_abc123'),
+            signingKeys: [{ ...signingKey, signingPublicKey: '' }],
+        }).success).toBe(false);
+    });
+
+    it('rejects duplicate and too many signing keys', () => {
+        expect(PublicKeyDirectoryEntrySchema.safeParse({
+            ...directoryEntry('user_abc123'),
+            signingKeys: [signingKey, signingKey],
+        }).success).toBe(false);
+        expect(PublicKeyDirectoryEntrySchema.safeParse({
+            ...directoryEntry('user_abc123'),
+            signingKeys: Array.from({ length: MAX_SIGNING_KEYS_PER_USER + 1 }, (_, i) => ({ ...signingKey, keyId: `key-${i}` })),
+        }).success).toBe(false);
+    });
+});
+
+describe('PublicKeyDirectorySchema', () => {
+    it('maps user IDs to entries', () => {
+        const result = PublicKeyDirectorySchema.safeParse({ user_a: directoryEntry('user_a'), user_b: directoryEntry('user_b') });
+        expect(result.success).toBe(true);
+    });
+
+    it('rejects oversized user IDs, empty keys and mismatched entries', () => {
+        const longId = 'x'.repeat(STRING_LIMITS.ID_MAX + 1);
+        expect(PublicKeyDirectorySchema.safeParse({ [longId]: directoryEntry(longId) }).success).toBe(false);
+        expect(PublicKeyDirectorySchema.safeParse({ user_a: { ...directoryEntry('user_a'), contentPublicKey: '' } }).success)
+            .toBe(false);
+        expect(PublicKeyDirectorySchema.safeParse({ user_a: directoryEntry('user_b') }).success).toBe(false);
+    });
+
+    it('rejects more than MAX_KEY_RECIPIENTS users', () => {
+        const directory = (size: number) =>
+            Object.fromEntries(Array.from({ length: size }, (_, i) => [`user_${i}`, directoryEntry(`user_${i}`)]));
+        expect(PublicKeyDirectorySchema.safeParse(directory(MAX_KEY_RECIPIENTS)).success).toBe(true);
+        expect(PublicKeyDirectorySchema.safeParse(directory(MAX_KEY_RECIPIENTS + 1)).success).toBe(false);
+    });
+
+    it('checks the size before parsing any entry', () => {
+        const oversized = Object.fromEntries(Array.from({ length: MAX_KEY_RECIPIENTS + 1 }, (_, i) => [`user_${i}`, null]));
+        const result = PublicKeyDirectorySchema.safeParse(oversized);
+        expect(result.success).toBe(false);
+        expect(result.error?.issues).toHaveLength(1);
+    });
+});
+
+describe('getContentKeySigner', () => {
+    it('returns the signing key named by the content key signature', () => {
+        expect(getContentKeySigner(directoryEntry('user_a'))).toEqual(signingKey);
+        expect(getContentKeySigner({
+            ...directoryEntry('user_a'),
+            contentKeySignature: { ...contentKeySignature, keyId: 'other' },
+        })).toBeUndefined();
+    });
+
+    it('binds the content key to the user and detects a swapped key', () => {
+        const device = signingDevice();
+        const userId = asUserId('user_a');
+        const contentPublicKey = 'dh2I7IMEE5Gd/p1NHVbxfmU8jJlAgt9bE3uQoK5u33Q=';
+        const sig = sign(null, Buffer.from(contentKeyBindingInput(userId, contentPublicKey)), device.privateKey);
+        const entry = PublicKeyDirectorySchema.parse({
+            user_a: {
+                userId,
+                contentPublicKey,
+                signingKeys: [{ keyId: device.keyId, signingPublicKey: device.signingPublicKey }],
+                contentKeySignature: { keyId: device.keyId, alg: 'ed25519', sig: sig.toString('base64') },
+            },
+        })[userId];
+
+        const signer = getContentKeySigner(entry);
+        expect(signer?.keyId).toBe(device.keyId);
+        const signerKey = publicKeyFromBase64(signer?.signingPublicKey ?? '');
+        const entrySig = Buffer.from(entry.contentKeySignature.sig, 'base64');
+        expect(verify(null, Buffer.from(contentKeyBindingInput(entry.userId, entry.contentPublicKey)), signerKey, entrySig))
+            .toBe(true);
+
+        // A server substituting its own content key cannot re-sign it
+        expect(verify(null, Buffer.from(contentKeyBindingInput(entry.userId, 'serverKey=')), signerKey, entrySig))
+            .toBe(false);
+        expect(verify(null, Buffer.from(contentKeyBindingInput(asUserId('user_b'), contentPublicKey)), signerKey, entrySig))
+            .toBe(false);
+    });
+});
+
+describe('findSigningKey', () => {
+    it('returns the key and its user, or undefined for unknown key IDs', () => {
+        const directory = PublicKeyDirectorySchema.parse({ user_a: directoryEntry('user_a') });
+        expect(findSigningKey(directory, signingKey.keyId)).toEqual({ ...signingKey, userId: 'user_a' });
+        expect(findSigningKey(directory, 'unknown')).toBeUndefined();
+    });
+
+    it('verifies a message signature through a parsed directory entry', () => {
+        const device = signingDevice();
+        const { keyId, signingPublicKey } = device;
+        const directory = PublicKeyDirectorySchema.parse({
+            user_a: { ...directoryEntry('user_a'), signingKeys: [{ keyId, signingPublicKey }] },
+        });
+
+        const sid = asSessionId('session-1');
+        const message = { authorSeq: 1, localId: 'local-1', content: { c: 'abc' } };
+        const sig = sign(null, Buffer.from(messageSignatureInput(sid, message)), device.privateKey);
+
+        const signer = findSigningKey(directory, keyId);
+        expect(signer?.userId).toBe('user_a');
+        const signerKey = publicKeyFromBase64(signer?.signingPublicKey ?? '');
+        expect(verify(null, Buffer.from(messageSignatureInput(sid, message)), signerKey, sig)).toBe(true);
+        expect(verify(null, Buffer.from(messageSignatureInput(sid, { ...message, authorSeq: 2 })), signerKey, sig))
+            .toBe(false);
     });
 });
 
@@ -330,6 +548,35 @@ describe('SessionShareInvitationSchema', () => {
             });
             expect(result.success).toBe(true);
         });
+
+        it('validates accepted invitation with wrappedDataKeys', () => {
+            const result = SessionShareInvitationSchema.safeParse({
+                ...validInvitation,
+                status: 'accepted',
+                acceptedBy: 'user_invitee',
+                wrappedDataKeys: [{ keyVersion: 0, wrappedDataKey: 'base64WrappedKey==' }],
+            });
+            expect(result.success).toBe(true);
+        });
+    });
+
+    describe('hasValidInvitationDataKeys', () => {
+        const wrappedDataKeys = [{ keyVersion: 0, wrappedDataKey: 'base64WrappedKey==' }];
+
+        it('rejects wrappedDataKeys on invitations that are not accepted', () => {
+            const invitation = SessionShareInvitationSchema.parse({ ...validInvitation, wrappedDataKeys });
+            expect(hasValidInvitationDataKeys(invitation)).toBe(false);
+        });
+
+        it('accepts wrappedDataKeys on accepted invitations and no keys on any', () => {
+            expect(hasValidInvitationDataKeys({ status: 'accepted', wrappedDataKeys })).toBe(true);
+            expect(hasValidInvitationDataKeys({ status: 'pending' })).toBe(true);
+        });
+
+        it('keeps the invitation schema extendable', () => {
+            const extended = SessionShareInvitationSchema.extend({ note: z.string() });
+            expect(extended.shape.note).toBeDefined();
+        });
     });
 
     describe('invalid data', () => {
@@ -556,6 +803,27 @@ describe('AddSessionShareRequestSchema', () => {
                 expect(result.error.issues[0].message).toBe('Either userId or email must be provided');
             }
         });
+
+        it('accepts wrappedDataKeys with userId', () => {
+            const result = AddSessionShareRequestSchema.safeParse({
+                sessionId: 'session_abc123',
+                userId: 'user_xyz789',
+                permission: 'view_only' as const,
+                wrappedDataKeys: [{ keyVersion: 0, wrappedDataKey: 'base64WrappedKey==' }],
+            });
+            expect(result.success).toBe(true);
+        });
+
+        it('rejects wrappedDataKeys on email invitations', () => {
+            const result = AddSessionShareRequestSchema.safeParse({
+                sessionId: 'session_abc123',
+                email: 'friend@example.com',
+                permission: 'view_only' as const,
+                wrappedDataKeys: [{ keyVersion: 0, wrappedDataKey: 'base64WrappedKey==' }],
+            });
+            expect(result.success).toBe(false);
+            expect(result.error?.issues[0]?.message).toBe('wrappedDataKeys requires userId');
+        });
     });
 
     describe('invalid data', () => {
@@ -806,6 +1074,110 @@ describe('ResendInvitationRequestSchema', () => {
     });
 });
 
+// ═══════════════════════════════════════════════════════════════
+// SetInvitationDataKeyRequestSchema Tests
+// ═══════════════════════════════════════════════════════════════
+
+describe('SetInvitationDataKeyRequestSchema', () => {
+    it('validates request', () => {
+        const result = SetInvitationDataKeyRequestSchema.safeParse({
+            invitationId: '550e8400-e29b-41d4-a716-446655440000',
+            wrappedDataKeys: [{ keyVersion: 0, wrappedDataKey: 'base64WrappedKey==' }],
+        });
+        expect(result.success).toBe(true);
+    });
+
+    it('requires wrappedDataKeys', () => {
+        const result = SetInvitationDataKeyRequestSchema.safeParse({
+            invitationId: '550e8400-e29b-41d4-a716-446655440000',
+        });
+        expect(result.success).toBe(false);
+    });
+
+    it('rejects an empty key list', () => {
+        const result = SetInvitationDataKeyRequestSchema.safeParse({
+            invitationId: '550e8400-e29b-41d4-a716-446655440000',
+            wrappedDataKeys: [],
+        });
+        expect(result.success).toBe(false);
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════
+// SetShareDataKeysRequestSchema Tests
+// ═══════════════════════════════════════════════════════════════
+
+describe('SetShareDataKeysRequestSchema', () => {
+    it('validates request', () => {
+        const result = SetShareDataKeysRequestSchema.safeParse({
+            shareId: '550e8400-e29b-41d4-a716-446655440000',
+            wrappedDataKeys: [{ keyVersion: 0, wrappedDataKey: 'base64WrappedKey==' }],
+        });
+        expect(result.success).toBe(true);
+    });
+
+    it('rejects an empty key list', () => {
+        const result = SetShareDataKeysRequestSchema.safeParse({
+            shareId: '550e8400-e29b-41d4-a716-446655440000',
+            wrappedDataKeys: [],
+        });
+        expect(result.success).toBe(false);
+    });
+});
+
+// ═══════════════════════════════════════════════════════════════
+// DeliverRotatedDataKeyRequestSchema Tests
+// ═══════════════════════════════════════════════════════════════
+
+describe('DeliverRotatedDataKeyRequestSchema', () => {
+    it('validates request', () => {
+        const result = DeliverRotatedDataKeyRequestSchema.safeParse({
+            sessionId: 'session_abc123',
+            keyVersion: 2,
+            wrappedDataKeys: { user_xyz789: 'base64WrappedKey==', user_abc123: 'base64OtherKey==' },
+        });
+        expect(result.success).toBe(true);
+    });
+
+    it('rejects an invalid key version', () => {
+        const result = DeliverRotatedDataKeyRequestSchema.safeParse({
+            sessionId: 'session_abc123',
+            keyVersion: -1,
+            wrappedDataKeys: { user_xyz789: 'base64WrappedKey==' },
+        });
+        expect(result.success).toBe(false);
+    });
+
+    it('rejects an empty recipient map', () => {
+        const result = DeliverRotatedDataKeyRequestSchema.safeParse({
+            sessionId: 'session_abc123',
+            keyVersion: 2,
+            wrappedDataKeys: {},
+        });
+        expect(result.success).toBe(false);
+    });
+
+    it('rejects more than MAX_KEY_RECIPIENTS recipients', () => {
+        const request = (size: number) => ({
+            sessionId: 'session_abc123',
+            keyVersion: 2,
+            wrappedDataKeys: Object.fromEntries(Array.from({ length: size }, (_, i) => [`user_${i}`, 'key=='])),
+        });
+        expect(DeliverRotatedDataKeyRequestSchema.safeParse(request(MAX_KEY_RECIPIENTS)).success).toBe(true);
+        expect(DeliverRotatedDataKeyRequestSchema.safeParse(request(MAX_KEY_RECIPIENTS + 1)).success).toBe(false);
+    });
+
+    it('checks the recipient count before parsing the keys', () => {
+        const result = DeliverRotatedDataKeyRequestSchema.safeParse({
+            sessionId: 'session_abc123',
+            keyVersion: 2,
+            wrappedDataKeys: Object.fromEntries(Array.from({ length: MAX_KEY_RECIPIENTS + 1 }, (_, i) => [`user_${i}`, ''])),
+        });
+        expect(result.success).toBe(false);
+        expect(result.error?.issues).toHaveLength(1);
+    });
+});
+
 // ═══════════════════════════════════════════════════════════════
 // Real-world Scenarios
 // ═══════════════════════════════════════════════════════════════
@@ -4,6 +4,19 @@
  * These schemas define the structure for session sharing permissions,
  * URL sharing configuration, and email invitations.
  *
+ * The server never sees session content, so granting access also means
+ * handing the recipient the session's data encryption key: the sharer looks
+ * up the recipient's content public key in the public-key directory, wraps
+ * the key for it (`wrapDataKey` in `@happy/crypto`) and sends the result in
+ * `wrappedDataKeys`. Every key version is wrapped separately, since a
+ * `rotate-key` only carries the new key wrapped for the owner: after a
+ * rotation the owner sends `DeliverRotatedDataKeyRequestSchema` with the new
+ * version wrapped for each recipient.
+ *
+ * The directory comes from the server, so a sharer only wraps for a content
+ * key whose `contentKeySignature` verifies with a signing key it already
+ * trusts (see `getContentKeySigner`).
+ *
  * @example
  * ```typescript
  * import { SessionShareSettingsSchema, type SessionShareSettings } from '@happy/protocol';
@@ -18,7 +31,8 @@
 
 import { z } from 'zod';
 import { STRING_LIMITS } from './constraints';
-import { UserProfileSchema } from './common';
+import { SessionIdSchema, UserIdSchema, ShareIdSchema, InvitationIdSchema } from './ids';
+import { UserProfileSchema, KeyVersionSchema, SignatureEnvelopeSchema } from './common';
 
 // ═══════════════════════════════════════════════════════════════
 // Permission Types
@@ -37,6 +51,205 @@ export const SessionSharePermissionSchema = z.enum(['view_only', 'view_and_chat'
 
 export type SessionSharePermission = z.infer<typeof SessionSharePermissionSchema>;
 
+// ═══════════════════════════════════════════════════════════════
+// Key Exchange
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * A user's content public key (base64 Curve25519)
+ */
+export const ContentPublicKeySchema = z.string().min(1).max(STRING_LIMITS.PUBLIC_KEY_MAX);
+
+/**
+ * Session data encryption key wrapped for one recipient's content public
+ * key (base64)
+ */
+export const WrappedDataKeySchema = z.string().min(1).max(STRING_LIMITS.DATA_ENCRYPTION_KEY_MAX);
+
+/**
+ * One version of the session data key wrapped for a recipient
+ *
+ * @example
+ * ```typescript
+ * const key = VersionedWrappedDataKeySchema.parse({ keyVersion: 1, wrappedDataKey: 'base64WrappedKey==' });
+ * ```
+ */
+export const VersionedWrappedDataKeySchema = z.object({
+    /** Matches `EncryptedContent.k` and `rotate-key.keyVersion` */
+    keyVersion: KeyVersionSchema,
+    wrappedDataKey: WrappedDataKeySchema,
+});
+
+export type VersionedWrappedDataKey = z.infer<typeof VersionedWrappedDataKeySchema>;
+
+/** Maximum number of key versions wrapped for one recipient */
+export const MAX_WRAPPED_DATA_KEYS = 256;
+
+/**
+ * Wrapped session data keys for one recipient, at most one per version
+ */
+export const WrappedDataKeysSchema = z.array(VersionedWrappedDataKeySchema).max(MAX_WRAPPED_DATA_KEYS).refine(
+    (keys) => new Set(keys.map((key) => key.keyVersion)).size === keys.length,
+    { message: 'Duplicate keyVersion' },
+);
+
+export type WrappedDataKeys = z.infer<typeof WrappedDataKeysSchema>;
+
+/** Maximum number of users in one public-key lookup or key delivery */
+export const MAX_KEY_RECIPIENTS = 256;
+
+/** Maximum number of device signing keys listed for one user */
+export const MAX_SIGNING_KEYS_PER_USER = 32;
+
+/**
+ * A device's Ed25519 signing public key (base64)
+ */
+export const SigningPublicKeySchema = z.string().min(1).max(STRING_LIMITS.PUBLIC_KEY_MAX);
+
+/**
+ * One signing device of a user
+ *
+ * `keyId` is what signature envelopes name (`SignatureEnvelope.keyId`).
+ * Readers recompute it from `signingPublicKey` (`signingKeyId` in
+ * `@happy/crypto`) instead of trusting the field.
+ *
+ * @example
+ * ```typescript
+ * const key = DeviceSigningKeySchema.parse({
+ *     keyId: '3f2a9c0d1e4b5a697887766554433221',
+ *     signingPublicKey: 'base64Ed25519PublicKey=',
+ * });
+ * ```
+ */
+export const DeviceSigningKeySchema = z.object({
+    /** Fingerprint of `signingPublicKey` (`signingKeyId`) */
+    keyId: z.string().min(1).max(STRING_LIMITS.ID_MAX),
+
+    /** Key the device signs messages and artifacts with */
+    signingPublicKey: SigningPublicKeySchema,
+});
+
+export type DeviceSigningKey = z.infer<typeof DeviceSigningKeySchema>;
+
+/**
+ * One user's entry in the public-key directory
+ *
+ * @example
+ * ```typescript
+ * const entry = PublicKeyDirectoryEntrySchema.parse({
+ *     userId: 'user_abc123',
+ *     contentPublicKey: 'dh2I7IMEE5Gd/p1NHVbxfmU8jJlAgt9bE3uQoK5u33Q=',
+ *     signingKeys: [{ keyId: '3f2a9c0d1e4b5a697887766554433221', signingPublicKey: 'base64Ed25519PublicKey=' }],
+ *     contentKeySignature: {
+ *         keyId: '3f2a9c0d1e4b5a697887766554433221',
+ *         alg: 'ed25519',
+ *         sig: 'base64Signature==',
+ *     },
+ * });
+ * ```
+ */
+export const PublicKeyDirectoryEntrySchema = z.object({
+    /** User the keys belong to */
+    userId: UserIdSchema,
+
+    /** Public key to wrap data keys for */
+    contentPublicKey: ContentPublicKeySchema,
+
+    /** Signing keys of the user's devices, at most one per `keyId` */
+    signingKeys: z.array(DeviceSigningKeySchema).max(MAX_SIGNING_KEYS_PER_USER).refine(
+        (keys) => new Set(keys.map((key) => key.keyId)).size === keys.length,
+        { message: 'Duplicate keyId' },
+    ),
+
+    /**
+     * Signature over `contentKeyBindingInput(userId, contentPublicKey)` by
+     * one of `signingKeys`
+     */
+    contentKeySignature: SignatureEnvelopeSchema,
+});
+
+export type PublicKeyDirectoryEntry = z.infer<typeof PublicKeyDirectoryEntrySchema>;
+
+/**
+ * Public-key directory: user ID → that user's entry
+ *
+ * Each entry's `userId` must match its key. The number of users is checked
+ * before any entry is parsed, so an oversized map costs no per-entry work.
+ *
+ * @example
+ * ```typescript
+ * const directory = PublicKeyDirectorySchema.parse(await api.getPublicKeys(userIds));
+ * const recipientKey = directory[share.userId].contentPublicKey;
+ * ```
+ */
+export const PublicKeyDirectorySchema = z.record(z.string(), z.unknown())
+    .refine((directory) => Object.keys(directory).length <= MAX_KEY_RECIPIENTS, {
+        message: `At most ${MAX_KEY_RECIPIENTS} users are allowed`,
+    })
+    .pipe(z.record(UserIdSchema, PublicKeyDirectoryEntrySchema))
+    .refine((directory) => Object.entries(directory).every(([userId, entry]) => entry.userId === userId), {
+        message: 'Entry userId does not match its key',
+    });
+
+export type PublicKeyDirectory = z.infer<typeof PublicKeyDirectorySchema>;
+
+/**
+ * Signing key that made an entry's `contentKeySignature`
+ *
+ * Returns `undefined` if the signature names none of the user's own keys.
+ * The returned key is as trustworthy as the directory that listed it: only
+ * wrap data keys for the entry once the key is pinned from an earlier lookup
+ * or its `keyId` was confirmed with the user out of band, and the signature
+ * verifies.
+ *
+ * @example
+ * ```typescript
+ * const signer = getContentKeySigner(entry);
+ * if (!signer || !trustedKeyIds.has(signer.keyId)) {
+ *     throw new AppError(ErrorCodes.SIGNATURE_INVALID, 'Content key is not signed by a trusted device');
+ * }
+ * verifySignature(
+ *     contentKeyBindingInput(entry.userId, entry.contentPublicKey),
+ *     fromBase64(entry.contentKeySignature.sig),
+ *     fromBase64(signer.signingPublicKey),
+ * );
+ * ```
+ */
+export function getContentKeySigner(
+    entry: Pick<PublicKeyDirectoryEntry, 'signingKeys' | 'contentKeySignature'>
+): DeviceSigningKey | undefined {
+    return entry.signingKeys.find((key) => key.keyId === entry.contentKeySignature.keyId);
+}
+
+/**
+ * Find the device key a signature envelope names
+ *
+ * Returns the signing user with the key, so a reader can check that a
+ * message or artifact was signed by someone it expects. Verify the signature
+ * against `signingPublicKey` with `verifySignature` from `@happy/crypto`.
+ *
+ * @example
+ * ```typescript
+ * const signer = findSigningKey(directory, message.signature.keyId);
+ * if (!signer) {
+ *     throw new AppError(ErrorCodes.SIGNATURE_INVALID, 'Unknown signer key');
+ * }
+ * verifySignature(messageSignatureInput(sid, message), fromBase64(message.signature.sig), fromBase64(signer.signingPublicKey));
+ * ```
+ */
+export function findSigningKey(
+    directory: PublicKeyDirectory,
+    keyId: string
+): (DeviceSigningKey & { userId: PublicKeyDirectoryEntry['userId'] }) | undefined {
+    for (const entry of Object.values(directory)) {
+        const key = entry.signingKeys.find((candidate) => candidate.keyId === keyId);
+        if (key) {
+            return { ...key, userId: entry.userId };
+        }
+    }
+    return undefined;
+}
+
 // ═══════════════════════════════════════════════════════════════
 // Share Entry
 // ═══════════════════════════════════════════════════════════════
@@ -57,10 +270,10 @@ export type SessionSharePermission = z.infer<typeof SessionSharePermissionSchema
  */
 export const SessionShareEntrySchema = z.object({
     /** Unique identifier for this share entry */
-    id: z.string().uuid(),
+    id: ShareIdSchema,
 
     /** User ID of the person who has access */
-    userId: z.string().min(1).max(STRING_LIMITS.ID_MAX),
+    userId: UserIdSchema,
 
     /** Optional user profile information */
     userProfile: UserProfileSchema.optional(),
@@ -72,7 +285,13 @@ export const SessionShareEntrySchema = z.object({
     sharedAt: z.string().datetime(),
 
     /** User ID of the person who granted access */
-    sharedBy: z.string().min(1).max(STRING_LIMITS.ID_MAX),
+    sharedBy: UserIdSchema,
+
+    /**
+     * Session data keys wrapped for `userId` (absent for shares made before
+     * key sharing until `SetShareDataKeysRequestSchema` backfills them)
+     */
+    wrappedDataKeys: WrappedDataKeysSchema.optional(),
 });
 
 export type SessionShareEntry = z.infer<typeof SessionShareEntrySchema>;
@@ -132,6 +351,10 @@ export type InvitationStatus = z.infer<typeof InvitationStatusSchema>;
 /**
  * Email invitation for non-users
  *
+ * The invitee has no public key until they sign up, so `wrappedDataKeys` is
+ * only set once the invitation is accepted; check that with
+ * `hasValidInvitationDataKeys`.
+ *
  * @example
  * ```typescript
  * const invitation = SessionShareInvitationSchema.parse({
@@ -147,7 +370,7 @@ export type InvitationStatus = z.infer<typeof InvitationStatusSchema>;
  */
 export const SessionShareInvitationSchema = z.object({
     /** Unique identifier for this invitation */
-    id: z.string().uuid(),
+    id: InvitationIdSchema,
 
     /** Email address of the invitee */
     email: z.string().email().max(STRING_LIMITS.NAME_MAX),
@@ -159,17 +382,41 @@ export const SessionShareInvitationSchema = z.object({
     invitedAt: z.string().datetime(),
 
     /** User ID of the person who sent the invitation */
-    invitedBy: z.string().min(1).max(STRING_LIMITS.ID_MAX),
+    invitedBy: UserIdSchema,
 
     /** Current status of the invitation */
     status: InvitationStatusSchema,
 
     /** ISO 8601 timestamp when invitation expires */
     expiresAt: z.string().datetime(),
+
+    /** User ID of the person who accepted the invitation */
+    acceptedBy: UserIdSchema.optional(),
+
+    /** Session data keys wrapped for `acceptedBy` (accepted invitations only) */
+    wrappedDataKeys: WrappedDataKeysSchema.optional(),
 });
 
 export type SessionShareInvitation = z.infer<typeof SessionShareInvitationSchema>;
 
+/**
+ * True unless an invitation that is not accepted carries wrapped data keys
+ *
+ * Kept out of `SessionShareInvitationSchema` so it stays a plain object
+ * schema (`.extend`, `.pick`, `.shape`).
+ *
+ * @example
+ * ```typescript
+ * const invitation = SessionShareInvitationSchema.parse(data);
+ * if (!hasValidInvitationDataKeys(invitation)) {
+ *     throw new Error('Only accepted invitations carry wrapped data keys');
+ * }
+ * ```
+ */
+export function hasValidInvitationDataKeys(invitation: Pick<SessionShareInvitation, 'status' | 'wrappedDataKeys'>): boolean {
+    return invitation.wrappedDataKeys === undefined || invitation.status === 'accepted';
+}
+
 // ═══════════════════════════════════════════════════════════════
 // Combined Settings
 // ═══════════════════════════════════════════════════════════════
@@ -192,7 +439,7 @@ export type SessionShareInvitation = z.infer<typeof SessionShareInvitationSchema
  */
 export const SessionShareSettingsSchema = z.object({
     /** Session ID these settings apply to */
-    sessionId: z.string().min(1).max(STRING_LIMITS.ID_MAX),
+    sessionId: SessionIdSchema,
 
     /** List of users who have access */
     shares: z.array(SessionShareEntrySchema),
@@ -213,7 +460,10 @@ export type SessionShareSettings = z.infer<typeof SessionShareSettingsSchema>;
 /**
  * Request to add a session share (either by userId or email)
  *
- * At least one of userId or email must be provided.
+ * At least one of userId or email must be provided. Shares with an existing
+ * user should include `wrappedDataKeys` (every key version the recipient
+ * should read); email invitations get theirs via
+ * `SetInvitationDataKeyRequestSchema` once accepted.
  *
  * @example
  * ```typescript
@@ -222,6 +472,7 @@ export type SessionShareSettings = z.infer<typeof SessionShareSettingsSchema>;
  *     sessionId: 'session_abc123',
  *     userId: 'user_xyz789',
  *     permission: 'view_and_chat',
+ *     wrappedDataKeys: [{ keyVersion: 0, wrappedDataKey: 'base64WrappedKey==' }],
  * });
  *
  * // Invite via email
@@ -235,19 +486,26 @@ export type SessionShareSettings = z.infer<typeof SessionShareSettingsSchema>;
 export const AddSessionShareRequestSchema = z
     .object({
         /** Session ID to share */
-        sessionId: z.string().min(1).max(STRING_LIMITS.ID_MAX),
+        sessionId: SessionIdSchema,
 
         /** User ID to share with (for existing users) */
-        userId: z.string().min(1).max(STRING_LIMITS.ID_MAX).optional(),
+        userId: UserIdSchema.optional(),
 
         /** Email to invite (for non-users) */
         email: z.string().email().max(STRING_LIMITS.NAME_MAX).optional(),
 
         /** Permission level to grant */
         permission: SessionSharePermissionSchema,
+
+        /** Session data keys wrapped for `userId` */
+        wrappedDataKeys: WrappedDataKeysSchema.optional(),
     })
     .refine((data) => data.userId || data.email, {
         message: 'Either userId or email must be provided',
+    })
+    .refine((data) => data.wrappedDataKeys === undefined || data.userId !== undefined, {
+        message: 'wrappedDataKeys requires userId',
+        path: ['wrappedDataKeys'],
     });
 
 export type AddSessionShareRequest = z.infer<typeof AddSessionShareRequestSchema>;
@@ -265,7 +523,7 @@ export type AddSessionShareRequest = z.infer<typeof AddSessionShareRequestSchema
  */
 export const UpdateSessionShareRequestSchema = z.object({
     /** Share entry ID to update */
-    shareId: z.string().uuid(),
+    shareId: ShareIdSchema,
 
     /** New permission level */
     permission: SessionSharePermissionSchema,
@@ -285,7 +543,7 @@ export type UpdateSessionShareRequest = z.infer<typeof UpdateSessionShareRequest
  */
 export const RemoveSessionShareRequestSchema = z.object({
     /** Share entry ID to remove */
-    shareId: z.string().uuid(),
+    shareId: ShareIdSchema,
 });
 
 export type RemoveSessionShareRequest = z.infer<typeof RemoveSessionShareRequestSchema>;
@@ -306,7 +564,7 @@ export type RemoveSessionShareRequest = z.infer<typeof RemoveSessionShareRequest
  */
 export const UpdateUrlSharingRequestSchema = z.object({
     /** Session ID to update URL sharing for */
-    sessionId: z.string().min(1).max(STRING_LIMITS.ID_MAX),
+    sessionId: SessionIdSchema,
 
     /** Whether to enable or disable URL sharing */
     enabled: z.boolean(),
@@ -332,7 +590,7 @@ export type UpdateUrlSharingRequest = z.infer<typeof UpdateUrlSharingRequestSche
  */
 export const RevokeInvitationRequestSchema = z.object({
     /** Invitation ID to revoke */
-    invitationId: z.string().uuid(),
+    invitationId: InvitationIdSchema,
 });
 
 export type RevokeInvitationRequest = z.infer<typeof RevokeInvitationRequestSchema>;
@@ -349,7 +607,93 @@ export type RevokeInvitationRequest = z.infer<typeof RevokeInvitationRequestSche
  */
 export const ResendInvitationRequestSchema = z.object({
     /** Invitation ID to resend */
-    invitationId: z.string().uuid(),
+    invitationId: InvitationIdSchema,
 });
 
 export type ResendInvitationRequest = z.infer<typeof ResendInvitationRequestSchema>;
+
+/**
+ * Request to deliver the session data keys for an accepted invitation
+ *
+ * Sent by the sharer after wrapping the keys for the `acceptedBy` user's
+ * content public key.
+ *
+ * @example
+ * ```typescript
+ * const request = SetInvitationDataKeyRequestSchema.parse({
+ *     invitationId: '550e8400-e29b-41d4-a716-446655440000',
+ *     wrappedDataKeys: [{ keyVersion: 0, wrappedDataKey: 'base64WrappedKey==' }],
+ * });
+ * ```
+ */
+export const SetInvitationDataKeyRequestSchema = z.object({
+    /** Accepted invitation to deliver the keys for */
+    invitationId: InvitationIdSchema,
+
+    /** Session data keys wrapped for the accepting user */
+    wrappedDataKeys: WrappedDataKeysSchema.refine((keys) => keys.length > 0, { message: 'At least one key is required' }),
+});
+
+export type SetInvitationDataKeyRequest = z.infer<typeof SetInvitationDataKeyRequestSchema>;
+
+/**
+ * Request to deliver the session data keys for an existing share
+ *
+ * Backfills shares made before key sharing, whose entries have no
+ * `wrappedDataKeys`. Keys already stored for a version are replaced.
+ *
+ * @example
+ * ```typescript
+ * const request = SetShareDataKeysRequestSchema.parse({
+ *     shareId: '550e8400-e29b-41d4-a716-446655440000',
+ *     wrappedDataKeys: [{ keyVersion: 0, wrappedDataKey: 'base64WrappedKey==' }],
+ * });
+ * ```
+ */
+export const SetShareDataKeysRequestSchema = z.object({
+    /** Share entry to deliver the keys for */
+    shareId: ShareIdSchema,
+
+    /** Session data keys wrapped for the share's `userId` */
+    wrappedDataKeys: WrappedDataKeysSchema.refine((keys) => keys.length > 0, { message: 'At least one key is required' }),
+});
+
+export type SetShareDataKeysRequest = z.infer<typeof SetShareDataKeysRequestSchema>;
+
+/**
+ * Request to deliver a rotated session data key to everyone it is shared with
+ *
+ * Sent by the owner right after rotating the session key. The server appends
+ * each wrapped key to the recipient's share entry (or accepted invitation)
+ * under `keyVersion`; recipients missing from the map cannot read content
+ * encrypted with that version.
+ *
+ * @example
+ * ```typescript
+ * const request = DeliverRotatedDataKeyRequestSchema.parse({
+ *     sessionId: 'session_abc123',
+ *     keyVersion: 2,
+ *     wrappedDataKeys: { user_xyz789: 'base64WrappedKey==' },
+ * });
+ * ```
+ */
+export const DeliverRotatedDataKeyRequestSchema = z.object({
+    /** Session whose key was rotated */
+    sessionId: SessionIdSchema,
+
+    /** Version from the matching `rotate-key` update */
+    keyVersion: KeyVersionSchema,
+
+    /**
+     * Recipient user ID → new key wrapped for their content public key (size
+     * checked before the keys are parsed)
+     */
+    wrappedDataKeys: z.record(z.string(), z.unknown())
+        .refine((keys) => Object.keys(keys).length > 0, { message: 'At least one recipient is required' })
+        .refine((keys) => Object.keys(keys).length <= MAX_KEY_RECIPIENTS, {
+            message: `At most ${MAX_KEY_RECIPIENTS} recipients are allowed`,
+        })
+        .pipe(z.record(UserIdSchema, WrappedDataKeySchema)),
+});
+
+export type DeliverRotatedDataKeyRequest = z.infer<typeof DeliverRotatedDataKeyRequestSchema>;
@@ -0,0 +1,228 @@
+/**
+ * Tests for signature envelopes and canonical signing input
+ */
+
+import { generateKeyPairSync, sign, verify } from 'node:crypto';
+import { describe, it, expect } from 'vitest';
+import { ErrorCodes } from '@happy/errors';
+import {
+    messageSignatureInput,
+    artifactSignatureInput,
+    SignatureEnvelopeSchema,
+    ApiUpdateNewMessageSchema,
+    ApiUpdateArtifactSchema,
+    messageSequenceSignatureInput,
+    parseInboundEvent,
+    STRING_LIMITS,
+    asArtifactId,
+    asSessionId,
+} from './index';
+
+const SESSION_ID = asSessionId('session-1');
+const ARTIFACT_ID = asArtifactId('artifact-1');
+const signature = { keyId: '3f2a9c0d1e4b5a697887766554433221', alg: 'ed25519' as const, sig: 'c2lnbmF0dXJl' };
+
+// =============================================================================
+// SignatureEnvelopeSchema
+// =============================================================================
+
+describe('SignatureEnvelopeSchema', () => {
+    it('accepts an ed25519 envelope', () => {
+        expect(SignatureEnvelopeSchema.safeParse(signature).success).toBe(true);
+    });
+
+    it('rejects unknown algorithms and oversized signatures', () => {
+        expect(SignatureEnvelopeSchema.safeParse({ ...signature, alg: 'rsa' }).success).toBe(false);
+        expect(
+            SignatureEnvelopeSchema.safeParse({ ...signature, sig: 'x'.repeat(STRING_LIMITS.SIGNATURE_MAX + 1) }).success
+        ).toBe(false);
+    });
+
+    it('is optional on messages and artifacts', () => {
+        const message = { id: 'msg-1', seq: 1, content: { t: 'encrypted', c: 'abc' }, createdAt: 1 };
+        expect(ApiUpdateNewMessageSchema.safeParse({ t: 'new-message', sid: SESSION_ID, message }).success).toBe(true);
+        expect(
+            ApiUpdateNewMessageSchema.safeParse({ t: 'new-message', sid: SESSION_ID, message: { ...message, signature } })
+                .success
+        ).toBe(true);
+        expect(
+            ApiUpdateArtifactSchema.safeParse({ t: 'update-artifact', artifactId: ARTIFACT_ID, signature }).success
+        ).toBe(true);
+    });
+});
+
+describe('authorSeq', () => {
+    it('accepts positive integers on sent and stored messages', () => {
+        expect(parseInboundEvent('message', { sid: SESSION_ID, message: 'c', localId: 'local-1', authorSeq: 1 }).success)
+            .toBe(true);
+        const message = { id: 'msg-1', seq: 1, authorSeq: 1, content: { t: 'encrypted', c: 'abc' }, createdAt: 1 };
+        expect(ApiUpdateNewMessageSchema.safeParse({ t: 'new-message', sid: SESSION_ID, message }).success).toBe(true);
+    });
+
+    it('rejects zero, negative and fractional counters', () => {
+        for (const authorSeq of [0, -1, 1.5]) {
+            expect(parseInboundEvent('message', { sid: SESSION_ID, message: 'c', localId: 'local-1', authorSeq }).success)
+                .toBe(false);
+        }
+    });
+});
+
+// =============================================================================
+// Signing input
+// =============================================================================
+
+describe('messageSignatureInput', () => {
+    it('covers sid, authorSeq, localId, key version and ciphertext', () => {
+        expect(messageSignatureInput(SESSION_ID, { authorSeq: 3, localId: 'local-1', content: { c: 'abc', k: 2 } }))
+            .toBe('["happy.message.v1","session-1",3,"local-1",2,"abc"]');
+    });
+
+    it('signs an absent key version as 0', () => {
+        expect(messageSignatureInput(SESSION_ID, { authorSeq: 1, localId: 'local-1', content: { c: 'abc' } }))
+            .toBe(messageSignatureInput(SESSION_ID, { authorSeq: 1, localId: 'local-1', content: { c: 'abc', k: 0 } }));
+    });
+
+    it('changes with each signed field', () => {
+        const base = messageSignatureInput(SESSION_ID, { authorSeq: 1, localId: 'local-1', content: { c: 'abc', k: 1 } });
+        expect(messageSignatureInput(asSessionId('session-2'), { authorSeq: 1, localId: 'local-1', content: { c: 'abc', k: 1 } }))
+            .not.toBe(base);
+        expect(messageSignatureInput(SESSION_ID, { authorSeq: 2, localId: 'local-1', content: { c: 'abc', k: 1 } })).not.toBe(base);
+        expect(messageSignatureInput(SESSION_ID, { authorSeq: 1, localId: 'local-2', content: { c: 'abc', k: 1 } })).not.toBe(base);
+        expect(messageSignatureInput(SESSION_ID, { authorSeq: 1, localId: 'local-1', content: { c: 'abc', k: 2 } })).not.toBe(base);
+        expect(messageSignatureInput(SESSION_ID, { authorSeq: 1, localId: 'local-1', content: { c: 'abd', k: 1 } })).not.toBe(base);
+    });
+
+    it('rejects messages without a localId', () => {
+        expect(() => messageSignatureInput(SESSION_ID, { authorSeq: 1, content: { c: 'abc' } })).toThrow(
+            expect.objectContaining({ code: ErrorCodes.SIGNATURE_INVALID })
+        );
+        expect(() => messageSignatureInput(SESSION_ID, { authorSeq: 1, localId: null, content: { c: 'abc' } })).toThrow(
+            expect.objectContaining({ code: ErrorCodes.SIGNATURE_INVALID })
+        );
+    });
+
+    it('rejects messages without an authorSeq', () => {
+        expect(() => messageSignatureInput(SESSION_ID, { localId: 'local-1', content: { c: 'abc' } })).toThrow(
+            expect.objectContaining({ code: ErrorCodes.SIGNATURE_INVALID })
+        );
+    });
+
+    it('verifies a signed message sent through the socket and read back from an update', () => {
+        const device = generateKeyPairSync('ed25519');
+        const server = generateKeyPairSync('ed25519');
+
+        // Sender: sign before emitting, when the seq is not known yet
+        const outgoing = { sid: SESSION_ID, message: 'base64Ciphertext==', authorSeq: 1, localId: 'local-1', k: 1 };
+        const input = messageSignatureInput(outgoing.sid, {
+            authorSeq: outgoing.authorSeq,
+            localId: outgoing.localId,
+            content: { c: outgoing.message, k: outgoing.k },
+        });
+        const event = {
+            ...outgoing,
+            signature: { ...signature, sig: sign(null, Buffer.from(input), device.privateKey).toString('base64') },
+        };
+        const sent = parseInboundEvent('message', event);
+        expect(sent.success).toBe(true);
+
+        // Server: assign the seq, keep the author signature and counter-sign the seq
+        const stored = {
+            id: 'msg-1',
+            seq: 7,
+            authorSeq: event.authorSeq,
+            localId: event.localId,
+            content: { t: 'encrypted' as const, c: event.message, k: event.k },
+        };
+        const sequenceSig = sign(null, Buffer.from(messageSequenceSignatureInput(event.sid, stored)), server.privateKey);
+        const update = ApiUpdateNewMessageSchema.parse({
+            t: 'new-message',
+            sid: event.sid,
+            message: {
+                ...stored,
+                signature: event.signature,
+                sequenceSignature: { ...signature, keyId: 'server-key-1', sig: sequenceSig.toString('base64') },
+                createdAt: 1,
+            },
+        });
+
+        // Reader: rebuild both inputs from the stored message
+        const { message } = update;
+        const sig = Buffer.from(message.signature?.sig ?? '', 'base64');
+        const seqSig = Buffer.from(message.sequenceSignature?.sig ?? '', 'base64');
+        expect(verify(null, Buffer.from(messageSignatureInput(update.sid, message)), device.publicKey, sig)).toBe(true);
+        expect(verify(null, Buffer.from(messageSequenceSignatureInput(update.sid, message)), server.publicKey, seqSig))
+            .toBe(true);
+
+        const tampered = { ...message, content: { ...message.content, c: 'other' } };
+        expect(verify(null, Buffer.from(messageSignatureInput(update.sid, tampered)), device.publicKey, sig)).toBe(false);
+        const resequenced = { ...message, seq: 8 };
+        expect(verify(null, Buffer.from(messageSignatureInput(update.sid, resequenced)), device.publicKey, sig)).toBe(true);
+        expect(verify(null, Buffer.from(messageSequenceSignatureInput(update.sid, resequenced)), server.publicKey, seqSig))
+            .toBe(false);
+    });
+
+    it('exposes an author\'s order even when the server counter-signs a swap', () => {
+        const device = generateKeyPairSync('ed25519');
+        const sent = [1, 2].map((authorSeq) => {
+            const message = { authorSeq, localId: `local-${authorSeq}`, content: { c: `c${authorSeq}` } };
+            const sig = sign(null, Buffer.from(messageSignatureInput(SESSION_ID, message)), device.privateKey);
+            return { ...message, sig };
+        });
+
+        // The server stores the author's second message first
+        const stored = [sent[1], sent[0]];
+        let lastAuthorSeq = 0;
+        const inOrder = stored.map((message) => {
+            expect(verify(null, Buffer.from(messageSignatureInput(SESSION_ID, message)), device.publicKey, message.sig))
+                .toBe(true);
+            const ok = message.authorSeq > lastAuthorSeq;
+            lastAuthorSeq = Math.max(lastAuthorSeq, message.authorSeq);
+            return ok;
+        });
+        expect(inOrder).toEqual([true, false]);
+
+        // A forged counter breaks the author signature
+        const forged = { ...sent[0], authorSeq: 3 };
+        expect(verify(null, Buffer.from(messageSignatureInput(SESSION_ID, forged)), device.publicKey, forged.sig))
+            .toBe(false);
+    });
+});
+
+describe('messageSequenceSignatureInput', () => {
+    it('covers sid, seq, message ID and the author-signed fields', () => {
+        expect(messageSequenceSignatureInput(SESSION_ID, {
+            id: 'msg-1',
+            seq: 42,
+            authorSeq: 3,
+            localId: 'local-1',
+            content: { c: 'abc' },
+        })).toBe('["happy.message-seq.v1","session-1",42,"msg-1",3,"local-1",0,"abc"]');
+    });
+
+    it('signs an absent authorSeq as null', () => {
+        expect(messageSequenceSignatureInput(SESSION_ID, { id: 'msg-1', seq: 42, localId: 'local-1', content: { c: 'abc' } }))
+            .toBe('["happy.message-seq.v1","session-1",42,"msg-1",null,"local-1",0,"abc"]');
+    });
+
+    it('never matches an author signing input', () => {
+        const message = { id: 'msg-1', seq: 42, authorSeq: 1, localId: 'local-1', content: { c: 'abc' } };
+        expect(messageSequenceSignatureInput(SESSION_ID, message)).not.toBe(messageSignatureInput(SESSION_ID, message));
+    });
+});
+
+describe('artifactSignatureInput', () => {
+    it('covers the artifact ID and each versioned ciphertext', () => {
+        expect(artifactSignatureInput(ARTIFACT_ID, {
+            header: { version: 1, value: 'h' },
+            body: { version: 2, value: 'b' },
+        })).toBe('["happy.artifact.v1","artifact-1",1,"h",2,"b"]');
+    });
+
+    it('signs absent fields as null so header and body changes differ', () => {
+        const change = { version: 3, value: 'x' };
+        expect(artifactSignatureInput(ARTIFACT_ID, { header: change }))
+            .toBe('["happy.artifact.v1","artifact-1",3,"x",null,null]');
+        expect(artifactSignatureInput(ARTIFACT_ID, { body: change }))
+            .toBe('["happy.artifact.v1","artifact-1",null,null,3,"x"]');
+    });
+});
@@ -0,0 +1,200 @@
+/**
+ * Canonical signing input for messages, artifacts and content keys
+ *
+ * With session sharing several users hold the same session key, so
+ * decryptability no longer proves authorship. Authors sign the string built
+ * here with their device key (`signDetached` in `@happy/crypto`) and attach a
+ * `SignatureEnvelope`; readers rebuild the same string and verify it.
+ *
+ * The author signs a message before the server has assigned its seq, so the
+ * order is bound on both sides:
+ * - the author signs `authorSeq`, its own counter for the session (1, 2, 3…).
+ *   Readers track the last `authorSeq` per signer key in seq order and reject
+ *   a message whose counter does not increase; with the full history a gap
+ *   means a message was withheld. Nobody without the device key, server
+ *   included, can reorder, replay or drop a signer's messages unnoticed.
+ * - the server counter-signs the seq it assigned
+ *   (`messageSequenceSignatureInput`, key announced in `ConnectedMessage`),
+ *   which pins where messages from different authors interleave for readers
+ *   who trust the server key.
+ *
+ * The input is a JSON array of a domain tag and the signed fields, so no two
+ * field combinations can produce the same string and a message signature can
+ * never be replayed as an artifact signature (or vice versa). Every
+ * implementation, including Swift, must produce it byte for byte.
+ *
+ * @example
+ * ```typescript
+ * import { messageSignatureInput, messageSequenceSignatureInput } from '@happy/protocol';
+ * import { verifySignature } from '@happy/crypto';
+ * import { AppError, ErrorCodes } from '@happy/errors';
+ *
+ * const { sid, message } = update;
+ * if (message.signature) {
+ *     verifySignature(messageSignatureInput(sid, message), fromBase64(message.signature.sig), signerKey);
+ *     // The author signature does not cover seq: always check the server's too
+ *     if (!message.sequenceSignature) {
+ *         throw new AppError(ErrorCodes.SIGNATURE_INVALID, 'Missing sequence signature');
+ *     }
+ *     verifySignature(
+ *         messageSequenceSignatureInput(sid, message),
+ *         fromBase64(message.sequenceSignature.sig),
+ *         serverSequenceKey,
+ *     );
+ *     // Signed messages always carry `authorSeq` (`messageSignatureInput` throws otherwise)
+ *     const { keyId } = message.signature;
+ *     const authorSeq = message.authorSeq ?? 0;
+ *     if (authorSeq <= (lastAuthorSeq.get(keyId) ?? 0)) {
+ *         throw new AppError(ErrorCodes.SIGNATURE_INVALID, 'Message out of author order');
+ *     }
+ *     lastAuthorSeq.set(keyId, authorSeq);
+ * }
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { AppError, ErrorCodes } from '@happy/errors';
+import type { EncryptedContent, VersionedValue } from './common';
+import type { ArtifactId, SessionId, UserId } from './ids';
+import type { ApiMessage } from './updates';
+
+// ═══════════════════════════════════════════════════════════════
+// Domain tags
+// ═══════════════════════════════════════════════════════════════
+
+/** Domain tag of message signatures */
+export const MESSAGE_SIGNATURE_DOMAIN = 'happy.message.v1';
+
+/** Domain tag of the server's message sequence counter-signatures */
+export const MESSAGE_SEQUENCE_SIGNATURE_DOMAIN = 'happy.message-seq.v1';
+
+/** Domain tag of artifact signatures */
+export const ARTIFACT_SIGNATURE_DOMAIN = 'happy.artifact.v1';
+
+/** Domain tag of a user's signature over their content public key */
+export const CONTENT_KEY_SIGNATURE_DOMAIN = 'happy.content-key.v1';
+
+// ═══════════════════════════════════════════════════════════════
+// Inputs
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Author signing input of a message: session ID, author counter, local ID,
+ * key version and ciphertext
+ *
+ * Everything signed is known before sending; the seq is bound afterwards by
+ * the server (`messageSequenceSignatureInput`). Senders pass
+ * `{ authorSeq, localId, content: { c: event.message, k: event.k } }`;
+ * readers pass the stored `ApiMessage`. An absent `k` is signed as 0.
+ *
+ * @throws AppError SIGNATURE_INVALID if the message has no `localId` or no
+ * `authorSeq`, since its signature could not be told apart from a replay
+ *
+ * @example
+ * ```typescript
+ * messageSignatureInput(sid, { authorSeq: 3, localId: 'local_1', content: { c: 'abc', k: 2 } });
+ * // '["happy.message.v1","session_abc",3,"local_1",2,"abc"]'
+ * ```
+ */
+export function messageSignatureInput(
+    sid: SessionId,
+    message: { authorSeq?: number; localId?: string | null; content: Pick<EncryptedContent, 'c' | 'k'> }
+): string {
+    if (message.localId === undefined || message.localId === null) {
+        throw new AppError(ErrorCodes.SIGNATURE_INVALID, 'Signed messages must carry a localId', {
+            context: { sid },
+        });
+    }
+    if (message.authorSeq === undefined) {
+        throw new AppError(ErrorCodes.SIGNATURE_INVALID, 'Signed messages must carry an authorSeq', {
+            context: { sid, localId: message.localId },
+        });
+    }
+    return JSON.stringify([
+        MESSAGE_SIGNATURE_DOMAIN,
+        sid,
+        message.authorSeq,
+        message.localId,
+        message.content.k ?? 0,
+        message.content.c,
+    ]);
+}
+
+/**
+ * Server counter-signing input of a stored message: session ID, seq,
+ * message ID and everything the author signed
+ *
+ * The server signs it when it assigns the seq and attaches the result as
+ * `ApiMessage.sequenceSignature`; readers verify it with the key from
+ * `ConnectedMessage.sequenceSigningKey`, so a relay or store that moves a
+ * message to another seq is detected.
+ *
+ * @example
+ * ```typescript
+ * messageSequenceSignatureInput(sid, { id: 'msg_1', seq: 42, authorSeq: 3, localId: 'local_1', content: { c: 'abc' } });
+ * // '["happy.message-seq.v1","session_abc",42,"msg_1",3,"local_1",0,"abc"]'
+ * ```
+ */
+export function messageSequenceSignatureInput(
+    sid: SessionId,
+    message: Pick<ApiMessage, 'id' | 'seq' | 'authorSeq' | 'localId'> & { content: Pick<EncryptedContent, 'c' | 'k'> }
+): string {
+    return JSON.stringify([
+        MESSAGE_SEQUENCE_SIGNATURE_DOMAIN,
+        sid,
+        message.seq,
+        message.id,
+        message.authorSeq ?? null,
+        message.localId ?? null,
+        message.content.k ?? 0,
+        message.content.c,
+    ]);
+}
+
+/**
+ * Signing input of an artifact write: artifact ID and each versioned
+ * ciphertext it sets
+ *
+ * Pass the fields the write carries: both for `new-artifact`, the changed
+ * ones for `update-artifact`. Absent fields are signed as `null`, so a
+ * signature over a header change cannot be reused for a body change.
+ *
+ * @example
+ * ```typescript
+ * artifactSignatureInput(update.artifactId, {
+ *     header: { version: update.headerVersion, value: update.header },
+ * });
+ * ```
+ */
+export function artifactSignatureInput(
+    artifactId: ArtifactId,
+    fields: { header?: VersionedValue; body?: VersionedValue }
+): string {
+    return JSON.stringify([
+        ARTIFACT_SIGNATURE_DOMAIN,
+        artifactId,
+        fields.header?.version ?? null,
+        fields.header?.value ?? null,
+        fields.body?.version ?? null,
+        fields.body?.value ?? null,
+    ]);
+}
+
+/**
+ * Signing input binding a content public key to its user
+ *
+ * One of the user's own devices signs it, and the result is published as
+ * `PublicKeyDirectoryEntry.contentKeySignature`. A sharer that trusts the
+ * signing key (see `getContentKeySigner`) can then trust the content key it
+ * wraps session keys for, even though the directory comes from the server.
+ *
+ * @example
+ * ```typescript
+ * contentKeyBindingInput(entry.userId, entry.contentPublicKey);
+ * // '["happy.content-key.v1","user_abc","base64ContentKey="]'
+ * ```
+ */
+export function contentKeyBindingInput(userId: UserId, contentPublicKey: string): string {
+    return JSON.stringify([CONTENT_KEY_SIGNATURE_DOMAIN, userId, contentPublicKey]);
+}
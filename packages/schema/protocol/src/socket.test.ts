@@ -0,0 +1,127 @@
+/**
+ * Tests for typed WebSocket event maps
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    parseInboundEvent,
+    isSocketEventName,
+    ServerToClientEventSchemas,
+    ClientToServerEventSchemas,
+    asMachineId,
+    asSessionId,
+    type ServerToClientEvents,
+    type ClientToServerEvents,
+} from './index';
+
+describe('event maps', () => {
+    it('does not reuse an event name across directions', () => {
+        const serverNames = Object.keys(ServerToClientEventSchemas);
+        const clientNames = Object.keys(ClientToServerEventSchemas);
+        expect(serverNames.filter((name) => clientNames.includes(name))).toEqual([]);
+    });
+
+    it('derives typed listener maps', () => {
+        const received: number[] = [];
+        const serverListeners: Pick<ServerToClientEvents, 'update'> = {
+            update: (payload) => received.push(payload.seq),
+        };
+        const clientListeners: Pick<ClientToServerEvents, 'machine-alive'> = {
+            'machine-alive': (payload) => received.push(payload.time),
+        };
+        serverListeners.update({
+            id: 'upd-1',
+            seq: 7,
+            createdAt: 1,
+            body: { t: 'delete-session', sid: asSessionId('session-1') },
+        });
+        clientListeners['machine-alive']({ machineId: asMachineId('machine-1'), time: 9 });
+        expect(received).toEqual([7, 9]);
+    });
+});
+
+describe('isSocketEventName', () => {
+    it('recognizes events from both directions', () => {
+        expect(isSocketEventName('update')).toBe(true);
+        expect(isSocketEventName('session-alive')).toBe(true);
+    });
+
+    it('rejects unknown names and prototype keys', () => {
+        expect(isSocketEventName('not-an-event')).toBe(false);
+        expect(isSocketEventName('toString')).toBe(false);
+        expect(isSocketEventName('__proto__')).toBe(false);
+    });
+});
+
+describe('parseInboundEvent', () => {
+    it('validates a server update container', () => {
+        const result = parseInboundEvent('update', {
+            id: 'upd-1',
+            seq: 12,
+            createdAt: Date.now(),
+            body: { t: 'delete-machine', machineId: 'machine-1' },
+        });
+        expect(result).toMatchObject({
+            success: true,
+            payload: { seq: 12, body: { t: 'delete-machine' } },
+        });
+    });
+
+    it('validates ephemeral events', () => {
+        const result = parseInboundEvent('ephemeral', {
+            type: 'activity',
+            sid: 'session-1',
+            active: true,
+            activeAt: Date.now(),
+            thinking: false,
+        });
+        expect(result.success).toBe(true);
+    });
+
+    it('carries the data key version of sent messages', () => {
+        expect(parseInboundEvent('message', { sid: 'session-1', message: 'c', localId: 'local-1', k: 2 })).toMatchObject({
+            success: true,
+            payload: { k: 2 },
+        });
+        expect(parseInboundEvent('message', { sid: 'session-1', message: 'c', k: -1 }).success).toBe(false);
+    });
+
+    it('validates client keep-alives', () => {
+        expect(parseInboundEvent('session-alive', { sid: 'session-1', time: 1, thinking: true }).success).toBe(true);
+        expect(parseInboundEvent('machine-alive', { machineId: 'machine-1', time: 1 }).success).toBe(true);
+    });
+
+    it('requires usage-report totals', () => {
+        const valid = parseInboundEvent('usage-report', {
+            sid: 'session-1',
+            key: 'claude-session',
+            tokens: { total: 10, input: 6, output: 4 },
+            cost: { total: 0.01 },
+        });
+        expect(valid.success).toBe(true);
+
+        const invalid = parseInboundEvent('usage-report', {
+            sid: 'session-1',
+            key: 'claude-session',
+            tokens: { input: 6 },
+            cost: { total: 0.01 },
+        });
+        expect(invalid.success).toBe(false);
+    });
+
+    it('validates rpc request and response payloads', () => {
+        expect(parseInboundEvent('rpc-request', { v: 1, id: 'rpc-1', method: 'session-1:bash', params: 'enc' }).success).toBe(true);
+        expect(parseInboundEvent('rpc-response', { v: 1, id: 'rpc-1', ok: true, result: 'enc' }).success).toBe(true);
+        expect(parseInboundEvent('rpc-request', { v: 1, id: 'rpc-1', method: '', params: 'enc' }).success).toBe(false);
+    });
+
+    it('reports invalid payloads with the zod error', () => {
+        const result = parseInboundEvent('message', { sid: '', message: 'enc' });
+        expect(result).toMatchObject({ success: false, name: 'message', reason: 'invalid-payload' });
+    });
+
+    it('reports unknown events without throwing', () => {
+        const result = parseInboundEvent('totally-new-event', {});
+        expect(result).toEqual({ success: false, name: 'totally-new-event', reason: 'unknown-event' });
+    });
+});
@@ -0,0 +1,291 @@
+/**
+ * Typed WebSocket event maps
+ *
+ * Maps every Socket.IO/WebSocket event name to the Zod schema of its payload,
+ * in both directions. The derived `ServerToClientEvents`/`ClientToServerEvents`
+ * interfaces plug directly into Socket.IO's typed `Socket<Listen, Emit>`.
+ *
+ * Previously duplicated in:
+ * - happy-cli: `src/api/types.ts` (ServerToClientEvents, ClientToServerEvents)
+ * - happy-server-workers: `src/durable-objects/types.ts` (WebSocketMessageType, ClientMessage)
+ *
+ * Security: All string fields have maximum length constraints.
+ *
+ * @example
+ * ```typescript
+ * import { parseInboundEvent } from '@happy/protocol';
+ *
+ * socket.onAny((name, payload) => {
+ *     const result = parseInboundEvent(name, payload);
+ *     if (!result.success) {
+ *         logger.warn('Dropped socket event', result.name, result.reason);
+ *         return;
+ *     }
+ *     route(result.name, result.payload);
+ * });
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { z } from 'zod';
+import { STRING_LIMITS } from './constraints';
+import { AuthorSeqSchema, KeyVersionSchema, SignatureEnvelopeSchema } from './common';
+import { SessionIdSchema, MachineIdSchema } from './ids';
+import { ApiUpdateContainerSchema } from './payloads';
+import { ApiEphemeralUpdateSchema, ApiEphemeralUsageUpdateSchema } from './ephemeral';
+import { RpcRequestEnvelopeSchema, RpcResponseEnvelopeSchema } from './rpc';
+
+// ═══════════════════════════════════════════════════════════════
+// Client → Server payloads
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * New message sent by a client into a session
+ *
+ * @example
+ * ```typescript
+ * socket.emit('message', { sid: 'session_abc123', message: 'base64EncryptedContent==', localId: 'local_1', k: 2 });
+ * ```
+ */
+export const SocketMessageEventSchema = z.object({
+    sid: SessionIdSchema,
+    /** Encrypted message content (base64) */
+    message: z.string().max(STRING_LIMITS.CONTENT_MAX),
+    /** Version of the session data key that encrypted `message`; the server stores it as `EncryptedContent.k` */
+    k: KeyVersionSchema.optional(),
+    localId: z.string().max(STRING_LIMITS.LOCAL_ID_MAX).nullish(),
+    /** Sending device's per-session message counter; the server stores it on the `ApiMessage` */
+    authorSeq: AuthorSeqSchema.optional(),
+    /**
+     * Author signature over `messageSignatureInput` (requires `localId` and
+     * `authorSeq`); the server stores it on the `ApiMessage`
+     */
+    signature: SignatureEnvelopeSchema.optional(),
+});
+
+export type SocketMessageEvent = z.infer<typeof SocketMessageEventSchema>;
+
+/**
+ * Session keep-alive sent periodically by the CLI while a session runs
+ *
+ * @example
+ * ```typescript
+ * socket.emit('session-alive', { sid: 'session_abc123', time: Date.now(), thinking: true, mode: 'remote' });
+ * ```
+ */
+export const SessionAliveEventSchema = z.object({
+    sid: SessionIdSchema,
+    time: z.number(),
+    thinking: z.boolean().optional(),
+    /** Whether the session is driven from the terminal or remotely */
+    mode: z.enum(['local', 'remote']).optional(),
+});
+
+export type SessionAliveEvent = z.infer<typeof SessionAliveEventSchema>;
+
+/**
+ * Session termination sent by the CLI when a session process exits
+ */
+export const SessionEndEventSchema = z.object({
+    sid: SessionIdSchema,
+    time: z.number(),
+});
+
+export type SessionEndEvent = z.infer<typeof SessionEndEventSchema>;
+
+/**
+ * Machine keep-alive sent periodically by the daemon
+ *
+ * @example
+ * ```typescript
+ * socket.emit('machine-alive', { machineId: 'machine_laptop1', time: Date.now() });
+ * ```
+ */
+export const MachineAliveEventSchema = z.object({
+    machineId: MachineIdSchema,
+    time: z.number(),
+});
+
+export type MachineAliveEvent = z.infer<typeof MachineAliveEventSchema>;
+
+/**
+ * Application-level heartbeat sent by any client
+ *
+ * The server answers with `pong`, echoing `time` so the client can measure
+ * round-trip latency. See `presence.ts` for intervals and timeouts.
+ *
+ * @example
+ * ```typescript
+ * socket.emit('ping', { time: Date.now() });
+ * ```
+ */
+export const PingEventSchema = z.object({
+    time: z.number(),
+});
+
+export type PingEvent = z.infer<typeof PingEventSchema>;
+
+/**
+ * Server reply to `ping`
+ */
+export const PongEventSchema = z.object({
+    /** `time` from the matching ping */
+    time: z.number(),
+    serverTime: z.number(),
+});
+
+export type PongEvent = z.infer<typeof PongEventSchema>;
+
+/**
+ * Token/cost usage report sent by the CLI
+ *
+ * The server persists the report and fans it out as a `usage` ephemeral.
+ *
+ * @example
+ * ```typescript
+ * socket.emit('usage-report', {
+ *     sid: 'session_abc123',
+ *     key: 'claude-session',
+ *     tokens: { total: 1500, input: 1000, output: 500 },
+ *     cost: { total: 0.02 }
+ * });
+ * ```
+ */
+export const UsageReportEventSchema = z.object({
+    sid: SessionIdSchema,
+    key: z.string().min(1).max(STRING_LIMITS.LABEL_MAX),
+    tokens: ApiEphemeralUsageUpdateSchema.shape.tokens,
+    cost: ApiEphemeralUsageUpdateSchema.shape.cost,
+});
+
+export type UsageReportEvent = z.infer<typeof UsageReportEventSchema>;
+
+/**
+ * Registration of an RPC method handled by this connection
+ *
+ * Method names are scoped by entity, e.g. `session_abc123:bash`.
+ */
+export const RpcRegisterEventSchema = z.object({
+    method: z.string().min(1).max(STRING_LIMITS.NAME_MAX),
+});
+
+export type RpcRegisterEvent = z.infer<typeof RpcRegisterEventSchema>;
+
+// ═══════════════════════════════════════════════════════════════
+// Event maps
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Payload schemas for events emitted by the server
+ */
+export const ServerToClientEventSchemas = {
+    update: ApiUpdateContainerSchema,
+    ephemeral: ApiEphemeralUpdateSchema,
+    'rpc-request': RpcRequestEnvelopeSchema,
+    pong: PongEventSchema,
+} as const;
+
+/**
+ * Payload schemas for events emitted by clients (CLI, apps)
+ */
+export const ClientToServerEventSchemas = {
+    message: SocketMessageEventSchema,
+    'session-alive': SessionAliveEventSchema,
+    'session-end': SessionEndEventSchema,
+    'machine-alive': MachineAliveEventSchema,
+    ping: PingEventSchema,
+    'usage-report': UsageReportEventSchema,
+    'rpc-register': RpcRegisterEventSchema,
+    'rpc-unregister': RpcRegisterEventSchema,
+    'rpc-call': RpcRequestEnvelopeSchema,
+    'rpc-response': RpcResponseEnvelopeSchema,
+} as const;
+
+/**
+ * Payload schemas for every event, regardless of direction
+ *
+ * Event names are unique across both directions.
+ */
+export const SocketEventSchemas = {
+    ...ServerToClientEventSchemas,
+    ...ClientToServerEventSchemas,
+} as const;
+
+export type ServerToClientEventName = keyof typeof ServerToClientEventSchemas;
+export type ClientToServerEventName = keyof typeof ClientToServerEventSchemas;
+export type SocketEventName = keyof typeof SocketEventSchemas;
+
+/**
+ * Payload type of a socket event
+ *
+ * @example
+ * ```typescript
+ * type Alive = SocketEventPayload<'session-alive'>; // SessionAliveEvent
+ * ```
+ */
+export type SocketEventPayload<K extends SocketEventName> = z.infer<(typeof SocketEventSchemas)[K]>;
+
+/**
+ * Listener map for events emitted by the server (Socket.IO `ListenEvents` on clients)
+ */
+export type ServerToClientEvents = {
+    [K in ServerToClientEventName]: (payload: SocketEventPayload<K>) => void;
+};
+
+/**
+ * Listener map for events emitted by clients (Socket.IO `ListenEvents` on the server)
+ */
+export type ClientToServerEvents = {
+    [K in ClientToServerEventName]: (payload: SocketEventPayload<K>) => void;
+};
+
+// ═══════════════════════════════════════════════════════════════
+// Parsing
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Result of validating an inbound socket event
+ */
+export type ParseInboundEventResult<K extends SocketEventName = SocketEventName> =
+    | { success: true; name: K; payload: SocketEventPayload<K> }
+    | { success: false; name: string; reason: 'unknown-event' }
+    | { success: false; name: K; reason: 'invalid-payload'; error: z.ZodError };
+
+/**
+ * Type guard: checks if a string is a known socket event name
+ */
+export function isSocketEventName(name: string): name is SocketEventName {
+    return Object.hasOwn(SocketEventSchemas, name);
+}
+
+/**
+ * Validate an inbound socket event against the schema registered for its name
+ *
+ * Never throws. Unknown event names and invalid payloads are reported in the result.
+ *
+ * @param name - Event name as received from the socket
+ * @param payload - Raw event payload
+ * @returns Validated payload, or the reason the event was rejected
+ *
+ * @example
+ * ```typescript
+ * const result = parseInboundEvent('session-alive', raw);
+ * if (result.success) {
+ *     markSessionAlive(result.payload.sid, result.payload.time);
+ * }
+ * ```
+ */
+export function parseInboundEvent<K extends SocketEventName>(name: K, payload: unknown): ParseInboundEventResult<K>;
+export function parseInboundEvent(name: string, payload: unknown): ParseInboundEventResult;
+export function parseInboundEvent(name: string, payload: unknown): ParseInboundEventResult {
+    if (!isSocketEventName(name)) {
+        return { success: false, name, reason: 'unknown-event' };
+    }
+    const schema: z.ZodType<SocketEventPayload<SocketEventName>> = SocketEventSchemas[name];
+    const result = schema.safeParse(payload);
+    if (!result.success) {
+        return { success: false, name, reason: 'invalid-payload', error: result.error };
+    }
+    return { success: true, name, payload: result.data };
+}
@@ -9,6 +9,7 @@
 import { z } from 'zod';
 import { GitHubProfileSchema, ImageRefSchema, NullableVersionedValueSchema } from '../common';
 import { STRING_LIMITS } from '../constraints';
+import { UserIdSchema } from '../ids';
 
 /**
  * Update account
@@ -32,7 +33,7 @@ import { STRING_LIMITS } from '../constraints';
  */
 export const ApiUpdateAccountSchema = z.object({
     t: z.literal('update-account'),
-    id: z.string().min(1).max(STRING_LIMITS.ID_MAX),
+    id: UserIdSchema,
     settings: NullableVersionedValueSchema.nullish(),
     firstName: z.string().max(STRING_LIMITS.NAME_MAX).nullish(),
     lastName: z.string().max(STRING_LIMITS.NAME_MAX).nullish(),
@@ -7,8 +7,9 @@
  */
 
 import { z } from 'zod';
-import { VersionedValueSchema } from '../common';
+import { SignatureEnvelopeSchema, VersionedValueSchema } from '../common';
 import { STRING_LIMITS } from '../constraints';
+import { ArtifactIdSchema } from '../ids';
 
 /**
  * New artifact update
@@ -33,7 +34,7 @@ import { STRING_LIMITS } from '../constraints';
  */
 export const ApiNewArtifactSchema = z.object({
     t: z.literal('new-artifact'),
-    artifactId: z.string().min(1).max(STRING_LIMITS.ID_MAX),
+    artifactId: ArtifactIdSchema,
     header: z.string().max(STRING_LIMITS.ENCRYPTED_STATE_MAX), // Encrypted header
     headerVersion: z.number(),
     body: z.string().max(STRING_LIMITS.CONTENT_MAX).optional(), // Encrypted body (optional for header-only artifacts)
@@ -42,6 +43,7 @@ export const ApiNewArtifactSchema = z.object({
     seq: z.number(),
     createdAt: z.number(),
     updatedAt: z.number(),
+    signature: SignatureEnvelopeSchema.optional(), // Author signature over header and body
 });
 
 export type ApiNewArtifact = z.infer<typeof ApiNewArtifactSchema>;
@@ -62,9 +64,10 @@ export type ApiNewArtifact = z.infer<typeof ApiNewArtifactSchema>;
  */
 export const ApiUpdateArtifactSchema = z.object({
     t: z.literal('update-artifact'),
-    artifactId: z.string().min(1).max(STRING_LIMITS.ID_MAX),
+    artifactId: ArtifactIdSchema,
     header: VersionedValueSchema.optional(),
     body: VersionedValueSchema.optional(),
+    signature: SignatureEnvelopeSchema.optional(), // Author signature over the changed header/body
 });
 
 export type ApiUpdateArtifact = z.infer<typeof ApiUpdateArtifactSchema>;
@@ -84,7 +87,7 @@ export type ApiUpdateArtifact = z.infer<typeof ApiUpdateArtifactSchema>;
  */
 export const ApiDeleteArtifactSchema = z.object({
     t: z.literal('delete-artifact'),
-    artifactId: z.string().min(1).max(STRING_LIMITS.ID_MAX),
+    artifactId: ArtifactIdSchema,
 });
 
 export type ApiDeleteArtifact = z.infer<typeof ApiDeleteArtifactSchema>;
@@ -0,0 +1,55 @@
+/**
+ * Decrypted artifact schemas
+ *
+ * `new-artifact` and `update-artifact` carry `header` and `body` as encrypted
+ * strings. These schemas describe the JSON structure clients obtain AFTER
+ * decrypting those strings. The header is small and synced eagerly (list
+ * views); the body is fetched on demand.
+ *
+ * Previously duplicated in:
+ * - happy-app: `sources/sync/artifactTypes.ts` (ArtifactHeader, ArtifactBody)
+ *
+ * Security: All string fields have maximum length constraints.
+ */
+
+import { z } from 'zod';
+import { STRING_LIMITS } from '../constraints';
+import { SessionIdSchema } from '../ids';
+
+/**
+ * Decrypted artifact header
+ *
+ * @example
+ * ```typescript
+ * const header = ArtifactHeaderSchema.parse({
+ *     title: 'Migration plan',
+ *     sessions: ['session_abc'],
+ *     draft: true
+ * });
+ * ```
+ */
+export const ArtifactHeaderSchema = z.object({
+    /** Display title (`null` for untitled artifacts) */
+    title: z.string().max(STRING_LIMITS.TITLE_MAX).nullable(),
+    /** Sessions the artifact was produced in or linked to */
+    sessions: z.array(SessionIdSchema).optional(),
+    /** True while the artifact is still being written */
+    draft: z.boolean().optional(),
+});
+
+export type ArtifactHeader = z.infer<typeof ArtifactHeaderSchema>;
+
+/**
+ * Decrypted artifact body
+ *
+ * @example
+ * ```typescript
+ * const body = ArtifactBodySchema.parse({ body: '# Migration plan\n...' });
+ * ```
+ */
+export const ArtifactBodySchema = z.object({
+    /** Artifact content (`null` once cleared) */
+    body: z.string().max(STRING_LIMITS.CONTENT_MAX).nullable(),
+});
+
+export type ArtifactBody = z.infer<typeof ArtifactBodySchema>;
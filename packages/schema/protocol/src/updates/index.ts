@@ -9,19 +9,30 @@ import { z } from 'zod';
 
 // Re-export individual update schemas
 export * from './message';
+export * from './messageContent';
 export * from './session';
+export * from './sessionMetadata';
 export * from './machine';
+export * from './machineMetadata';
 export * from './artifact';
+export * from './artifactContent';
 export * from './account';
 export * from './misc';
+export * from './keys';
 
 // Import for discriminated union
 import { ApiUpdateNewMessageSchema, ApiDeleteSessionSchema } from './message';
-import { ApiUpdateNewSessionSchema, ApiUpdateSessionStateSchema, ApiArchiveSessionSchema } from './session';
+import {
+    ApiUpdateNewSessionSchema,
+    ApiUpdateSessionStateSchema,
+    ApiArchiveSessionSchema,
+    ApiUnarchiveSessionSchema,
+} from './session';
 import { ApiNewMachineSchema, ApiUpdateMachineStateSchema, ApiDeleteMachineSchema } from './machine';
 import { ApiNewArtifactSchema, ApiUpdateArtifactSchema, ApiDeleteArtifactSchema } from './artifact';
 import { ApiUpdateAccountSchema } from './account';
 import { ApiRelationshipUpdatedSchema, ApiNewFeedPostSchema, ApiKvBatchUpdateSchema } from './misc';
+import { ApiRotateKeySchema } from './keys';
 
 /**
  * Discriminated union of all update types
@@ -52,6 +63,7 @@ export const ApiUpdateSchema = z.discriminatedUnion('t', [
     ApiUpdateNewSessionSchema,
     ApiDeleteSessionSchema,
     ApiArchiveSessionSchema,
+    ApiUnarchiveSessionSchema,
     ApiUpdateSessionStateSchema,
     ApiUpdateAccountSchema,
     ApiUpdateMachineStateSchema,
@@ -63,6 +75,7 @@ export const ApiUpdateSchema = z.discriminatedUnion('t', [
     ApiRelationshipUpdatedSchema,
     ApiNewFeedPostSchema,
     ApiKvBatchUpdateSchema,
+    ApiRotateKeySchema,
 ]);
 
 export type ApiUpdate = z.infer<typeof ApiUpdateSchema>;
@@ -0,0 +1,56 @@
+/**
+ * Data encryption key update schemas
+ *
+ * Handles: rotate-key
+ *
+ * Security: All string fields have maximum length constraints.
+ */
+
+import { z } from 'zod';
+import { KeyVersionSchema } from '../common';
+import { STRING_LIMITS } from '../constraints';
+import { SessionIdSchema, MachineIdSchema, ArtifactIdSchema } from '../ids';
+
+/**
+ * Entity whose data encryption key was rotated
+ *
+ * Same shape as the matching `EntityRef` from `getEntityRefs`.
+ */
+export const KeyRotationEntitySchema = z.discriminatedUnion('kind', [
+    z.object({ kind: z.literal('session'), id: SessionIdSchema }),
+    z.object({ kind: z.literal('machine'), id: MachineIdSchema }),
+    z.object({ kind: z.literal('artifact'), id: ArtifactIdSchema }),
+]);
+
+export type KeyRotationEntity = z.infer<typeof KeyRotationEntitySchema>;
+
+/**
+ * Rotate key update
+ *
+ * Sent when a session's, machine's or artifact's data encryption key (DEK)
+ * is replaced. Content with entity seq at or after `effectiveFromSeq`
+ * (message seq for sessions) is encrypted with the new key; older content
+ * stays readable with the previous keys, which clients keep.
+ *
+ * @example
+ * ```typescript
+ * const rotation = ApiRotateKeySchema.parse({
+ *     t: 'rotate-key',
+ *     entity: { kind: 'session', id: 'session_abc123' },
+ *     dataEncryptionKey: 'base64WrappedKey==',
+ *     keyVersion: 2,
+ *     effectiveFromSeq: 120,
+ *     rotatedAt: Date.now()
+ * });
+ * ```
+ */
+export const ApiRotateKeySchema = z.object({
+    t: z.literal('rotate-key'),
+    entity: KeyRotationEntitySchema,
+    dataEncryptionKey: z.string().min(1).max(STRING_LIMITS.DATA_ENCRYPTION_KEY_MAX), // New DEK, wrapped, base64
+    keyVersion: KeyVersionSchema,
+    effectiveFromSeq: z.number().int().min(0),
+    rotatedAt: z.number(),
+});
+
+export type ApiRotateKey = z.infer<typeof ApiRotateKeySchema>;
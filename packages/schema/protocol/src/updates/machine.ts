@@ -9,6 +9,7 @@
 import { z } from 'zod';
 import { VersionedValueSchema } from '../common';
 import { STRING_LIMITS } from '../constraints';
+import { MachineIdSchema } from '../ids';
 
 /**
  * New machine update
@@ -50,7 +51,7 @@ export const ApiNewMachineSchema = z.object({
      * @see ApiEphemeralMachineActivityUpdateSchema
      * @see ApiEphemeralMachineStatusUpdateSchema
      */
-    machineId: z.string().min(1).max(STRING_LIMITS.ID_MAX),
+    machineId: MachineIdSchema,
     seq: z.number(),
     metadata: z.string().max(STRING_LIMITS.ENCRYPTED_STATE_MAX), // Encrypted metadata
     metadataVersion: z.number(),
@@ -98,7 +99,7 @@ export const ApiUpdateMachineStateSchema = z.object({
      * @see ApiEphemeralMachineActivityUpdateSchema
      * @see ApiEphemeralMachineStatusUpdateSchema
      */
-    machineId: z.string().min(1).max(STRING_LIMITS.ID_MAX),
+    machineId: MachineIdSchema,
     metadata: VersionedValueSchema.optional(),
     daemonState: VersionedValueSchema.optional(),
     active: z.boolean().optional(),
@@ -138,7 +139,7 @@ export const ApiDeleteMachineSchema = z.object({
      *
      * @see HAP-778 - Machine disconnect functionality
      */
-    machineId: z.string().min(1).max(STRING_LIMITS.ID_MAX),
+    machineId: MachineIdSchema,
 });
 
 export type ApiDeleteMachine = z.infer<typeof ApiDeleteMachineSchema>;
@@ -0,0 +1,121 @@
+/**
+ * Decrypted machine state schemas
+ *
+ * `new-machine` and `update-machine` carry `metadata` and `daemonState` as
+ * encrypted strings. These schemas describe the JSON structure clients obtain
+ * AFTER decrypting those strings.
+ *
+ * Previously duplicated in:
+ * - happy-app: `sources/sync/storageTypes.ts` (MachineMetadataSchema)
+ * - happy-cli: `src/api/types.ts` (MachineMetadata, DaemonState)
+ *
+ * Daemon statuses and shutdown sources are bounded strings rather than
+ * `DaemonStatusSchema`/`ShutdownSourceSchema`, so clients built before a new
+ * status or source is added still decode the machine state.
+ *
+ * Security: All string fields have maximum length constraints.
+ */
+
+import { z } from 'zod';
+import { STRING_LIMITS } from '../constraints';
+
+/**
+ * Known daemon lifecycle statuses
+ *
+ * State fields accept any bounded string; use this to check for a value the
+ * client understands.
+ *
+ * @example
+ * ```typescript
+ * const status = DaemonStatusSchema.parse('running');
+ * ```
+ */
+export const DaemonStatusSchema = z.enum(['running', 'shutting-down']);
+
+export type DaemonStatus = z.infer<typeof DaemonStatusSchema>;
+
+/**
+ * Known components that request a daemon shutdown
+ *
+ * State fields accept any bounded string, as for `DaemonStatusSchema`.
+ */
+export const ShutdownSourceSchema = z.enum(['happy-app', 'happy-cli', 'os-signal', 'unknown']);
+
+export type ShutdownSource = z.infer<typeof ShutdownSourceSchema>;
+
+/**
+ * Decrypted machine metadata
+ *
+ * Static description of the machine, written by the CLI when it registers.
+ *
+ * @example
+ * ```typescript
+ * const metadata = MachineMetadataSchema.parse({
+ *     host: 'janes-macbook',
+ *     platform: 'darwin',
+ *     happyCliVersion: '0.12.0',
+ *     homeDir: '/Users/jane',
+ *     happyHomeDir: '/Users/jane/.happy'
+ * });
+ * ```
+ */
+export const MachineMetadataSchema = z.object({
+    /** Hostname of the machine */
+    host: z.string().max(STRING_LIMITS.NAME_MAX),
+    /** Node.js platform identifier (`darwin`, `linux`, `win32`) */
+    platform: z.string().max(STRING_LIMITS.LABEL_MAX),
+    /** Installed happy-cli version */
+    happyCliVersion: z.string().max(STRING_LIMITS.LABEL_MAX),
+    /** Home directory of the user running the daemon */
+    homeDir: z.string().max(STRING_LIMITS.PATH_MAX),
+    /** Happy configuration directory (e.g. `~/.happy`) */
+    happyHomeDir: z.string().max(STRING_LIMITS.PATH_MAX),
+    /** OS username */
+    username: z.string().max(STRING_LIMITS.USERNAME_MAX).optional(),
+    /** CPU architecture (`arm64`, `x64`) */
+    arch: z.string().max(STRING_LIMITS.LABEL_MAX).optional(),
+    /** User-chosen display name for the machine */
+    displayName: z.string().max(STRING_LIMITS.NAME_MAX).optional(),
+    /** Last daemon status the CLI reported before going offline (see `DaemonStatusSchema` for known values) */
+    daemonLastKnownStatus: z.string().max(STRING_LIMITS.LABEL_MAX).optional(),
+    /** Last daemon PID the CLI reported before going offline */
+    daemonLastKnownPid: z.number().optional(),
+    /** When a shutdown was requested (Unix milliseconds) */
+    shutdownRequestedAt: z.number().optional(),
+    /** Who requested the shutdown (see `ShutdownSourceSchema` for known values) */
+    shutdownSource: z.string().max(STRING_LIMITS.LABEL_MAX).optional(),
+});
+
+export type MachineMetadata = z.infer<typeof MachineMetadataSchema>;
+
+/**
+ * Decrypted daemon state
+ *
+ * Live state of the happy daemon process on the machine.
+ *
+ * @example
+ * ```typescript
+ * const daemonState = DaemonStateSchema.parse({
+ *     status: 'running',
+ *     pid: 4242,
+ *     httpPort: 53123,
+ *     startedAt: Date.now()
+ * });
+ * ```
+ */
+export const DaemonStateSchema = z.object({
+    /** Daemon status (`running`, `shutting-down`; see `DaemonStatusSchema`) */
+    status: z.string().min(1).max(STRING_LIMITS.LABEL_MAX),
+    /** Daemon process ID */
+    pid: z.number().optional(),
+    /** Local HTTP control port of the daemon */
+    httpPort: z.number().optional(),
+    /** When the daemon started (Unix milliseconds) */
+    startedAt: z.number().optional(),
+    /** When a shutdown was requested (Unix milliseconds) */
+    shutdownRequestedAt: z.number().optional(),
+    /** Who requested the shutdown (see `ShutdownSourceSchema` for known values) */
+    shutdownSource: z.string().max(STRING_LIMITS.LABEL_MAX).optional(),
+});
+
+export type DaemonState = z.infer<typeof DaemonStateSchema>;
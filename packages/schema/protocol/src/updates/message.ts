@@ -7,8 +7,9 @@
  */
 
 import { z } from 'zod';
-import { EncryptedContentSchema } from '../common';
+import { AuthorSeqSchema, EncryptedContentSchema, SignatureEnvelopeSchema } from '../common';
 import { STRING_LIMITS } from '../constraints';
+import { SessionIdSchema } from '../ids';
 
 /**
  * API Message schema - encrypted message structure
@@ -32,6 +33,9 @@ export const ApiMessageSchema = z.object({
     localId: z.string().max(STRING_LIMITS.LOCAL_ID_MAX).nullish(),
     content: EncryptedContentSchema,
     createdAt: z.number(),
+    authorSeq: AuthorSeqSchema.optional(), // Author's per-session counter, copied from `SocketMessageEvent.authorSeq`
+    signature: SignatureEnvelopeSchema.optional(), // Author signature over sid, authorSeq, localId and content
+    sequenceSignature: SignatureEnvelopeSchema.optional(), // Server signature binding seq (`messageSequenceSignatureInput`)
 });
 
 export type ApiMessage = z.infer<typeof ApiMessageSchema>;
@@ -69,7 +73,7 @@ export const ApiUpdateNewMessageSchema = z.object({
      *
      * @see HAP-654 - Standardization of session ID field names
      */
-    sid: z.string().min(1).max(STRING_LIMITS.ID_MAX),
+    sid: SessionIdSchema,
     message: ApiMessageSchema,
 });
 
@@ -102,7 +106,7 @@ export const ApiDeleteSessionSchema = z.object({
      *
      * @see HAP-654 - Standardization of session ID field names
      */
-    sid: z.string().min(1).max(STRING_LIMITS.ID_MAX),
+    sid: SessionIdSchema,
 });
 
 export type ApiDeleteSession = z.infer<typeof ApiDeleteSessionSchema>;
@@ -0,0 +1,116 @@
+/**
+ * Tests for decrypted message content schemas
+ */
+
+import { describe, it, expect } from 'vitest';
+import { STRING_LIMITS } from '../constraints';
+import {
+    MessageContentSchema,
+    MessageAttachmentSchema,
+    AgentContentSchema,
+    SessionEventSchema,
+} from './messageContent';
+
+describe('MessageContentSchema', () => {
+    it('accepts user text with attachments', () => {
+        const result = MessageContentSchema.safeParse({
+            role: 'user',
+            content: {
+                type: 'text',
+                text: 'What is in this screenshot?',
+                attachments: [{ kind: 'image', name: 'shot.png', mimeType: 'image/png', url: 'https://cdn.example.com/shot.png' }],
+            },
+            localKey: 'local-1',
+            meta: { sentFrom: 'ios', permissionMode: 'plan' },
+        });
+        expect(result.success).toBe(true);
+    });
+
+    it('accepts agent output for both flavors', () => {
+        for (const flavor of ['claude', 'codex']) {
+            const result = MessageContentSchema.safeParse({
+                role: 'agent',
+                flavor,
+                content: { type: 'output', text: 'Done.' },
+            });
+            expect(result.success).toBe(true);
+        }
+    });
+
+    it('accepts legacy agent messages without flavor', () => {
+        const result = MessageContentSchema.safeParse({ role: 'agent', content: { type: 'output', text: 'Hi' } });
+        expect(result.success).toBe(true);
+    });
+
+    it('accepts agent flavors added after this client was built', () => {
+        expect(MessageContentSchema.safeParse({
+            role: 'agent',
+            flavor: 'gemini',
+            content: { type: 'output', text: 'x' },
+        }).success).toBe(true);
+    });
+
+    it('rejects unknown roles and oversized flavors', () => {
+        expect(MessageContentSchema.safeParse({ role: 'system', content: { type: 'text', text: 'x' } }).success).toBe(false);
+        expect(MessageContentSchema.safeParse({
+            role: 'agent',
+            flavor: 'x'.repeat(STRING_LIMITS.LABEL_MAX + 1),
+            content: { type: 'output', text: 'x' },
+        }).success).toBe(false);
+    });
+
+    it('narrows by role and content type', () => {
+        const parsed = MessageContentSchema.parse({
+            role: 'agent',
+            content: { type: 'tool-result', callId: 'call-1', output: { stdout: 'ok' }, isError: false },
+        });
+        expect(parsed).toMatchObject({ role: 'agent', content: { type: 'tool-result', callId: 'call-1' } });
+    });
+});
+
+describe('MessageAttachmentSchema', () => {
+    it('requires inline data or a url', () => {
+        expect(MessageAttachmentSchema.safeParse({ kind: 'file', name: 'a.txt', mimeType: 'text/plain' }).success).toBe(false);
+        expect(MessageAttachmentSchema.safeParse({
+            kind: 'file',
+            name: 'a.txt',
+            mimeType: 'text/plain',
+            data: 'aGVsbG8=',
+        }).success).toBe(true);
+    });
+});
+
+describe('AgentContentSchema', () => {
+    it('accepts tool calls and permission requests', () => {
+        expect(AgentContentSchema.safeParse({
+            type: 'tool-call',
+            callId: 'call-1',
+            name: 'Bash',
+            input: { command: 'ls' },
+            description: 'List files',
+        }).success).toBe(true);
+        expect(AgentContentSchema.safeParse({
+            type: 'permission-request',
+            requestId: 'toolu_01',
+            tool: 'Edit',
+            arguments: { file_path: 'src/index.ts' },
+        }).success).toBe(true);
+    });
+
+    it('requires isError on tool results', () => {
+        expect(AgentContentSchema.safeParse({ type: 'tool-result', callId: 'call-1', output: 'ok' }).success).toBe(false);
+    });
+});
+
+describe('SessionEventSchema', () => {
+    it('accepts mode switches and permission mode changes', () => {
+        expect(SessionEventSchema.safeParse({ type: 'switch', mode: 'remote' }).success).toBe(true);
+        expect(SessionEventSchema.safeParse({ type: 'permission-mode-changed', mode: 'yolo' }).success).toBe(true);
+        expect(SessionEventSchema.safeParse({ type: 'switch', mode: 'elsewhere' }).success).toBe(false);
+    });
+
+    it('accepts limit and ready events', () => {
+        expect(SessionEventSchema.safeParse({ type: 'limit-reached', endsAt: 1700000000000 }).success).toBe(true);
+        expect(SessionEventSchema.safeParse({ type: 'ready' }).success).toBe(true);
+    });
+});
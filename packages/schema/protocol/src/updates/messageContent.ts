@@ -0,0 +1,234 @@
+/**
+ * Decrypted message content schemas
+ *
+ * `ApiMessageSchema.content` is an encrypted blob. These schemas describe the
+ * JSON structure clients obtain AFTER decrypting it, so the web, mobile and
+ * macOS renderers share one parser for Claude and Codex sessions alike.
+ *
+ * Previously duplicated in:
+ * - happy-cli: `src/api/types.ts` (UserMessageSchema, MessageContent)
+ * - happy-app: `sources/sync/typesRaw.ts` (RawRecord)
+ *
+ * Agent flavors and permission modes are bounded strings rather than
+ * `AgentFlavorSchema`/`PermissionModeSchema`, as in `SessionMetadataSchema`,
+ * so clients built before a new agent or mode is added still decode history.
+ * Content and session event types stay closed unions so renderers can narrow
+ * on `type`; parse with `parseMessageContent`, which returns newer types as
+ * `unknown` instead of failing the whole message.
+ *
+ * Security: All string fields have maximum length constraints.
+ */
+
+import { z } from 'zod';
+import { STRING_LIMITS } from '../constraints';
+
+// ═══════════════════════════════════════════════════════════════
+// Shared parts
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * File or image attached to a user message
+ *
+ * Either `data` (inline base64) or `url` (uploaded) is set.
+ *
+ * @example
+ * ```typescript
+ * const attachment = MessageAttachmentSchema.parse({
+ *     kind: 'image',
+ *     name: 'screenshot.png',
+ *     mimeType: 'image/png',
+ *     size: 48213,
+ *     url: 'https://cdn.example.com/uploads/screenshot.png'
+ * });
+ * ```
+ */
+export const MessageAttachmentSchema = z.object({
+    kind: z.enum(['image', 'file']),
+    name: z.string().min(1).max(STRING_LIMITS.NAME_MAX),
+    mimeType: z.string().min(1).max(STRING_LIMITS.LABEL_MAX),
+    /** Size in bytes */
+    size: z.number().int().nonnegative().optional(),
+    /** Inline content (base64) */
+    data: z.string().max(STRING_LIMITS.CONTENT_MAX).optional(),
+    /** Location of uploaded content */
+    url: z.string().max(STRING_LIMITS.URL_MAX).optional(),
+}).refine((attachment) => attachment.data !== undefined || attachment.url !== undefined, {
+    message: 'Either data or url must be provided',
+});
+
+export type MessageAttachment = z.infer<typeof MessageAttachmentSchema>;
+
+/**
+ * Client-side metadata attached to a message
+ */
+export const MessageMetaSchema = z.object({
+    /** Client that sent the message (`ios`, `android`, `web`, `cli`, `macos`) */
+    sentFrom: z.string().max(STRING_LIMITS.LABEL_MAX).optional(),
+    /** Permission mode requested for the agent turn */
+    permissionMode: z.string().max(STRING_LIMITS.LABEL_MAX).optional(),
+    /** Model requested for the agent turn */
+    model: z.string().max(STRING_LIMITS.LABEL_MAX).nullish(),
+    /** Text to show instead of the raw message (e.g. for slash commands) */
+    displayText: z.string().max(STRING_LIMITS.MESSAGE_MAX).optional(),
+});
+
+export type MessageMeta = z.infer<typeof MessageMetaSchema>;
+
+// ═══════════════════════════════════════════════════════════════
+// User messages
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Message typed by the user
+ *
+ * @example
+ * ```typescript
+ * const message = UserMessageContentSchema.parse({
+ *     role: 'user',
+ *     content: { type: 'text', text: 'Fix the failing test' },
+ *     localKey: 'local_123',
+ *     meta: { sentFrom: 'ios', permissionMode: 'acceptEdits' }
+ * });
+ * ```
+ */
+export const UserMessageContentSchema = z.object({
+    role: z.literal('user'),
+    content: z.object({
+        type: z.literal('text'),
+        text: z.string().max(STRING_LIMITS.MESSAGE_MAX),
+        attachments: z.array(MessageAttachmentSchema).optional(),
+    }),
+    /** Client-generated key used to reconcile optimistic messages */
+    localKey: z.string().max(STRING_LIMITS.LOCAL_ID_MAX).optional(),
+    meta: MessageMetaSchema.optional(),
+});
+
+export type UserMessageContent = z.infer<typeof UserMessageContentSchema>;
+
+// ═══════════════════════════════════════════════════════════════
+// Agent messages
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Session event emitted by the CLI into the message stream
+ *
+ * @remarks
+ * - `switch`: control moved between terminal (`local`) and app (`remote`)
+ * - `permission-mode-changed`: permission mode changed mid-session
+ * - `message`: informational text (e.g. "Aborted by user")
+ * - `limit-reached`: usage limit hit, resets at `endsAt` (Unix milliseconds)
+ * - `ready`: agent finished its turn and waits for input
+ */
+export const SessionEventSchema = z.discriminatedUnion('type', [
+    z.object({
+        type: z.literal('switch'),
+        mode: z.enum(['local', 'remote']),
+    }),
+    z.object({
+        type: z.literal('permission-mode-changed'),
+        mode: z.string().max(STRING_LIMITS.LABEL_MAX),
+    }),
+    z.object({
+        type: z.literal('message'),
+        message: z.string().max(STRING_LIMITS.DESCRIPTION_MAX),
+    }),
+    z.object({
+        type: z.literal('limit-reached'),
+        endsAt: z.number(),
+    }),
+    z.object({
+        type: z.literal('ready'),
+    }),
+]);
+
+export type SessionEvent = z.infer<typeof SessionEventSchema>;
+
+/**
+ * Body of an agent message, discriminated by `type`
+ *
+ * Tool calls and results are correlated by `callId`.
+ */
+export const AgentContentSchema = z.discriminatedUnion('type', [
+    /** Text output from the agent */
+    z.object({
+        type: z.literal('output'),
+        text: z.string().max(STRING_LIMITS.MESSAGE_MAX),
+    }),
+    /** Agent started a tool call */
+    z.object({
+        type: z.literal('tool-call'),
+        callId: z.string().min(1).max(STRING_LIMITS.ID_MAX),
+        name: z.string().min(1).max(STRING_LIMITS.MCP_TOOL_NAME_MAX),
+        input: z.unknown(),
+        description: z.string().max(STRING_LIMITS.DESCRIPTION_MAX).optional(),
+    }),
+    /** Tool call finished */
+    z.object({
+        type: z.literal('tool-result'),
+        callId: z.string().min(1).max(STRING_LIMITS.ID_MAX),
+        output: z.unknown(),
+        isError: z.boolean(),
+    }),
+    /** Agent needs the user to approve a tool call */
+    z.object({
+        type: z.literal('permission-request'),
+        /** Key in `AgentState.requests` */
+        requestId: z.string().min(1).max(STRING_LIMITS.ID_MAX),
+        tool: z.string().min(1).max(STRING_LIMITS.MCP_TOOL_NAME_MAX),
+        arguments: z.unknown(),
+    }),
+    /** Session event */
+    z.object({
+        type: z.literal('event'),
+        event: SessionEventSchema,
+    }),
+]);
+
+export type AgentContent = z.infer<typeof AgentContentSchema>;
+
+/**
+ * Message produced by the agent (Claude or Codex)
+ *
+ * @example
+ * ```typescript
+ * const message = AgentMessageContentSchema.parse({
+ *     role: 'agent',
+ *     flavor: 'codex',
+ *     content: { type: 'tool-call', callId: 'call_1', name: 'shell', input: { command: ['ls'] } }
+ * });
+ * ```
+ */
+export const AgentMessageContentSchema = z.object({
+    role: z.literal('agent'),
+    /** Agent that produced the message (absent on legacy messages) */
+    flavor: z.string().max(STRING_LIMITS.LABEL_MAX).optional(),
+    content: AgentContentSchema,
+    meta: MessageMetaSchema.optional(),
+});
+
+export type AgentMessageContent = z.infer<typeof AgentMessageContentSchema>;
+
+// ═══════════════════════════════════════════════════════════════
+// Combined
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Decrypted message body, discriminated by `role`
+ *
+ * Rejects content types newer than this client; renderers should use
+ * `parseMessageContent` to tolerate them.
+ *
+ * @example
+ * ```typescript
+ * const result = MessageContentSchema.safeParse(decrypt(message.content.c));
+ * if (result.success && result.data.role === 'agent' && result.data.content.type === 'output') {
+ *     render(result.data.content.text);
+ * }
+ * ```
+ */
+export const MessageContentSchema = z.discriminatedUnion('role', [
+    UserMessageContentSchema,
+    AgentMessageContentSchema,
+]);
+
+export type MessageContent = z.infer<typeof MessageContentSchema>;
@@ -9,6 +9,7 @@
 import { z } from 'zod';
 import { RelationshipStatusSchema, UserProfileSchema, FeedBodySchema } from '../common';
 import { STRING_LIMITS } from '../constraints';
+import { UserIdSchema } from '../ids';
 
 /**
  * Relationship update
@@ -29,8 +30,8 @@ import { STRING_LIMITS } from '../constraints';
  */
 export const ApiRelationshipUpdatedSchema = z.object({
     t: z.literal('relationship-updated'),
-    fromUserId: z.string().min(1).max(STRING_LIMITS.ID_MAX),
-    toUserId: z.string().min(1).max(STRING_LIMITS.ID_MAX),
+    fromUserId: UserIdSchema,
+    toUserId: UserIdSchema,
     status: RelationshipStatusSchema,
     action: z.enum(['created', 'updated', 'deleted']),
     fromUser: UserProfileSchema.optional(),
@@ -9,6 +9,7 @@
 import { z } from 'zod';
 import { NullableVersionedValueSchema } from '../common';
 import { STRING_LIMITS } from '../constraints';
+import { SessionIdSchema, UserIdSchema } from '../ids';
 
 /**
  * New session update
@@ -48,7 +49,7 @@ export const ApiUpdateNewSessionSchema = z.object({
      *
      * @see HAP-654 - Standardization of session ID field names
      */
-    sid: z.string().min(1).max(STRING_LIMITS.ID_MAX),
+    sid: SessionIdSchema,
     seq: z.number(),
     metadata: z.string().max(STRING_LIMITS.ENCRYPTED_STATE_MAX), // Encrypted metadata
     metadataVersion: z.number(),
@@ -93,7 +94,7 @@ export const ApiUpdateSessionStateSchema = z.object({
      *
      * @see HAP-654 - Standardization of session ID field names
      */
-    sid: z.string().min(1).max(STRING_LIMITS.ID_MAX),
+    sid: SessionIdSchema,
     agentState: NullableVersionedValueSchema.nullish(),
     metadata: NullableVersionedValueSchema.nullish(),
 });
@@ -146,7 +147,7 @@ export const ApiArchiveSessionSchema = z.object({
      *
      * @see HAP-654 - Standardization of session ID field names
      */
-    sid: z.string().min(1).max(STRING_LIMITS.ID_MAX),
+    sid: SessionIdSchema,
     /**
      * Timestamp when the session was archived (Unix milliseconds)
      */
@@ -158,3 +159,41 @@ export const ApiArchiveSessionSchema = z.object({
 });
 
 export type ApiArchiveSession = z.infer<typeof ApiArchiveSessionSchema>;
+
+/**
+ * Unarchive session update
+ *
+ * Sent when an archived session is restored, so every device moves it back
+ * to the active session list. Reverses `archive-session`; a restore only
+ * applies if it is newer than the archive it undoes.
+ *
+ * @example
+ * ```typescript
+ * const unarchiveSession = ApiUnarchiveSessionSchema.parse({
+ *     t: 'unarchive-session',
+ *     sid: 'session_abc123',
+ *     restoredAt: Date.now(),
+ *     restoredBy: 'user_xyz789'
+ * });
+ * ```
+ */
+export const ApiUnarchiveSessionSchema = z.object({
+    t: z.literal('unarchive-session'),
+    /**
+     * Session ID
+     *
+     * @remarks
+     * Field name: `sid`, like every other session update (HAP-654)
+     */
+    sid: SessionIdSchema,
+    /**
+     * Timestamp when the session was restored (Unix milliseconds)
+     */
+    restoredAt: z.number(),
+    /**
+     * User who restored the session (the owner, or a user it is shared with)
+     */
+    restoredBy: UserIdSchema,
+});
+
+export type ApiUnarchiveSession = z.infer<typeof ApiUnarchiveSessionSchema>;
@@ -0,0 +1,109 @@
+/**
+ * Tests for decrypted session state schemas
+ */
+
+import { describe, it, expect } from 'vitest';
+import { STRING_LIMITS } from '../constraints';
+import {
+    SessionMetadataSchema,
+    AgentStateSchema,
+    AgentStateCompletedRequestSchema,
+    PermissionModeSchema,
+    AgentFlavorSchema,
+} from './sessionMetadata';
+
+const metadata = { path: '/Users/jane/project', host: 'janes-macbook' };
+
+describe('SessionMetadataSchema', () => {
+    it('accepts minimal metadata', () => {
+        expect(SessionMetadataSchema.safeParse(metadata).success).toBe(true);
+    });
+
+    it('accepts full metadata', () => {
+        const result = SessionMetadataSchema.safeParse({
+            ...metadata,
+            version: '0.12.0',
+            os: 'darwin',
+            summary: { text: 'Fix login bug', updatedAt: 1000 },
+            machineId: 'machine-1',
+            tools: ['Bash', 'Edit'],
+            flavor: 'claude',
+            model: 'sonnet',
+            permissionMode: 'acceptEdits',
+        });
+        expect(result.success).toBe(true);
+    });
+
+    it('accepts flavors and permission modes added after this client was built', () => {
+        const result = SessionMetadataSchema.safeParse({ ...metadata, flavor: 'gemini', permissionMode: 'auto-review' });
+        expect(result.success).toBe(true);
+    });
+
+    it('accepts null for nullable fields', () => {
+        expect(SessionMetadataSchema.safeParse({ ...metadata, flavor: null, model: null, permissionMode: null }).success)
+            .toBe(true);
+    });
+
+    it('rejects missing required fields and oversized strings', () => {
+        expect(SessionMetadataSchema.safeParse({ host: 'janes-macbook' }).success).toBe(false);
+        expect(SessionMetadataSchema.safeParse({ ...metadata, path: 'x'.repeat(STRING_LIMITS.PATH_MAX + 1) }).success)
+            .toBe(false);
+        expect(SessionMetadataSchema.safeParse({
+            ...metadata,
+            permissionMode: 'x'.repeat(STRING_LIMITS.LABEL_MAX + 1),
+        }).success).toBe(false);
+    });
+});
+
+describe('AgentStateSchema', () => {
+    it('accepts pending and completed requests', () => {
+        const result = AgentStateSchema.safeParse({
+            controlledByUser: false,
+            requests: { toolu_01: { tool: 'Bash', arguments: { command: 'ls' }, createdAt: 1000 } },
+            completedRequests: {
+                toolu_00: {
+                    tool: 'Edit',
+                    arguments: {},
+                    completedAt: 2000,
+                    status: 'approved',
+                    mode: 'acceptEdits',
+                    decision: 'approved_for_session',
+                },
+            },
+        });
+        expect(result.success).toBe(true);
+    });
+
+    it('accepts an empty state', () => {
+        expect(AgentStateSchema.safeParse({}).success).toBe(true);
+    });
+
+    it('rejects requests without a tool', () => {
+        expect(AgentStateSchema.safeParse({ requests: { toolu_01: { arguments: {} } } }).success).toBe(false);
+    });
+});
+
+describe('AgentStateCompletedRequestSchema', () => {
+    it('accepts unknown permission modes', () => {
+        const result = AgentStateCompletedRequestSchema.safeParse({
+            tool: 'Bash',
+            arguments: {},
+            status: 'denied',
+            mode: 'auto-review',
+        });
+        expect(result.success).toBe(true);
+    });
+
+    it('rejects unknown statuses', () => {
+        expect(AgentStateCompletedRequestSchema.safeParse({ tool: 'Bash', arguments: {}, status: 'pending' }).success)
+            .toBe(false);
+    });
+});
+
+describe('known value enums', () => {
+    it('list the current modes and flavors', () => {
+        expect(PermissionModeSchema.safeParse('plan').success).toBe(true);
+        expect(PermissionModeSchema.safeParse('auto-review').success).toBe(false);
+        expect(AgentFlavorSchema.options).toEqual(['claude', 'codex']);
+    });
+});
@@ -0,0 +1,205 @@
+/**
+ * Decrypted session state schemas
+ *
+ * `new-session` and `update-session` carry `metadata` and `agentState` as
+ * encrypted strings. These schemas describe the JSON structure clients obtain
+ * AFTER decrypting those strings, so every client decodes the same shape.
+ *
+ * Previously duplicated in:
+ * - happy-app: `sources/sync/storageTypes.ts` (MetadataSchema, AgentStateSchema)
+ * - happy-cli: `src/api/types.ts` (Metadata, AgentState)
+ *
+ * Security: All string fields have maximum length constraints.
+ */
+
+import { z } from 'zod';
+import { STRING_LIMITS } from '../constraints';
+import { MachineIdSchema } from '../ids';
+
+/**
+ * Permission mode controlling how the agent asks for tool approval
+ *
+ * @remarks
+ * - `default`, `acceptEdits`, `bypassPermissions`, `plan`: Claude Code modes
+ * - `read-only`, `safe-yolo`, `yolo`: Codex modes
+ *
+ * @example
+ * ```typescript
+ * const mode = PermissionModeSchema.parse('acceptEdits');
+ * ```
+ */
+export const PermissionModeSchema = z.enum([
+    'default',
+    'acceptEdits',
+    'bypassPermissions',
+    'plan',
+    'read-only',
+    'safe-yolo',
+    'yolo',
+]);
+
+export type PermissionMode = z.infer<typeof PermissionModeSchema>;
+
+/**
+ * Agent implementation driving a session
+ *
+ * @example
+ * ```typescript
+ * const flavor = AgentFlavorSchema.parse('codex');
+ * ```
+ */
+export const AgentFlavorSchema = z.enum(['claude', 'codex']);
+
+export type AgentFlavor = z.infer<typeof AgentFlavorSchema>;
+
+/**
+ * Decision recorded when a permission request is resolved
+ */
+export const PermissionDecisionSchema = z.enum([
+    'approved',
+    'approved_for_session',
+    'denied',
+    'abort',
+]);
+
+export type PermissionDecision = z.infer<typeof PermissionDecisionSchema>;
+
+/**
+ * Decrypted session metadata
+ *
+ * Describes where and how a session runs. Written by the CLI when the session
+ * starts and updated as the session progresses (summary, model, mode).
+ *
+ * @remarks
+ * `flavor` and `permissionMode` are kept as bounded strings rather than
+ * `AgentFlavorSchema`/`PermissionModeSchema` so that clients built before a
+ * new agent or mode is added still decode the metadata.
+ *
+ * @example
+ * ```typescript
+ * const metadata = SessionMetadataSchema.parse({
+ *     path: '/Users/jane/projects/happy',
+ *     host: 'janes-macbook',
+ *     flavor: 'claude',
+ *     model: 'sonnet',
+ *     permissionMode: 'default',
+ *     summary: { text: 'Fix login bug', updatedAt: Date.now() }
+ * });
+ * ```
+ */
+export const SessionMetadataSchema = z.object({
+    /** Working directory of the session */
+    path: z.string().max(STRING_LIMITS.PATH_MAX),
+    /** Hostname of the machine running the session */
+    host: z.string().max(STRING_LIMITS.NAME_MAX),
+    /** happy-cli version that created the session */
+    version: z.string().max(STRING_LIMITS.LABEL_MAX).optional(),
+    /** Optional user-facing session name */
+    name: z.string().max(STRING_LIMITS.TITLE_MAX).optional(),
+    /** Operating system of the host machine */
+    os: z.string().max(STRING_LIMITS.LABEL_MAX).optional(),
+    /** AI-generated summary of the session */
+    summary: z.object({
+        text: z.string().max(STRING_LIMITS.SUMMARY_MAX),
+        updatedAt: z.number(),
+    }).optional(),
+    /** Machine the session is running on */
+    machineId: MachineIdSchema.optional(),
+    /** Claude Code session ID (used for resuming) */
+    claudeSessionId: z.string().max(STRING_LIMITS.ID_MAX).optional(),
+    /** Tools available to the agent */
+    tools: z.array(z.string().max(STRING_LIMITS.MCP_TOOL_NAME_MAX)).optional(),
+    /** Slash commands available in the session */
+    slashCommands: z.array(z.string().max(STRING_LIMITS.LABEL_MAX)).optional(),
+    /** Home directory of the user running the session */
+    homeDir: z.string().max(STRING_LIMITS.PATH_MAX).optional(),
+    /** Happy configuration directory (e.g. `~/.happy`) */
+    happyHomeDir: z.string().max(STRING_LIMITS.PATH_MAX).optional(),
+    /** PID of the process hosting the session */
+    hostPid: z.number().optional(),
+    /** Agent flavor (`claude`, `codex`) */
+    flavor: z.string().max(STRING_LIMITS.LABEL_MAX).nullish(),
+    /** Model selected for the session */
+    model: z.string().max(STRING_LIMITS.LABEL_MAX).nullish(),
+    /** Current permission mode (see `PermissionModeSchema` for known values) */
+    permissionMode: z.string().max(STRING_LIMITS.LABEL_MAX).nullish(),
+});
+
+export type SessionMetadata = z.infer<typeof SessionMetadataSchema>;
+
+/**
+ * Pending permission request awaiting a user decision
+ *
+ * @example
+ * ```typescript
+ * const request = AgentStatePendingRequestSchema.parse({
+ *     tool: 'Bash',
+ *     arguments: { command: 'rm -rf node_modules' },
+ *     createdAt: Date.now()
+ * });
+ * ```
+ */
+export const AgentStatePendingRequestSchema = z.object({
+    tool: z.string().min(1).max(STRING_LIMITS.MCP_TOOL_NAME_MAX),
+    arguments: z.unknown(),
+    createdAt: z.number().nullish(),
+});
+
+export type AgentStatePendingRequest = z.infer<typeof AgentStatePendingRequestSchema>;
+
+/**
+ * Permission request that has been resolved
+ *
+ * @example
+ * ```typescript
+ * const completed = AgentStateCompletedRequestSchema.parse({
+ *     tool: 'Edit',
+ *     arguments: { file_path: 'src/index.ts' },
+ *     createdAt: Date.now() - 5000,
+ *     completedAt: Date.now(),
+ *     status: 'approved',
+ *     decision: 'approved_for_session'
+ * });
+ * ```
+ */
+export const AgentStateCompletedRequestSchema = z.object({
+    tool: z.string().min(1).max(STRING_LIMITS.MCP_TOOL_NAME_MAX),
+    arguments: z.unknown(),
+    createdAt: z.number().nullish(),
+    completedAt: z.number().nullish(),
+    status: z.enum(['canceled', 'denied', 'approved']),
+    reason: z.string().max(STRING_LIMITS.DESCRIPTION_MAX).nullish(),
+    mode: z.string().max(STRING_LIMITS.LABEL_MAX).nullish(), // Bounded string, like `permissionMode`
+    allowedTools: z.array(z.string().max(STRING_LIMITS.MCP_TOOL_NAME_MAX)).nullish(),
+    decision: PermissionDecisionSchema.nullish(),
+});
+
+export type AgentStateCompletedRequest = z.infer<typeof AgentStateCompletedRequestSchema>;
+
+/**
+ * Decrypted agent state
+ *
+ * Live state of the agent process, keyed by permission request ID.
+ * Pending requests move to `completedRequests` once the user responds.
+ *
+ * @example
+ * ```typescript
+ * const agentState = AgentStateSchema.parse({
+ *     controlledByUser: false,
+ *     requests: {
+ *         'toolu_01': { tool: 'Bash', arguments: { command: 'ls' }, createdAt: Date.now() }
+ *     },
+ *     completedRequests: {}
+ * });
+ * ```
+ */
+export const AgentStateSchema = z.object({
+    /** True when the user is driving the session from the terminal */
+    controlledByUser: z.boolean().nullish(),
+    /** Permission requests awaiting a decision */
+    requests: z.record(z.string().max(STRING_LIMITS.ID_MAX), AgentStatePendingRequestSchema).nullish(),
+    /** Permission requests that were resolved */
+    completedRequests: z.record(z.string().max(STRING_LIMITS.ID_MAX), AgentStateCompletedRequestSchema).nullish(),
+});
+
+export type AgentState = z.infer<typeof AgentStateSchema>;
@@ -0,0 +1,80 @@
+/**
+ * Tests for protocol version negotiation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ErrorCodes } from '@happy/errors';
+import {
+    PROTOCOL_VERSION,
+    MIN_PROTOCOL_VERSION,
+    ProtocolHandshakeSchema,
+    createHandshake,
+    negotiate,
+    type ProtocolHandshake,
+} from './index';
+
+function handshake(protocolVersion: number, minProtocolVersion: number, capabilities: string[] = []): ProtocolHandshake {
+    return { protocolVersion, minProtocolVersion, capabilities };
+}
+
+describe('ProtocolHandshakeSchema', () => {
+    it('accepts the current handshake', () => {
+        expect(ProtocolHandshakeSchema.safeParse(createHandshake(['sharing'])).success).toBe(true);
+    });
+
+    it('accepts unknown capability flags', () => {
+        expect(ProtocolHandshakeSchema.safeParse(handshake(1, 1, ['future-feature'])).success).toBe(true);
+    });
+
+    it('rejects a minimum above the advertised version', () => {
+        expect(ProtocolHandshakeSchema.safeParse(handshake(1, 2)).success).toBe(false);
+    });
+});
+
+describe('createHandshake', () => {
+    it('advertises the package version range', () => {
+        expect(createHandshake([])).toEqual({
+            protocolVersion: PROTOCOL_VERSION,
+            minProtocolVersion: MIN_PROTOCOL_VERSION,
+            capabilities: [],
+        });
+    });
+});
+
+describe('negotiate', () => {
+    it('agrees on the lower version and shared known capabilities', () => {
+        const result = negotiate(
+            handshake(3, 1, ['binary-frames', 'sharing', 'future-feature']),
+            handshake(2, 2, ['sharing', 'archive-session', 'future-feature', 'binary-frames'])
+        );
+        expect(result).toEqual({ ok: true, version: 2, capabilities: ['sharing', 'binary-frames'] });
+    });
+
+    it('negotiates unarchive-session', () => {
+        const result = negotiate(
+            handshake(1, 1, ['archive-session', 'unarchive-session']),
+            handshake(1, 1, ['unarchive-session'])
+        );
+        expect(result).toEqual({ ok: true, version: 1, capabilities: ['unarchive-session'] });
+    });
+
+    it('asks the client to upgrade when it is below the server minimum', () => {
+        const result = negotiate(handshake(1, 1), handshake(3, 2));
+        expect(result).toMatchObject({
+            ok: false,
+            error: {
+                code: ErrorCodes.VERSION_MISMATCH,
+                canTryAgain: false,
+                context: { upgrade: 'client', requiredVersion: 2, clientVersion: 1, serverVersion: 3 },
+            },
+        });
+    });
+
+    it('reports a server that is older than the client minimum', () => {
+        const result = negotiate(handshake(4, 3), handshake(2, 1));
+        expect(result).toMatchObject({
+            ok: false,
+            error: { code: ErrorCodes.VERSION_MISMATCH, context: { upgrade: 'server', requiredVersion: 3 } },
+        });
+    });
+});
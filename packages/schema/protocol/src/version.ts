@@ -0,0 +1,174 @@
+/**
+ * Protocol version negotiation
+ *
+ * The REST API is versioned by its `/v1/` prefix (docs/API-VERSIONING.md);
+ * the WebSocket protocol is versioned here. On connect each side sends a
+ * `ProtocolHandshake` advertising the protocol version it speaks, the oldest
+ * version it still accepts and its capability flags. `negotiate` settles on
+ * the highest version both support and the capabilities both advertise.
+ *
+ * Bump `PROTOCOL_VERSION` for breaking wire changes; additive features get a
+ * capability flag instead so older peers can keep talking.
+ *
+ * @example
+ * ```typescript
+ * import { negotiate, createHandshake } from '@happy/protocol';
+ *
+ * const result = negotiate(clientHandshake, createHandshake(['archive-session', 'sharing']));
+ * if (!result.ok) {
+ *     socket.emit('error', result.error.toJSON());
+ *     return socket.disconnect();
+ * }
+ * if (result.capabilities.includes('archive-session')) { ... }
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+import { z } from 'zod';
+import { AppError, ErrorCodes } from '@happy/errors';
+import { STRING_LIMITS } from './constraints';
+
+// ═══════════════════════════════════════════════════════════════
+// Versions and capabilities
+// ═══════════════════════════════════════════════════════════════
+
+/** WebSocket protocol version implemented by this package */
+export const PROTOCOL_VERSION = 1;
+
+/** Oldest protocol version this package can still talk to */
+export const MIN_PROTOCOL_VERSION = 1;
+
+/** Maximum number of capability flags in one handshake */
+export const MAX_CAPABILITIES = 64;
+
+/**
+ * Optional features a peer can advertise
+ *
+ * Peers may advertise flags this list does not know yet; `negotiate` ignores them.
+ */
+export const PROTOCOL_CAPABILITIES = [
+    'archive-session',
+    'unarchive-session',
+    'sharing',
+    'binary-frames',
+    'usage-limits',
+    'kv-batch-update',
+    'rotate-key',
+] as const;
+
+export type ProtocolCapability = (typeof PROTOCOL_CAPABILITIES)[number];
+
+// ═══════════════════════════════════════════════════════════════
+// Handshake
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Version and capability advertisement sent by each side on connect
+ */
+export const ProtocolHandshakeSchema = z.object({
+    protocolVersion: z.number().int().min(1),
+    minProtocolVersion: z.number().int().min(1),
+    capabilities: z.array(z.string().min(1).max(STRING_LIMITS.LABEL_MAX)).max(MAX_CAPABILITIES),
+}).refine(
+    (data) => data.minProtocolVersion <= data.protocolVersion,
+    { message: 'minProtocolVersion must not exceed protocolVersion' }
+);
+
+export type ProtocolHandshake = z.infer<typeof ProtocolHandshakeSchema>;
+
+/**
+ * Build this side's handshake for the current protocol version
+ */
+export function createHandshake(capabilities: readonly ProtocolCapability[]): ProtocolHandshake {
+    return {
+        protocolVersion: PROTOCOL_VERSION,
+        minProtocolVersion: MIN_PROTOCOL_VERSION,
+        capabilities: [...capabilities],
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Negotiation
+// ═══════════════════════════════════════════════════════════════
+
+export type NegotiationResult =
+    | { ok: true; version: number; capabilities: ProtocolCapability[] }
+    | { ok: false; error: AppError };
+
+/**
+ * Agree on a protocol version and feature set
+ *
+ * The agreed version is the lower of the two advertised versions, provided
+ * it is at least each side's minimum. Capabilities are those both sides
+ * advertise and this package knows, in `PROTOCOL_CAPABILITIES` order.
+ *
+ * On failure returns a `VERSION_MISMATCH` `AppError` whose context names the
+ * side that must upgrade (`upgrade: 'client' | 'server'`) and the version it
+ * needs to reach (`requiredVersion`).
+ *
+ * @example
+ * ```typescript
+ * negotiate(
+ *     { protocolVersion: 2, minProtocolVersion: 1, capabilities: ['sharing', 'binary-frames'] },
+ *     { protocolVersion: 1, minProtocolVersion: 1, capabilities: ['sharing'] }
+ * );
+ * // { ok: true, version: 1, capabilities: ['sharing'] }
+ * ```
+ */
+export function negotiate(client: ProtocolHandshake, server: ProtocolHandshake): NegotiationResult {
+    if (client.protocolVersion < server.minProtocolVersion) {
+        return {
+            ok: false,
+            error: versionMismatch(
+                `Client protocol v${client.protocolVersion} is no longer supported; ` +
+                `update the app to protocol v${server.minProtocolVersion} or later`,
+                'client',
+                server.minProtocolVersion,
+                client,
+                server
+            ),
+        };
+    }
+    if (server.protocolVersion < client.minProtocolVersion) {
+        return {
+            ok: false,
+            error: versionMismatch(
+                `Server protocol v${server.protocolVersion} is older than this client supports; ` +
+                `the server must be upgraded to protocol v${client.minProtocolVersion} or later`,
+                'server',
+                client.minProtocolVersion,
+                client,
+                server
+            ),
+        };
+    }
+
+    const serverCapabilities = new Set(server.capabilities);
+    const clientCapabilities = new Set(client.capabilities);
+    return {
+        ok: true,
+        version: Math.min(client.protocolVersion, server.protocolVersion),
+        capabilities: PROTOCOL_CAPABILITIES.filter(
+            (capability) => clientCapabilities.has(capability) && serverCapabilities.has(capability)
+        ),
+    };
+}
+
+function versionMismatch(
+    message: string,
+    upgrade: 'client' | 'server',
+    requiredVersion: number,
+    client: ProtocolHandshake,
+    server: ProtocolHandshake
+): AppError {
+    return new AppError(ErrorCodes.VERSION_MISMATCH, message, {
+        canTryAgain: false,
+        context: {
+            upgrade,
+            requiredVersion,
+            clientVersion: client.protocolVersion,
+            serverVersion: server.protocolVersion,
+        },
+    });
+}